@@ -0,0 +1,29 @@
+// File: app/api/achievements/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { requireUser } from '@/lib/auth';
+import { evaluateAchievements, getAchievements } from '@/lib/achievements';
+
+// Every badge, earned or locked. Checks all of them first, so badges earned before
+// this existed (or missed by a failed check) show up.
+export async function GET(request: NextRequest) {
+  try {
+    const auth = requireUser(request);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
+
+    const db = await getDb();
+    const awarded = await evaluateAchievements(db, userId);
+    const achievements = await getAchievements(db, userId);
+
+    return NextResponse.json({
+      achievements,
+      earnedCount: achievements.filter(achievement => achievement.earnedAt).length,
+      newlyEarned: awarded.map(achievement => achievement.id),
+    }, { status: 200 });
+  } catch (error: unknown) {
+  console.error('Get achievements error:', error);
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json({ error: 'Failed to fetch achievements', details: errorMessage }, { status: 500 });
+  }
+}
@@ -1,24 +1,32 @@
 // app/api/ai/recommendations/route.ts
 import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { getMoodDefinitions, getValence, getValenceBand } from '@/lib/mood-definitions';
+import { requireUser } from '@/lib/auth';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { moodState} = body;
+    const { moodState } = body;
+
+    const auth = requireUser(request, body.userId);
+    if (auth.response) return auth.response;
     
     console.log('AI Recommendations request:', JSON.stringify(body, null, 2));
     
-    // Generate recommendations based on mood state
+    // Generate recommendations based on how positive the mood is
+    const definitions = await getMoodDefinitions(await getDb(), auth.userId);
+    const band = getValenceBand(getValence(definitions, moodState));
     let recommendations = [];
     
-    if (moodState === 'Sad') {
+    if (band === 'negative') {
       recommendations = [
         "Take a 10-minute walk in nature",
         "Call a friend or family member",
         "Practice gratitude - write 3 things you're thankful for",
         "Listen to uplifting music"
       ];
-    } else if (moodState === 'Stressed') {
+    } else if (band === 'mixed') {
       recommendations = [
         "Try 4-7-8 breathing technique",
         "Take a 5-minute meditation break",
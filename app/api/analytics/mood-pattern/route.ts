@@ -1,11 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { MongoClient } from 'mongodb';
+import { collectionsFor, getDb } from '@/lib/mongodb';
+import { MoodContext } from '@/lib/mongodb-schemas';
+import {
+  ResolvedMoodDefinition,
+  ValenceBand,
+  getMoodDefinitions,
+  getValence,
+  getValenceBand,
+} from '@/lib/mood-definitions';
+import { requireUser } from '@/lib/auth';
+import { NOT_DELETED } from '@/lib/trash';
+import { dateKeyInZone, getUserTimeZone, hourInZone } from '@/lib/timezone';
 
 interface MoodPatternRequest {
-  userId: string;
+  userId?: string; // optional; must match the session
   timeRange?: number; // days
   analysisType?: 'basic' | 'detailed' | 'ai_enhanced';
   includeRecommendations?: boolean;
+  save?: boolean; // keep the analysis in mood_analysis (default); false just returns it
 }
 
 interface MoodPattern {
@@ -14,18 +26,43 @@ interface MoodPattern {
   frequency: number;
   timeOfDay?: string;
   sentiment?: string;
+  averageIntensity?: number | null;
+  emotions?: string[];
+}
+
+// How moods logged alongside one activity / person / place compare with the rest
+interface ContextImpact {
+  factor: string;
+  kind: 'activity' | 'people' | 'location';
+  count: number;
+  averageValence: number;
+  impact: number; // average valence with the factor minus without it
+}
+
+interface ActivityImpact {
+  factors: ContextImpact[]; // sorted from most positive to most negative impact
+  sleep: {
+    entries: number;
+    averageHours: number;
+    correlation: number | null; // Pearson r between sleep hours and valence
+  } | null;
 }
 
 interface PatternAnalysis {
   userId: string;
   timeRange: number;
   patterns: MoodPattern[];
+  activityImpact: ActivityImpact;
   insights: {
     dominantMood: string;
+    dominantMoodBand: ValenceBand | null;
     moodStability: number;
     riskLevel: 'low' | 'medium' | 'high';
     trendDirection: 'improving' | 'declining' | 'stable';
     criticalPatterns: string[];
+    averageIntensity: number | null;
+    topEmotions: { emotion: string; count: number }[];
+    topTags: { tag: string; count: number }[];
   };
   recommendations?: string[];
   generatedAt: string;
@@ -36,23 +73,27 @@ interface PatternAnalysis {
 interface MoodData {
   timestamp: string;
   moodState: string;
-  sentiment?: string;
+  sentiment?: string | null;
   userId: string;
+  intensity?: number | null;
+  emotions?: string[];
+  tags?: string[];
+  context?: MoodContext;
 }
 
+// Factors seen fewer times than this are too noisy to report
+const MIN_FACTOR_COUNT = 2;
+
 export async function POST(request: NextRequest) {
   console.log('=== Mood Pattern Analysis API called ===');
   
   try {
     const body: MoodPatternRequest = await request.json();
-    const { userId, timeRange = 30, analysisType = 'detailed', includeRecommendations = true } = body;
+    const { timeRange = 30, analysisType = 'detailed', includeRecommendations = true, save = true } = body;
     
-    if (!userId) {
-      return NextResponse.json({ 
-        error: 'userId is required for pattern analysis',
-        success: false 
-      }, { status: 400 });
-    }
+    const auth = requireUser(request, body.userId);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
 
     console.log(`Analyzing mood patterns for user: ${userId}, timeRange: ${timeRange} days`);
     
@@ -62,7 +103,9 @@ export async function POST(request: NextRequest) {
       analysis.recommendations = generatePatternRecommendations(analysis);
     }
     
-    await saveAnalysisResults(analysis);
+    if (save) {
+      await saveAnalysisResults(analysis);
+    }
     
     console.log('Pattern analysis completed:', {
       userId: analysis.userId,
@@ -89,15 +132,9 @@ export async function POST(request: NextRequest) {
 }
 
 async function analyzeMoodPatterns(userId: string, timeRange: number, analysisType: string): Promise<PatternAnalysis> {
-  let client: MongoClient | null = null;
-  
   try {
-    const uri = process.env.MONGODB_URI || 'mongodb://localhost:27017';
-    client = new MongoClient(uri);
-    await client.connect();
-    
-    const db = client.db('mental_health_tracker');
-    const moodsCollection = db.collection('moods');
+    const db = await getDb();
+    const { moods: moodsCollection } = collectionsFor(db);
     
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - timeRange);
@@ -105,25 +142,33 @@ async function analyzeMoodPatterns(userId: string, timeRange: number, analysisTy
     const moodData = await moodsCollection
       .find({
         userId,
-        timestamp: { $gte: startDate.toISOString() }
+        timestamp: { $gte: startDate },
+        ...NOT_DELETED
       })
       .sort({ timestamp: 1 })
       .toArray();
     
   
     const typedMoodData = moodData.map(doc => ({
-  timestamp: doc.timestamp as string,
-  moodState: doc.moodState as string,
-  sentiment: doc.sentiment as string | undefined,
-  userId: doc.userId as string
+  timestamp: new Date(doc.timestamp).toISOString(),
+  moodState: doc.moodState,
+  sentiment: doc.sentiment,
+  userId: doc.userId,
+  intensity: doc.intensity,
+  emotions: doc.emotions || [],
+  tags: doc.tags || [],
+  context: doc.context || {}
 }));
-const patterns = groupMoodsByDate(typedMoodData);
-const insights = generateInsights(typedMoodData);
+const patterns = groupMoodsByDate(typedMoodData, await getUserTimeZone(db, userId));
+const definitions = await getMoodDefinitions(db, userId);
+const insights = generateInsights(typedMoodData, definitions);
+const activityImpact = analyzeActivityImpact(typedMoodData, definitions);
     
     return {
       userId,
       timeRange,
       patterns,
+      activityImpact,
       insights,
       generatedAt: new Date().toISOString()
     };
@@ -131,16 +176,15 @@ const insights = generateInsights(typedMoodData);
   } catch (error) {
     console.error('Error analyzing mood patterns:', error);
     throw error;
-  } finally {
-    if (client) await client.close();
   }
 }
 
-function groupMoodsByDate(moodData: MoodData[]): MoodPattern[] {
+// Days and times of day are the user's local ones
+function groupMoodsByDate(moodData: MoodData[], timeZone: string): MoodPattern[] {
   const dateGroups: { [key: string]: MoodData[] } = {};
   
   moodData.forEach(mood => {
-    const date = new Date(mood.timestamp).toISOString().split('T')[0];
+    const date = dateKeyInZone(new Date(mood.timestamp), timeZone);
     if (!dateGroups[date]) dateGroups[date] = [];
     dateGroups[date].push(mood);
   });
@@ -151,17 +195,22 @@ function groupMoodsByDate(moodData: MoodData[]): MoodPattern[] {
       moodCounts[mood.moodState] = (moodCounts[mood.moodState] || 0) + 1;
     });
     
-    return Object.entries(moodCounts).map(([mood, frequency]) => ({
-      date,
-      mood,
-      frequency,
-      timeOfDay: getMostCommonTimeOfDay(moods.filter(m => m.moodState === mood)),
-      sentiment: getAverageSentiment(moods.filter(m => m.moodState === mood))
-    }));
+    return Object.entries(moodCounts).map(([mood, frequency]) => {
+      const sameMood = moods.filter(m => m.moodState === mood);
+      return {
+        date,
+        mood,
+        frequency,
+        timeOfDay: getMostCommonTimeOfDay(sameMood, timeZone),
+        sentiment: getAverageSentiment(sameMood),
+        averageIntensity: getAverageIntensity(sameMood),
+        emotions: Array.from(new Set(sameMood.flatMap(m => m.emotions || [])))
+      };
+    });
   });
 }
 
-function getMostCommonTimeOfDay(moods: MoodData[]): string {
+function getMostCommonTimeOfDay(moods: MoodData[], timeZone: string): string {
   const timeSlots: { [key: string]: number } & { morning: number; afternoon: number; evening: number; night: number } = {
     morning: 0,
     afternoon: 0,
@@ -170,7 +219,7 @@ function getMostCommonTimeOfDay(moods: MoodData[]): string {
   };
 
   moods.forEach(mood => {
-    const hour = new Date(mood.timestamp).getHours();
+    const hour = hourInZone(new Date(mood.timestamp), timeZone);
     if (hour >= 6 && hour < 12) timeSlots.morning++;
     else if (hour >= 12 && hour < 18) timeSlots.afternoon++;
     else if (hour >= 18 && hour < 22) timeSlots.evening++;
@@ -184,6 +233,22 @@ function getMostCommonTimeOfDay(moods: MoodData[]): string {
   return maxEntry[0];
 }
 
+function getAverageIntensity(moods: MoodData[]): number | null {
+  const intensities = moods
+    .map(m => m.intensity)
+    .filter((value): value is number => typeof value === 'number');
+  if (intensities.length === 0) return null;
+  return Math.round((intensities.reduce((a, b) => a + b, 0) / intensities.length) * 10) / 10;
+}
+
+function countValues(values: string[]): [string, number][] {
+  const counts = values.reduce((acc, value) => {
+    acc[value] = (acc[value] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+  return Object.entries(counts).sort(([, a], [, b]) => b - a);
+}
+
 function getAverageSentiment(moods: MoodData[]): string {
   if (moods.length === 0) return 'neutral';
   
@@ -196,14 +261,18 @@ function getAverageSentiment(moods: MoodData[]): string {
   return 'neutral';
 }
 
-function generateInsights(moodData: MoodData[]): PatternAnalysis['insights'] {
+function generateInsights(moodData: MoodData[], definitions: ResolvedMoodDefinition[]): PatternAnalysis['insights'] {
   if (moodData.length === 0) {
     return {
       dominantMood: 'No data',
+      dominantMoodBand: null,
       moodStability: 0,
       riskLevel: 'low',
       trendDirection: 'stable',
-      criticalPatterns: ['Insufficient data for analysis']
+      criticalPatterns: ['Insufficient data for analysis'],
+      averageIntensity: null,
+      topEmotions: [],
+      topTags: []
     };
   }
   
@@ -215,24 +284,31 @@ function generateInsights(moodData: MoodData[]): PatternAnalysis['insights'] {
   const dominantMood = Object.entries(moodCounts)
     .sort(([,a], [,b]) => (b as number) - (a as number))[0][0];
   
-  const moodValues = { 'Happy': 3, 'Stressed': 2, 'Sad': 1 };
-  const values = moodData.map(m => moodValues[m.moodState as keyof typeof moodValues] || 2);
+  const valenceOf = (m: MoodData) => getValence(definitions, m.moodState);
+  const bandOf = (m: MoodData) => getValenceBand(valenceOf(m));
+  const values = moodData.map(valenceOf);
   const mean = values.reduce((a, b) => a + b, 0) / values.length;
   const variance = values.reduce((acc, val) => acc + Math.pow(val - mean, 2), 0) / values.length;
   const moodStability = Math.round((1 / (Math.sqrt(variance) + 0.1)) * 100) / 100;
   
-  const sadPercentage = (moodCounts['Sad'] || 0) / moodData.length;
-  const stressedPercentage = (moodCounts['Stressed'] || 0) / moodData.length;
-  const consecutiveSad = calculateMaxConsecutiveSad(moodData);
+  // "Sad" / "Stressed" generalise to the negative and mixed valence bands
+  const sadPercentage = moodData.filter(m => bandOf(m) === 'negative').length / moodData.length;
+  const stressedPercentage = moodData.filter(m => bandOf(m) === 'mixed').length / moodData.length;
+  const consecutiveSad = calculateMaxConsecutiveSad(moodData, definitions);
+  
+  // Intense negative entries weigh more than mild ones
+  const negativeMoods = moodData.filter(m => bandOf(m) !== 'positive');
+  const negativeIntensity = getAverageIntensity(negativeMoods);
+  const hasIntenseNegativeMoods = negativeIntensity !== null && negativeIntensity >= 8;
   
   let riskLevel: 'low' | 'medium' | 'high' = 'low';
-  if (consecutiveSad >= 7 || sadPercentage > 0.7) riskLevel = 'high';
-  else if (consecutiveSad >= 3 || sadPercentage > 0.4 || stressedPercentage > 0.6) riskLevel = 'medium';
+  if (consecutiveSad >= 7 || sadPercentage > 0.7 || (hasIntenseNegativeMoods && sadPercentage > 0.4)) riskLevel = 'high';
+  else if (consecutiveSad >= 3 || sadPercentage > 0.4 || stressedPercentage > 0.6 || hasIntenseNegativeMoods) riskLevel = 'medium';
   
   const recentData = moodData.slice(-7);
   const olderData = moodData.slice(-14, -7);
-  const recentAvg = recentData.reduce((acc, m) => acc + (moodValues[m.moodState as keyof typeof moodValues] || 2), 0) / recentData.length;
-  const olderAvg = olderData.length > 0 ? olderData.reduce((acc, m) => acc + (moodValues[m.moodState as keyof typeof moodValues] || 2), 0) / olderData.length : recentAvg;
+  const recentAvg = recentData.reduce((acc, m) => acc + valenceOf(m), 0) / recentData.length;
+  const olderAvg = olderData.length > 0 ? olderData.reduce((acc, m) => acc + valenceOf(m), 0) / olderData.length : recentAvg;
   
   let trendDirection: 'improving' | 'declining' | 'stable' = 'stable';
   if (recentAvg > olderAvg + 0.3) trendDirection = 'improving';
@@ -242,18 +318,99 @@ function generateInsights(moodData: MoodData[]): PatternAnalysis['insights'] {
   if (consecutiveSad >= 5) criticalPatterns.push(`${consecutiveSad} consecutive sad days detected`);
   if (stressedPercentage > 0.5) criticalPatterns.push('High stress frequency detected');
   if (moodStability < 0.3) criticalPatterns.push('High mood volatility detected');
+  if (hasIntenseNegativeMoods) criticalPatterns.push(`High intensity negative moods (average ${negativeIntensity}/10)`);
   if (moodData.length < 7) criticalPatterns.push('Limited data available for comprehensive analysis');
   
   return {
     dominantMood,
+    dominantMoodBand: getValenceBand(getValence(definitions, dominantMood)),
     moodStability,
     riskLevel,
     trendDirection,
-    criticalPatterns
+    criticalPatterns,
+    averageIntensity: getAverageIntensity(moodData),
+    topEmotions: countValues(moodData.flatMap(m => m.emotions || []))
+      .slice(0, 3)
+      .map(([emotion, count]) => ({ emotion, count })),
+    topTags: countValues(moodData.flatMap(m => m.tags || []))
+      .slice(0, 5)
+      .map(([tag, count]) => ({ tag, count }))
   };
 }
 
-function calculateMaxConsecutiveSad(moodData: MoodData[]): number {
+function analyzeActivityImpact(moodData: MoodData[], definitions: ResolvedMoodDefinition[]): ActivityImpact {
+  const scored = moodData.map(m => ({ context: m.context || {}, valence: getValence(definitions, m.moodState) }));
+  const average = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  const factorsOf = (context: MoodContext): { factor: string; kind: ContextImpact['kind'] }[] => [
+    ...(context.activities || []).map(factor => ({ factor, kind: 'activity' as const })),
+    ...(context.people || []).map(factor => ({ factor, kind: 'people' as const })),
+    ...(context.location ? [{ factor: context.location.toLowerCase(), kind: 'location' as const }] : [])
+  ];
+
+  const groups = new Map<string, { factor: string; kind: ContextImpact['kind']; valences: number[] }>();
+  scored.forEach(entry => {
+    factorsOf(entry.context).forEach(({ factor, kind }) => {
+      const key = `${kind}:${factor}`;
+      const group = groups.get(key) || { factor, kind, valences: [] };
+      group.valences.push(entry.valence);
+      groups.set(key, group);
+    });
+  });
+
+  const totalValence = scored.reduce((acc, entry) => acc + entry.valence, 0);
+  const factors = Array.from(groups.values())
+    .filter(group => group.valences.length >= MIN_FACTOR_COUNT)
+    .map(group => {
+      const withFactor = average(group.valences);
+      const othersCount = scored.length - group.valences.length;
+      // Compare against entries without the factor; if there are none, against neutral
+      const withoutFactor = othersCount > 0
+        ? (totalValence - group.valences.reduce((a, b) => a + b, 0)) / othersCount
+        : 0;
+      return {
+        factor: group.factor,
+        kind: group.kind,
+        count: group.valences.length,
+        averageValence: round(withFactor),
+        impact: round(withFactor - withoutFactor)
+      };
+    })
+    .sort((a, b) => b.impact - a.impact);
+
+  const sleepEntries = scored.filter(entry => typeof entry.context.sleepHours === 'number');
+  let sleep: ActivityImpact['sleep'] = null;
+  if (sleepEntries.length > 0) {
+    const hours = sleepEntries.map(entry => entry.context.sleepHours as number);
+    const valences = sleepEntries.map(entry => entry.valence);
+    sleep = {
+      entries: sleepEntries.length,
+      averageHours: Math.round(average(hours) * 10) / 10,
+      correlation: sleepEntries.length >= 3 ? correlation(hours, valences) : null
+    };
+  }
+
+  return { factors, sleep };
+}
+
+// Pearson correlation coefficient; null when either series has no variance
+function correlation(xs: number[], ys: number[]): number | null {
+  const meanX = xs.reduce((a, b) => a + b, 0) / xs.length;
+  const meanY = ys.reduce((a, b) => a + b, 0) / ys.length;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY);
+    varianceX += Math.pow(x - meanX, 2);
+    varianceY += Math.pow(ys[i] - meanY, 2);
+  });
+  if (varianceX === 0 || varianceY === 0) return null;
+  return Math.round((covariance / Math.sqrt(varianceX * varianceY)) * 100) / 100;
+}
+
+function calculateMaxConsecutiveSad(moodData: MoodData[], definitions: ResolvedMoodDefinition[]): number {
   let maxConsecutive = 0;
   let currentConsecutive = 0;
   
@@ -262,7 +419,7 @@ function calculateMaxConsecutiveSad(moodData: MoodData[]): number {
   );
   
   for (const mood of sortedData) {
-    if (mood.moodState === 'Sad') {
+    if (getValenceBand(getValence(definitions, mood.moodState)) === 'negative') {
       currentConsecutive++;
       maxConsecutive = Math.max(maxConsecutive, currentConsecutive);
     } else {
@@ -275,7 +432,7 @@ function calculateMaxConsecutiveSad(moodData: MoodData[]): number {
 
 function generatePatternRecommendations(analysis: PatternAnalysis): string[] {
   const recommendations = [];
-  const { insights } = analysis;
+  const { insights, activityImpact } = analysis;
   
   if (insights.riskLevel === 'high') {
     recommendations.push('Consider reaching out to a mental health professional immediately');
@@ -297,12 +454,24 @@ function generatePatternRecommendations(analysis: PatternAnalysis): string[] {
     recommendations.push('Consider gradually increasing social activities');
   }
   
-  if (insights.dominantMood === 'Stressed') {
+  if (insights.dominantMoodBand === 'mixed') {
     recommendations.push('Practice stress-reduction techniques like deep breathing');
     recommendations.push('Evaluate and potentially reduce sources of stress in your environment');
     recommendations.push('Consider time management and organizational strategies');
   }
   
+  const bestActivity = activityImpact.factors.find(f => f.kind === 'activity' && f.impact >= 0.3);
+  const worstActivity = [...activityImpact.factors].reverse().find(f => f.kind === 'activity' && f.impact <= -0.3);
+  if (bestActivity) {
+    recommendations.push(`Make time for ${bestActivity.factor} - your moods tend to be better on those entries`);
+  }
+  if (worstActivity) {
+    recommendations.push(`Notice how ${worstActivity.factor} affects you and plan a recovery break around it`);
+  }
+  if (activityImpact.sleep?.correlation != null && activityImpact.sleep.correlation >= 0.3) {
+    recommendations.push('Your mood tracks your sleep closely - protect a regular bedtime');
+  }
+  
   if (insights.moodStability < 0.5) {
     recommendations.push('Work on establishing consistent daily routines');
     recommendations.push('Track potential mood triggers in your environment');
@@ -313,15 +482,8 @@ function generatePatternRecommendations(analysis: PatternAnalysis): string[] {
 }
 
 async function saveAnalysisResults(analysis: PatternAnalysis): Promise<void> {
-  let client: MongoClient | null = null;
-  
   try {
-    const uri = process.env.MONGODB_URI || 'mongodb://localhost:27017';
-    client = new MongoClient(uri);
-    await client.connect();
-    
-    const db = client.db('mental_health_tracker');
-    const analysisCollection = db.collection('mood_analysis');
+    const { moodAnalysis: analysisCollection } = collectionsFor(await getDb());
     
     await analysisCollection.insertOne({
       ...analysis,
@@ -330,31 +492,19 @@ async function saveAnalysisResults(analysis: PatternAnalysis): Promise<void> {
     
   } catch (error) {
     console.error('Error saving analysis results:', error);
-  } finally {
-    if (client) await client.close();
   }
 }
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
     const limit = parseInt(searchParams.get('limit') || '5');
     
-    if (!userId) {
-      return NextResponse.json({ 
-        error: 'userId is required',
-        success: false 
-      }, { status: 400 });
-    }
+    const auth = requireUser(request);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
     
-    let client: MongoClient | null = null;
-    const uri = process.env.MONGODB_URI || 'mongodb://localhost:27017';
-    client = new MongoClient(uri);
-    await client.connect();
-    
-    const db = client.db('mental_health_tracker');
-    const analysisCollection = db.collection('mood_analysis');
+    const { moodAnalysis: analysisCollection } = collectionsFor(await getDb());
     
     const analyses = await analysisCollection
       .find({ userId })
@@ -362,8 +512,6 @@ export async function GET(request: NextRequest) {
       .limit(limit)
       .toArray();
     
-    await client.close();
-    
     return NextResponse.json({
       success: true,
       analyses,
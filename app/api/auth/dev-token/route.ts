@@ -0,0 +1,35 @@
+// File: app/api/auth/dev-token/route.ts
+// Signs in a development user when NEXT_PUBLIC_AUTH_PROVIDER=local. Public
+// route (see middleware.ts); production builds also need LOCAL_AUTH_SECRET and
+// LOCAL_AUTH_ALLOW_DEV_TOKENS=true.
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthProviderName } from '@/lib/auth';
+import { DEV_USER_EMAIL, devTokensAllowed, issueLocalAccessToken } from '@/lib/auth/local';
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export async function POST(request: NextRequest) {
+  try {
+    if (getAuthProviderName() !== 'local' || !devTokensAllowed()) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const email = typeof body.email === 'string' && body.email.trim() ? body.email.trim() : DEV_USER_EMAIL;
+    if (!EMAIL.test(email)) {
+      return NextResponse.json({ error: 'Invalid email' }, { status: 400 });
+    }
+
+    const { accessToken, claims } = await issueLocalAccessToken(email);
+
+    return NextResponse.json({
+      accessToken,
+      expiresAt: claims.exp,
+      user: { id: claims.sub, email: claims.email }
+    }, { status: 200 });
+  } catch (error: unknown) {
+  console.error('Dev token error:', error);
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json({ error: 'Failed to issue token', details: errorMessage }, { status: 500 });
+  }
+}
@@ -1,12 +1,29 @@
 // File: app/api/autocomplete/suggestions/route.ts
 import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { getMoodDefinitions, getValence, getValenceBand, ValenceBand } from '@/lib/mood-definitions';
+import { requireUser } from '@/lib/auth';
+import { getConsent, outgoingText } from '@/lib/privacy';
 
 interface AutoCompleteRequest {
   text: string;
-  currentMood: 'Happy' | 'Sad' | 'Stressed';
+  currentMood: string;
+  userId?: string;
   context?: string[];
 }
 
+// Fallback suggestions are grouped by how positive the mood is, so custom moods get them too
+async function getMoodBand(mood: string, userId?: string): Promise<ValenceBand> {
+  try {
+    const db = await getDb();
+    const definitions = await getMoodDefinitions(db, userId);
+    return getValenceBand(getValence(definitions, mood));
+  } catch (error) {
+    console.warn('Could not load mood definitions, using mixed suggestions:', error);
+    return 'mixed';
+  }
+}
+
 interface GeminiResponse {
   candidates: Array<{
     content: { parts: Array<{ text: string }> };
@@ -40,7 +57,7 @@ can't handle pressure
 need a break desperately`;
 }
 
-function parseSuggestions(response: string): string[] {
+function parseSuggestions(response: string, band: ValenceBand): string[] {
   // Parse the Gemini response into clean suggestions
   const lines = response
     .split('\n')
@@ -48,15 +65,15 @@ function parseSuggestions(response: string): string[] {
     .filter(line => line.length > 0 && !line.match(/^\d+\./) && line.length < 50)
     .slice(0, 8); // Limit to 8 suggestions
     
-  return lines.length > 0 ? lines : getFallbackSuggestions('', 'Happy');
+  return lines.length > 0 ? lines : getFallbackSuggestions('', band);
 }
 
  
 
-function getFallbackSuggestions(text: string, mood: string): string[] {
+function getFallbackSuggestions(text: string, band: ValenceBand): string[] {
   const textLower = text.toLowerCase();
-  const suggestionMaps = {
-    Happy: [
+  const suggestionMaps: Record<ValenceBand, string[]> = {
+    positive: [
       'feeling joyful today',
       'grateful for small wins',
       'energized and optimistic',
@@ -64,7 +81,7 @@ function getFallbackSuggestions(text: string, mood: string): string[] {
       'excited for tomorrow',
       'happy and relaxed'
     ],
-    Sad: [
+    negative: [
       'feeling a bit down',
       'struggling with emotions',
       'need some comfort',
@@ -72,7 +89,7 @@ function getFallbackSuggestions(text: string, mood: string): string[] {
       'feeling isolated',
       'seeking some hope'
     ],
-    Stressed: [
+    mixed: [
       'overwhelmed with work',
       'feeling anxious now',
       'need to unwind',
@@ -98,14 +115,18 @@ function getFallbackSuggestions(text: string, mood: string): string[] {
   }
 
   // Return mood-specific suggestions with randomization for variety
-  const moodSuggestions = suggestionMaps[mood as keyof typeof suggestionMaps] || suggestionMaps.Happy;
+  const moodSuggestions = [...suggestionMaps[band]];
   return moodSuggestions.sort(() => Math.random() - 0.5).slice(0, 5);
 }
 
 export async function POST(request: NextRequest) {
   console.log('=== Smart AutoComplete API called ===');
   try {
-    const { text, currentMood, context = [] }: AutoCompleteRequest = await request.json();
+    const body: AutoCompleteRequest = await request.json();
+    const { text, currentMood, context = [] } = body;
+
+    const auth = requireUser(request, body.userId);
+    if (auth.response) return auth.response;
     
     if (!text || text.trim().length < 2) {
       return NextResponse.json({ 
@@ -114,15 +135,29 @@ export async function POST(request: NextRequest) {
       }, { status: 200 });
     }
 
+    const band = await getMoodBand(currentMood, auth.userId);
+
+    // Typed text only reaches Gemini with consent, redacted if the user asked for that
+    const consent = await getConsent(await getDb(), auth.userId, 'gemini');
+    const outgoing = consent.enabled ? outgoingText(consent, text) : null;
+    if (!outgoing) {
+      return NextResponse.json({
+        suggestions: getFallbackSuggestions(text, band),
+        fallback: true,
+        consentRequired: 'gemini'
+      }, { status: 200 });
+    }
+
     const geminiApiKey = process.env.GEMINI_API_KEY;
     if (!geminiApiKey) {
       return NextResponse.json({ 
-        suggestions: getFallbackSuggestions(text, currentMood),
+        suggestions: getFallbackSuggestions(text, band),
         fallback: true
       }, { status: 200 });
     }
 
-    const prompt = createAutoCompletePrompt(text, currentMood, context);
+    const outgoingContext = context.map(item => outgoingText(consent, item)).filter((item): item is string => !!item);
+    const prompt = createAutoCompletePrompt(outgoing, currentMood, outgoingContext);
     const geminiResponse = await fetch(
       'https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=' + geminiApiKey,
       {
@@ -138,14 +173,14 @@ export async function POST(request: NextRequest) {
     if (!geminiResponse.ok) {
       console.error('Gemini API error:', await geminiResponse.text());
       return NextResponse.json({
-        suggestions: getFallbackSuggestions(text, currentMood),
+        suggestions: getFallbackSuggestions(text, band),
         fallback: true
       }, { status: 200 });
     }
 
     const geminiData: GeminiResponse = await geminiResponse.json();
     const responseText = geminiData.candidates[0]?.content.parts[0]?.text || '';
-    const suggestions = parseSuggestions(responseText);
+    const suggestions = parseSuggestions(responseText, band);
     
     return NextResponse.json({
       suggestions,
@@ -159,9 +194,9 @@ export async function POST(request: NextRequest) {
 
   } catch (error: unknown) {
     console.error('=== AutoComplete Error ===', error);
-    const { text = '', currentMood = 'Happy' } = await request.json().catch(() => ({}));
+    const { text = '' } = await request.json().catch(() => ({}));
     return NextResponse.json({
-      suggestions: getFallbackSuggestions(text, currentMood),
+      suggestions: getFallbackSuggestions(text, 'mixed'),
       fallback: true,
       error: 'Suggestion service temporarily unavailable'
     }, { status: 200 });
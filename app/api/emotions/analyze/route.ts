@@ -1,6 +1,10 @@
 // File: app/api/emotions/analyze/route.ts
 import { NextRequest, NextResponse } from 'next/server';
-import { MongoClient } from 'mongodb';
+import { collectionsFor, getDb } from '@/lib/mongodb';
+import { getMoodDefinitions, getValence, getValenceBand } from '@/lib/mood-definitions';
+import { requireUser } from '@/lib/auth';
+import { getConsent, outgoingText } from '@/lib/privacy';
+import { NOT_DELETED } from '@/lib/trash';
 interface EmotionResult {
   label: string;
   score: number;
@@ -21,6 +25,7 @@ interface AnalysisResult {
  
 interface MoodHistoryEntry {
   moodState: string;
+  valence: number;
   timestamp: string;
 } 
 function calculateConfidenceScore(emotions: EmotionResult[]): number {
@@ -60,7 +65,7 @@ function assessMentalHealthRisk(emotions: EmotionResult[], text: string, moodHis
   const angerScore = emotions.find(e => e.label === 'anger')?.score || 0;
 
   // Calculate historical negative mood frequency
-  const recentNegativeMoods = moodHistory.filter(m => ['Sad', 'Stressed'].includes(m.moodState)).length;
+  const recentNegativeMoods = moodHistory.filter(m => getValenceBand(m.valence) !== 'positive').length;
   const historyFactor = moodHistory.length > 0 ? recentNegativeMoods / moodHistory.length : 0;
 
   let riskLevel: 'low' | 'medium' | 'high' = 'low';
@@ -91,36 +96,34 @@ function assessMentalHealthRisk(emotions: EmotionResult[], text: string, moodHis
 }
 
 async function fetchRecentMoods(userId: string): Promise<MoodHistoryEntry[]> {
-  const uri = process.env.MONGODB_URI || 'mongodb://localhost:27017';
-  const client = new MongoClient(uri);
-
-  try {
-    await client.connect();
-    const db = client.db('mental_health_tracker');
-    const moodsCollection = db.collection('moods');
-
-    const sevenDaysAgo = new Date();
-    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-
-    const documents = await moodsCollection
-      .find({ userId, timestamp: { $gte: sevenDaysAgo } })
-      .sort({ timestamp: -1 })
-      .limit(10)
-      .toArray();
-
-    // Map documents to MoodHistoryEntry
-    return documents.map(doc => ({
-      moodState: doc.moodState as string,
-      timestamp: doc.timestamp instanceof Date ? doc.timestamp.toISOString() : doc.timestamp,
-    }));
-  } finally {
-    await client.close();
-  }
+  const db = await getDb();
+  const { moods: moodsCollection } = collectionsFor(db);
+
+  const sevenDaysAgo = new Date();
+  sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
+
+  const definitions = await getMoodDefinitions(db, userId);
+  const documents = await moodsCollection
+    .find({ userId, timestamp: { $gte: sevenDaysAgo }, ...NOT_DELETED })
+    .sort({ timestamp: -1 })
+    .limit(10)
+    .toArray();
+
+  // Map documents to MoodHistoryEntry
+  return documents.map(doc => ({
+    moodState: doc.moodState,
+    valence: getValence(definitions, doc.moodState),
+    timestamp: new Date(doc.timestamp).toISOString(),
+  }));
 }
 export async function POST(request: NextRequest) {
   console.log('=== Emotion Analysis API called ===');
   try {
-    const { text, userId } = await request.json();
+    const body = await request.json();
+    const { text } = body;
+
+    const auth = requireUser(request, body.userId);
+    if (auth.response) return auth.response;
     
     if (!text || text.trim().length < 3) {
       return NextResponse.json({ 
@@ -128,6 +131,18 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // The text only goes to Hugging Face with the user's consent, redacted if they asked for that
+    const consent = await getConsent(await getDb(), auth.userId, 'huggingface');
+    const outgoing = consent.enabled ? outgoingText(consent, text) : null;
+    if (!outgoing) {
+      return NextResponse.json({
+        success: true,
+        analysis: getFallbackEmotionAnalysis(text),
+        fallback: true,
+        consentRequired: 'huggingface'
+      }, { status: 200 });
+    }
+
     const hfApiKey = process.env.HUGGINGFACE_API_KEY;
     if (!hfApiKey) {
       return NextResponse.json({ 
@@ -135,7 +150,7 @@ export async function POST(request: NextRequest) {
       }, { status: 500 });
     }
 
-    console.log('Analyzing emotions for text:', text.substring(0, 50) + '...');
+    console.log('Analyzing emotions for text of length', outgoing.length);
 
     const response = await fetch(
       'https://api-inference.huggingface.co/models/j-hartmann/emotion-english-distilroberta-base',
@@ -146,7 +161,7 @@ export async function POST(request: NextRequest) {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          inputs: text,
+          inputs: outgoing,
           options: { wait_for_model: true }
         }),
       }
@@ -162,7 +177,7 @@ export async function POST(request: NextRequest) {
     }
 
     const emotionData: EmotionResult[] = await response.json();
-    const moodHistory = userId ? await fetchRecentMoods(userId) : [];
+    const moodHistory = await fetchRecentMoods(auth.userId);
     const analysis = processEmotionData(emotionData, text, moodHistory);
 
     return NextResponse.json({
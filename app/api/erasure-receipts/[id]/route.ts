@@ -0,0 +1,30 @@
+// File: app/api/erasure-receipts/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getCollections } from '@/lib/mongodb';
+import { verifyErasureReceipt } from '@/lib/account-erasure';
+
+// Public: the account no longer exists, so the receipt id is the only credential.
+// Receipts hold a hash of the user id and document counts, nothing else.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { erasureReceipts } = await getCollections();
+    const receipt = await erasureReceipts.findOne({ receiptId: params.id }, { projection: { _id: 0 } });
+
+    if (!receipt) {
+      return NextResponse.json({ error: 'Receipt not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ ...receipt, verified: verifyErasureReceipt(receipt) }, { status: 200 });
+
+  } catch (error: unknown) {
+  console.error('Get erasure receipt error:', error);
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json(
+    { error: 'Failed to fetch erasure receipt', details: errorMessage },
+    { status: 500 }
+  );
+  }
+}
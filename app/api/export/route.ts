@@ -0,0 +1,63 @@
+// File: app/api/export/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { requireUser } from '@/lib/auth';
+import {
+  CSV_EXPORTS,
+  CsvExport,
+  EXPORT_FORMATS,
+  ExportFormat,
+  exportCsv,
+  exportHtml,
+  exportJson,
+  toReadableStream
+} from '@/lib/data-export';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+};
+
+// GET /api/export?format=json|csv|html[&collection=moods|wellness_goals|weekly_stats|mood_analysis]
+// The body is streamed; CSV covers one collection per request.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const auth = requireUser(request);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
+
+    const format = (searchParams.get('format') || 'json') as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json({ error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` }, { status: 400 });
+    }
+
+    const collection = (searchParams.get('collection') || 'moods') as CsvExport;
+    if (format === 'csv' && !CSV_EXPORTS.includes(collection)) {
+      return NextResponse.json({ error: `collection must be one of: ${CSV_EXPORTS.join(', ')}` }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const chunks = format === 'csv' ? exportCsv(db, userId, collection)
+      : format === 'html' ? exportHtml(db, userId)
+      : exportJson(db, userId);
+
+    const date = new Date().toISOString().split('T')[0];
+    const filename = format === 'csv' ? `taskeen-${collection}-${date}.csv` : `taskeen-export-${date}.${format}`;
+
+    return new Response(toReadableStream(chunks), {
+      status: 200,
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        // The report opens in the browser so it can be printed
+        'Content-Disposition': `${format === 'html' ? 'inline' : 'attachment'}; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error: unknown) {
+  console.error('Export error:', error);
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json({ error: 'Failed to export data', details: errorMessage }, { status: 500 });
+  }
+}
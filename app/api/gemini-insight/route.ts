@@ -1,42 +1,50 @@
 // app/api/gemini-insight/route.ts
-import { NextResponse } from 'next/server';
-import { MongoClient } from 'mongodb';
+import { NextRequest, NextResponse } from 'next/server';
+import { collectionsFor, getDb } from '@/lib/mongodb';
+import { getMoodDefinitions, getValenceBand, moodForValence, valenceForEmotion } from '@/lib/mood-definitions';
+import { requireUser } from '@/lib/auth';
+import { decryptMoods } from '@/lib/encrypted-fields';
+import { NOT_DELETED } from '@/lib/trash';
+import { getConsent } from '@/lib/privacy';
+import { getUserTimeZone, hourInZone } from '@/lib/timezone';
 
-export async function POST(req: Request) {
+export async function POST(req: NextRequest) {
   try {
-    const { userId } = await req.json();
-    if (!userId) {
-      return NextResponse.json({ error: "User ID is required" }, { status: 400 });
-    }
+    const body = await req.json();
+    const auth = requireUser(req, body.userId);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
 
-    const uri = process.env.MONGODB_URI;
-    if (!uri) {
-      return NextResponse.json({ error: "MongoDB URI not configured" }, { status: 500 });
+    const db = await getDb();
+    const consent = await getConsent(db, userId, 'huggingface');
+    if (!consent.enabled) {
+      return NextResponse.json({
+        insight: 'AI insights are off. Allow Hugging Face in Privacy Settings to get them.',
+        consentRequired: 'huggingface'
+      });
     }
 
-    const client = new MongoClient(uri);
-    try {
-      await client.connect();
-      const db = client.db('mental_health_tracker');
-      const moodsCollection = db.collection('moods');
-      const recentMoods = await moodsCollection
-        .find({ userId })
-        .sort({ timestamp: -1 })
-        .limit(7)
-        .toArray();
+    const { moods: moodsCollection } = collectionsFor(db);
+    const recentMoods = await decryptMoods(db, userId, await moodsCollection
+      .find({ userId, ...NOT_DELETED })
+      .sort({ timestamp: -1 })
+      .limit(7)
+      .toArray());
 
-      if (!recentMoods.length) {
-        return NextResponse.json({ insight: "No recent moods found." });
-      }
+    if (!recentMoods.length) {
+      return NextResponse.json({ insight: "No recent moods found." });
+    }
 
-      const moodData = recentMoods.map((entry) => ({
-        mood: entry.moodState,
-        day: new Date(entry.timestamp).toLocaleDateString("en-US", { weekday: "long" }),
-        hour: new Date(entry.timestamp).getHours(),
-        text_length: entry.moodText?.length || 0,
-      }));
+    const timeZone = await getUserTimeZone(db, userId);
+    const moodData = recentMoods.map((entry) => ({
+      mood: entry.moodState,
+      day: new Date(entry.timestamp).toLocaleDateString("en-US", { weekday: "long", timeZone }),
+      hour: hourInZone(new Date(entry.timestamp), timeZone),
+      // Not even the length of a note goes out when text sharing is off
+      text_length: consent.text === 'none' ? 0 : entry.moodText?.length || 0,
+    }));
 
-      const prompt = `You are an AI psychologist analyzing mood patterns. Based on this 7-day mood history, provide a brief insight or recommendation:
+    const prompt = `You are an AI psychologist analyzing mood patterns. Based on this 7-day mood history, provide a brief insight or recommendation:
 
 MOOD DATA:
 ${moodData
@@ -45,30 +53,29 @@ ${moodData
 
 Return a concise response (max 100 words).`;
 
-      const hfApiKey = process.env.HUGGINGFACE_API_KEY;
-      if (!hfApiKey) {
-        return NextResponse.json({ error: "Hugging Face API key missing" }, { status: 500 });
-      }
+    const hfApiKey = process.env.HUGGINGFACE_API_KEY;
+    if (!hfApiKey) {
+      return NextResponse.json({ error: "Hugging Face API key missing" }, { status: 500 });
+    }
 
-      const response = await fetch(
-        'https://api-inference.huggingface.co/models/j-hartmann/emotion-english-distilroberta-base', // Updated model
-        {
-          method: 'POST',
-          headers: { 'Authorization': `Bearer ${hfApiKey}`, 'Content-Type': 'application/json' },
-          body: JSON.stringify({ inputs: prompt, options: { wait_for_model: true } }),
-        }
-      );
+    const response = await fetch(
+      'https://api-inference.huggingface.co/models/j-hartmann/emotion-english-distilroberta-base', // Updated model
+      {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${hfApiKey}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ inputs: prompt, options: { wait_for_model: true } }),
+      }
+    );
 
-      if (!response.ok) throw new Error(`Hugging Face API error - Status: ${response.status}`);
-      const hfData = await response.json();
-      const dominantEmotion = hfData[0]?.[0]?.label || 'neutral'; // Get the top emotion
-      const sentiment = dominantEmotion === 'joy' ? 'Happy' : dominantEmotion === 'sadness' ? 'Sad' : 'Stressed';
-      const insight = `Insight: Your mood leans toward ${sentiment}. Consider ${sentiment === 'Happy' ? 'maintaining' : 'improving'} it with self-care.`;
+    if (!response.ok) throw new Error(`Hugging Face API error - Status: ${response.status}`);
+    const hfData = await response.json();
+    const dominantEmotion = hfData[0]?.[0]?.label || 'neutral'; // Get the top emotion
+    const valence = valenceForEmotion(dominantEmotion);
+    const definitions = await getMoodDefinitions(db, userId);
+    const sentiment = moodForValence(definitions, valence)?.label || dominantEmotion;
+    const insight = `Insight: Your mood leans toward ${sentiment}. Consider ${getValenceBand(valence) === 'positive' ? 'maintaining' : 'improving'} it with self-care.`;
 
-      return NextResponse.json({ insight });
-    } finally {
-      await client.close();
-    }
+    return NextResponse.json({ insight });
   } catch (error: unknown) {
   console.error("Gemini insight error:", error instanceof Error ? error.message : String(error));
   return NextResponse.json({ error: "Unable to fetch insights" }, { status: 500 });
@@ -0,0 +1,193 @@
+// File: app/api/mood-definitions/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { collectionsFor, getDb } from '@/lib/mongodb';
+import { MoodDefinition, moodDefinitionSchema } from '@/lib/mongodb-schemas';
+import { findMoodDefinition, getMoodDefinitions, syncMoodValence } from '@/lib/mood-definitions';
+import { requireUser } from '@/lib/auth';
+import { rebuildStatsRollups } from '@/lib/stats-rollups';
+import { validate, validationErrorResponse } from '@/lib/validation';
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = requireUser(request);
+    if (auth.response) return auth.response;
+
+    const db = await getDb();
+    const definitions = await getMoodDefinitions(db, auth.userId);
+
+    return NextResponse.json(definitions, { status: 200 });
+  } catch (error: unknown) {
+  console.error('Get mood definitions error:', error);
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json({ error: 'Failed to fetch mood definitions', details: errorMessage }, { status: 500 });
+  }
+}
+
+// Create a user definition. Reusing a deployment label overrides it for this user.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const auth = requireUser(request, body.userId);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
+
+    const { value, errors } = validate<MoodDefinition>(moodDefinitionSchema, body);
+    if (errors.length > 0) {
+      return validationErrorResponse(errors);
+    }
+    const fields = value as Omit<MoodDefinition, 'userId' | 'createdAt' | 'updatedAt'>;
+
+    const db = await getDb();
+    const { moodDefinitions: collection } = collectionsFor(db);
+
+    const existing = await getMoodDefinitions(db, userId);
+    const clash = findMoodDefinition(existing, fields.label);
+    if (clash && clash.source === 'user') {
+      return NextResponse.json({ error: `A mood called "${clash.label}" already exists` }, { status: 409 });
+    }
+
+    const definition: MoodDefinition = {
+      ...fields,
+      userId,
+      order: fields.order ?? existing.length,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    const result = await collection.insertOne(definition);
+    // An override of a deployment mood can change the valence of existing entries
+    await syncMoodValence(db, userId);
+    await rebuildStatsRollups(db, userId);
+
+    return NextResponse.json({
+      ...definition,
+      _id: result.insertedId,
+      message: 'Mood definition created successfully'
+    }, { status: 201 });
+  } catch (error: unknown) {
+  console.error('Create mood definition error:', error);
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json({ error: 'Failed to create mood definition', details: errorMessage }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { definitionId } = body;
+
+    const auth = requireUser(request, body.userId);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
+
+    if (!definitionId) {
+      return NextResponse.json({ error: 'definitionId is required' }, { status: 400 });
+    }
+    if (!ObjectId.isValid(definitionId)) {
+      return NextResponse.json({ error: 'Invalid definitionId' }, { status: 400 });
+    }
+
+    const { value, errors } = validate<MoodDefinition>(moodDefinitionSchema, body, { partial: true });
+    if (errors.length > 0) {
+      return validationErrorResponse(errors);
+    }
+
+    const db = await getDb();
+    const { moodDefinitions: collection, moods } = collectionsFor(db);
+    const filter = { _id: new ObjectId(definitionId), userId };
+
+    const current = await collection.findOne(filter);
+    if (!current) {
+      return NextResponse.json({ error: 'Mood definition not found' }, { status: 404 });
+    }
+
+    const updateData: Record<string, unknown> = { ...value, updatedAt: new Date() };
+
+    const renamed = typeof updateData.label === 'string' && updateData.label !== current.label;
+    if (renamed) {
+      const clash = findMoodDefinition(await getMoodDefinitions(db, userId), updateData.label);
+      if (clash && clash.source === 'user') {
+        return NextResponse.json({ error: `A mood called "${clash.label}" already exists` }, { status: 409 });
+      }
+    }
+
+    await collection.updateOne(filter, { $set: updateData });
+
+    // Keep the user's existing entries pointing at the renamed mood
+    if (renamed) {
+      await moods.updateMany(
+        { userId, moodState: current.label },
+        { $set: { moodState: updateData.label as string } }
+      );
+    }
+
+    await syncMoodValence(db, userId);
+    await rebuildStatsRollups(db, userId);
+
+    const updated = await collection.findOne(filter);
+    return NextResponse.json({ ...updated, message: 'Mood definition updated successfully' }, { status: 200 });
+  } catch (error: unknown) {
+  console.error('Update mood definition error:', error);
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json({ error: 'Failed to update mood definition', details: errorMessage }, { status: 500 });
+  }
+}
+
+// Deleting a definition that entries still use requires ?reassignTo=<label>,
+// unless a deployment definition with the same label takes over again.
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const definitionId = searchParams.get('definitionId');
+    const reassignTo = searchParams.get('reassignTo');
+
+    const auth = requireUser(request);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
+
+    if (!definitionId) {
+      return NextResponse.json({ error: 'definitionId is required' }, { status: 400 });
+    }
+    if (!ObjectId.isValid(definitionId)) {
+      return NextResponse.json({ error: 'Invalid definitionId' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const { moodDefinitions: collection, moods } = collectionsFor(db);
+    const filter = { _id: new ObjectId(definitionId), userId };
+
+    const current = await collection.findOne(filter);
+    if (!current) {
+      return NextResponse.json({ error: 'Mood definition not found' }, { status: 404 });
+    }
+
+    const remaining = (await getMoodDefinitions(db, userId)).filter(def => def._id?.toString() !== definitionId);
+    const stillDefined = findMoodDefinition(remaining, current.label);
+    const usage = await moods.countDocuments({ userId, moodState: current.label });
+
+    if (usage > 0 && !stillDefined) {
+      const target = findMoodDefinition(remaining, reassignTo);
+      if (!target) {
+        return NextResponse.json({
+          error: `${usage} entries use "${current.label}". Pass reassignTo with another mood label.`,
+          usage
+        }, { status: 409 });
+      }
+      await moods.updateMany(
+        { userId, moodState: current.label },
+        { $set: { moodState: target.label } }
+      );
+    }
+
+    await collection.deleteOne(filter);
+    await syncMoodValence(db, userId);
+    await rebuildStatsRollups(db, userId);
+
+    return NextResponse.json({ message: 'Mood definition deleted successfully' }, { status: 200 });
+  } catch (error: unknown) {
+  console.error('Delete mood definition error:', error);
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json({ error: 'Failed to delete mood definition', details: errorMessage }, { status: 500 });
+  }
+}
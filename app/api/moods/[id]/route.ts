@@ -0,0 +1,193 @@
+// File: app/api/moods/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { collectionsFor, getDb } from '@/lib/mongodb';
+import { MoodEdit, MoodEntry, moodEntrySchema } from '@/lib/mongodb-schemas';
+import { recomputeUserStats } from '@/lib/user-stats';
+import { updateStatsRollups } from '@/lib/stats-rollups';
+import { describeAchievements, evaluateAchievements } from '@/lib/achievements';
+import { NOT_DELETED, restorableUntil } from '@/lib/trash';
+import { validate, validationErrorResponse } from '@/lib/validation';
+import { findMoodDefinition, getMoodDefinitions } from '@/lib/mood-definitions';
+import { requireUser } from '@/lib/auth';
+import { decryptMood, encryptEditPrevious, encryptMood } from '@/lib/encrypted-fields';
+import { checkInSlotFor } from '@/lib/daily-summaries';
+import { getUserTimeZone, hourInZone } from '@/lib/timezone';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const EDITABLE_FIELDS = ['moodText', 'moodState', 'timestamp', 'sentiment', 'intensity', 'emotions', 'tags', 'context', 'checkInSlot'] as const;
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = requireUser(request);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
+
+    if (!ObjectId.isValid(params.id)) {
+      return NextResponse.json({ error: 'Invalid mood id' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const mood = await collectionsFor(db).moods.findOne({ _id: new ObjectId(params.id), userId, ...NOT_DELETED });
+
+    if (!mood) {
+      return NextResponse.json({ error: 'Mood not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(await decryptMood(db, userId, mood), { status: 200 });
+  } catch (error: unknown) {
+  console.error('Get mood error:', error);
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json({ error: 'Failed to fetch mood', details: errorMessage }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const body = await request.json();
+    const auth = requireUser(request, body.userId);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
+
+    if (!ObjectId.isValid(params.id)) {
+      return NextResponse.json({ error: 'Invalid mood id' }, { status: 400 });
+    }
+
+    const editable: Record<string, unknown> = {};
+    for (const field of EDITABLE_FIELDS) {
+      if (body[field] !== undefined) editable[field] = body[field];
+    }
+
+    const { value, errors } = validate<MoodEntry>(moodEntrySchema, editable, { partial: true });
+    if (errors.length > 0) {
+      return validationErrorResponse(errors);
+    }
+    const updates: Record<string, unknown> = value;
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({
+        error: `Nothing to update. Editable fields: ${EDITABLE_FIELDS.join(', ')}`
+      }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const { moods: moodsCollection } = collectionsFor(db);
+    const filter = { _id: new ObjectId(params.id), userId, ...NOT_DELETED };
+
+    let valence: number | undefined;
+    if (updates.moodState !== undefined) {
+      const definition = findMoodDefinition(await getMoodDefinitions(db, userId), updates.moodState);
+      if (!definition) {
+        return validationErrorResponse([{ field: 'moodState', message: 'is not one of your moods' }]);
+      }
+      updates.moodState = definition.label;
+      valence = definition.valence;
+    }
+
+    const stored = await moodsCollection.findOne(filter);
+    if (!stored) {
+      return NextResponse.json({ error: 'Mood not found' }, { status: 404 });
+    }
+    const existing = await decryptMood(db, userId, stored);
+
+    // Only record fields whose value actually changes
+    const changed: Record<string, unknown> = {};
+    const previous: MoodEdit['previous'] = {};
+    for (const [field, value] of Object.entries(updates)) {
+      const oldValue = (existing as Record<string, unknown>)[field];
+      const isSame = value instanceof Date && oldValue
+        ? new Date(oldValue as Date).getTime() === value.getTime()
+        : JSON.stringify(oldValue ?? null) === JSON.stringify(value);
+      if (!isSame) {
+        changed[field] = value;
+        (previous as Record<string, unknown>)[field] = oldValue ?? null;
+      }
+    }
+
+    // A moved entry follows its new time into a slot, unless its slot was picked by hand
+    if (changed.timestamp !== undefined && updates.checkInSlot === undefined) {
+      const timeZone = await getUserTimeZone(db, userId);
+      const slot = checkInSlotFor(hourInZone(changed.timestamp as Date, timeZone));
+      if (existing.checkInSlot === checkInSlotFor(hourInZone(new Date(existing.timestamp), timeZone)) && slot !== existing.checkInSlot) {
+        changed.checkInSlot = slot;
+        previous.checkInSlot = existing.checkInSlot;
+      }
+    }
+
+    if (Object.keys(changed).length === 0) {
+      return NextResponse.json({ ...existing, message: 'No changes detected' }, { status: 200 });
+    }
+
+    const now = new Date();
+    const edit: MoodEdit = { editedAt: now, previous: await encryptEditPrevious(db, userId, previous) };
+
+    const updated = await moodsCollection.findOneAndUpdate(
+      filter,
+      {
+        $set: {
+          ...(await encryptMood(db, userId, changed)),
+          ...(changed.moodState !== undefined ? { valence } : {}),
+          updatedAt: now
+        },
+        $push: { editHistory: edit },
+      } as Record<string, unknown>,
+      { returnDocument: 'after' }
+    );
+
+    // Changing the timestamp can move an entry to another day, so streaks need recomputing
+    await recomputeUserStats(db, userId);
+    await updateStatsRollups(db, userId, [existing.timestamp, ...(updated ? [updated.timestamp] : [])]);
+    const decrypted = updated && await decryptMood(db, userId, updated);
+    const achievements = await evaluateAchievements(db, userId, { type: 'mood', moodText: decrypted?.moodText });
+
+    return NextResponse.json({
+      ...decrypted,
+      achievements: describeAchievements(achievements),
+      message: 'Mood updated successfully'
+    }, { status: 200 });
+  } catch (error: unknown) {
+  console.error('Mood update error:', error);
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json({ error: 'Failed to update mood', details: errorMessage }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = requireUser(request);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
+
+    if (!ObjectId.isValid(params.id)) {
+      return NextResponse.json({ error: 'Invalid mood id' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const deletedAt = new Date();
+    const trashed = await collectionsFor(db).moods.findOneAndUpdate(
+      { _id: new ObjectId(params.id), userId, ...NOT_DELETED },
+      { $set: { deletedAt } },
+      { projection: { timestamp: 1 } }
+    );
+
+    if (!trashed) {
+      return NextResponse.json({ error: 'Mood not found' }, { status: 404 });
+    }
+
+    const stats = await recomputeUserStats(db, userId);
+    await updateStatsRollups(db, userId, [trashed.timestamp]);
+
+    return NextResponse.json({
+      message: 'Mood moved to trash',
+      deletedAt,
+      restorableUntil: restorableUntil(deletedAt),
+      stats
+    }, { status: 200 });
+  } catch (error: unknown) {
+  console.error('Mood delete error:', error);
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json({ error: 'Failed to delete mood', details: errorMessage }, { status: 500 });
+  }
+}
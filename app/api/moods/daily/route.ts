@@ -0,0 +1,40 @@
+// File: app/api/moods/daily/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { requireUser } from '@/lib/auth';
+import { getDailySummaries } from '@/lib/daily-summaries';
+import { addDays, dateKeyInZone, dayRangeInZone, getUserTimeZone, isDateKey } from '@/lib/timezone';
+
+const MAX_RANGE_DAYS = 366;
+
+// One summary per day with check-ins from from to to, both YYYY-MM-DD days in the user's
+// time zone (default: the last 31 days): average valence, its range over the day, the
+// dominant mood and every check-in
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const auth = requireUser(request);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
+
+    const db = await getDb();
+    const timeZone = await getUserTimeZone(db, userId);
+    const to = searchParams.get('to') || dateKeyInZone(new Date(), timeZone);
+    const from = searchParams.get('from') || addDays(to, -30);
+    if (!isDateKey(from) || !isDateKey(to)) {
+      return NextResponse.json({ error: 'from and to must be dates as YYYY-MM-DD' }, { status: 400 });
+    }
+    if (from > to || addDays(from, MAX_RANGE_DAYS) < to) {
+      return NextResponse.json({ error: `from must be before to and at most ${MAX_RANGE_DAYS} days apart` }, { status: 400 });
+    }
+
+    const { start, end } = dayRangeInZone(from, to, timeZone);
+    const summaries = await getDailySummaries(db, userId, start, end);
+
+    return NextResponse.json({ from, to, timeZone, days: summaries }, { status: 200 });
+  } catch (error: unknown) {
+  console.error('Daily summaries error:', error);
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json({ error: 'Failed to fetch daily summaries', details: errorMessage }, { status: 500 });
+  }
+}
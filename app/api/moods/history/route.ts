@@ -0,0 +1,92 @@
+// File: app/api/moods/history/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId, Filter } from 'mongodb';
+import { collectionsFor, getDb } from '@/lib/mongodb';
+import { MoodEntry } from '@/lib/mongodb-schemas';
+import { requireUser } from '@/lib/auth';
+import { decryptMoods, searchTokens } from '@/lib/encrypted-fields';
+import { parseMoodFilters } from '@/lib/mood-search';
+import { NOT_DELETED } from '@/lib/trash';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+// Cursor = base64url("<ISO timestamp>|<ObjectId>") of the last entry on the previous page.
+// Sorting on (timestamp, _id) keeps pages stable when several entries share a timestamp.
+function encodeCursor(timestamp: Date, id: ObjectId): string {
+  return Buffer.from(`${new Date(timestamp).toISOString()}|${id.toHexString()}`).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { timestamp: Date; id: ObjectId } | null {
+  const [iso, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+  const timestamp = new Date(iso);
+  if (!id || !ObjectId.isValid(id) || isNaN(timestamp.getTime())) return null;
+  return { timestamp, id: new ObjectId(id) };
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const auth = requireUser(request);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
+
+    const requestedLimit = parseInt(searchParams.get('limit') || `${DEFAULT_PAGE_SIZE}`);
+    const limit = Math.min(Math.max(isNaN(requestedLimit) ? DEFAULT_PAGE_SIZE : requestedLimit, 1), MAX_PAGE_SIZE);
+
+    const filters = parseMoodFilters(searchParams);
+    if (filters.error !== undefined) {
+      return NextResponse.json({ error: filters.error }, { status: 400 });
+    }
+    const searchText = searchParams.get('q')?.trim();
+
+    const db = await getDb();
+    const conditions: Filter<MoodEntry>[] = [{ userId, ...NOT_DELETED }, ...filters.conditions];
+
+    // moodText is encrypted, so q matches whole words through the blind index
+    if (searchText) {
+      const tokens = await searchTokens(db, userId, searchText);
+      if (tokens.length === 0) {
+        return NextResponse.json({ error: 'q must contain a word of at least 2 letters or digits' }, { status: 400 });
+      }
+      conditions.push({ textIndex: { $all: tokens } });
+    }
+
+    const cursorParam = searchParams.get('cursor');
+    if (cursorParam) {
+      const cursor = decodeCursor(cursorParam);
+      if (!cursor) {
+        return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+      }
+      conditions.push({
+        $or: [
+          { timestamp: { $lt: cursor.timestamp } },
+          { timestamp: cursor.timestamp, _id: { $lt: cursor.id } },
+        ],
+      });
+    }
+
+    const { moods: moodsCollection } = collectionsFor(db);
+
+    // Fetch one extra row to know whether another page exists
+    const moods = await moodsCollection
+      .find({ $and: conditions })
+      .sort({ timestamp: -1, _id: -1 })
+      .limit(limit + 1)
+      .toArray();
+
+    const hasMore = moods.length > limit;
+    const entries = hasMore ? moods.slice(0, limit) : moods;
+    const last = entries[entries.length - 1];
+
+    return NextResponse.json({
+      entries: await decryptMoods(db, userId, entries),
+      nextCursor: hasMore && last ? encodeCursor(last.timestamp, last._id) : null,
+      hasMore,
+    }, { status: 200 });
+  } catch (error: unknown) {
+  console.error('Mood history error:', error);
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json({ error: 'Failed to fetch mood history', details: errorMessage }, { status: 500 });
+  }
+}
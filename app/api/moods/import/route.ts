@@ -0,0 +1,117 @@
+// File: app/api/moods/import/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { getMoodDefinitions } from '@/lib/mood-definitions';
+import { recomputeUserStats } from '@/lib/user-stats';
+import { rebuildStatsRollups } from '@/lib/stats-rollups';
+import { AchievementDefinition, describeAchievements, evaluateAchievements } from '@/lib/achievements';
+import { FieldError, validationErrorResponse } from '@/lib/validation';
+import { requireUser } from '@/lib/auth';
+import {
+  IMPORT_FORMATS,
+  ImportFormat,
+  ImportMapping,
+  MAX_IMPORT_ROWS,
+  commitImport,
+  guessColumnMapping,
+  parseImportFile,
+  planImport
+} from '@/lib/mood-import';
+
+const PREVIEW_ROWS = 20;
+const MAX_REPORTED_ERRORS = 100;
+
+// POST { format: 'csv' | 'json', content, mapping?, dryRun? }
+// Dry runs (the default) store nothing and return the detected columns, the
+// mapping in effect (guessed where not given), foreign labels and a preview.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const auth = requireUser(request, body.userId);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
+
+    const format = body.format as ImportFormat;
+    const fieldErrors: FieldError[] = [];
+    if (!IMPORT_FORMATS.includes(format)) {
+      fieldErrors.push({ field: 'format', message: `must be one of: ${IMPORT_FORMATS.join(', ')}` });
+    }
+    if (typeof body.content !== 'string' || body.content.trim() === '') {
+      fieldErrors.push({ field: 'content', message: 'must not be empty' });
+    }
+    if (fieldErrors.length > 0) {
+      return validationErrorResponse(fieldErrors);
+    }
+
+    let parsed;
+    try {
+      parsed = parseImportFile(format, body.content);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'could not be parsed';
+      return validationErrorResponse([{ field: 'content', message }]);
+    }
+    const { columns, rows } = parsed;
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return validationErrorResponse([{ field: 'content', message: `must have at most ${MAX_IMPORT_ROWS} rows` }]);
+    }
+
+    const guessed = guessColumnMapping(columns);
+    const mapping: ImportMapping = {
+      columns: { ...guessed, ...(body.mapping?.columns || {}) },
+      moodLabels: Object.fromEntries(
+        Object.entries(body.mapping?.moodLabels || {}).map(([label, target]) => [label.toLowerCase(), String(target)])
+      ),
+    };
+
+    for (const [field, column] of Object.entries(mapping.columns)) {
+      const required = field === 'moodState' || field === 'timestamp';
+      if ((column || required) && !columns.includes(column as string)) {
+        fieldErrors.push({ field: `mapping.columns.${field}`, message: column ? `"${column}" is not a column of the file` : 'is required' });
+      }
+    }
+    if (fieldErrors.length > 0) {
+      return NextResponse.json({ error: 'Validation failed', fields: fieldErrors, columns, mapping }, { status: 422 });
+    }
+
+    const db = await getDb();
+    const definitions = await getMoodDefinitions(db, userId);
+    const plan = await planImport(db, userId, columns, rows, mapping, definitions);
+
+    const dryRun = body.dryRun !== false;
+    let imported = 0;
+    let achievements: AchievementDefinition[] = [];
+    if (!dryRun) {
+      imported = await commitImport(db, userId, plan);
+      if (imported > 0) {
+        await recomputeUserStats(db, userId);
+        // An import can reach years back, so one pass over everything beats one per period
+        await rebuildStatsRollups(db, userId);
+        achievements = await evaluateAchievements(db, userId, { type: 'mood' });
+      }
+    }
+
+    return NextResponse.json({
+      dryRun,
+      columns,
+      mapping,
+      labels: plan.labels,
+      moods: definitions.map(def => def.label),
+      summary: {
+        total: plan.total,
+        valid: plan.entries.length + plan.duplicates,
+        invalid: plan.total - plan.entries.length - plan.duplicates,
+        duplicates: plan.duplicates,
+        toImport: plan.entries.length,
+        imported,
+      },
+      errors: plan.errors.slice(0, MAX_REPORTED_ERRORS),
+      preview: plan.entries.slice(0, PREVIEW_ROWS),
+      achievements: describeAchievements(achievements),
+    }, { status: dryRun ? 200 : 201 });
+
+  } catch (error: unknown) {
+  console.error('Mood import error:', error);
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json({ error: 'Failed to import moods', details: errorMessage }, { status: 500 });
+  }
+}
@@ -1,65 +1,93 @@
 // File: app/api/moods/route.ts
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { MongoClient } from 'mongodb';
-
-const uri = process.env.MONGODB_URI || 'mongodb://localhost:27017';
-const client = new MongoClient(uri);
-const db = client.db('mental_health_tracker');
-const moodsCollection = db.collection('moods');
-
- 
+import { collectionsFor, getDb } from '@/lib/mongodb';
+import { MoodEntry, moodEntrySchema } from '@/lib/mongodb-schemas';
+import { validate, validationErrorResponse } from '@/lib/validation';
+import { findMoodDefinition, getMoodDefinitions } from '@/lib/mood-definitions';
+import { requireUser } from '@/lib/auth';
+import { encryptMood } from '@/lib/encrypted-fields';
+import { NOT_DELETED } from '@/lib/trash';
+import { checkInSlotFor } from '@/lib/daily-summaries';
+import { getUserTimeZone, hourInZone } from '@/lib/timezone';
+import { updateStatsRollups } from '@/lib/stats-rollups';
+import { describeAchievements, evaluateAchievements } from '@/lib/achievements';
 
 export async function POST(request: NextRequest) {
   console.log('=== POST /api/moods called ===');
   
   try {
     const body = await request.json();
-    console.log('Request body received:', body);
-    
-    const { moodText, moodState, userId, timestamp, sentiment } = body;
     
-    // Check if all required fields are present
-    if (!moodText || !moodState || !userId) {
-      console.log('Missing required fields:', { moodText: !!moodText, moodState: !!moodState, userId: !!userId });
-      return NextResponse.json({ 
-        error: 'Missing required fields',
-        received: { moodText: !!moodText, moodState: !!moodState, userId: !!userId }
-      }, { status: 400 });
+    const auth = requireUser(request, body.userId);
+    if (auth.response) return auth.response;
+
+    // Entries without a timestamp are logged as of now
+    const { value, errors } = validate<MoodEntry>(moodEntrySchema, {
+      ...body,
+      userId: auth.userId,
+      timestamp: body.timestamp ?? new Date()
+    });
+    if (errors.length > 0) {
+      console.log('Invalid mood entry:', errors);
+      return validationErrorResponse(errors);
     }
+    const { moodText, moodState, userId, timestamp, sentiment = null } = value as MoodEntry;
+    const { intensity = null, emotions = [], tags = [], context = {} } = value;
 
-    const moodData = { 
+    const db = await getDb();
+    const { moods: moodsCollection } = collectionsFor(db);
+    // The client sends the slot it showed; otherwise it follows from the local time of day
+    const checkInSlot = value.checkInSlot ?? checkInSlotFor(hourInZone(timestamp, await getUserTimeZone(db, userId)));
+
+    // Check the mood against the user's vocabulary
+    const definitions = await getMoodDefinitions(db, userId);
+    const definition = findMoodDefinition(definitions, moodState);
+    if (!definition) {
+      return validationErrorResponse([{
+        field: 'moodState',
+        message: `must be one of: ${definitions.map(def => def.label).join(', ')}`
+      }]);
+    }
+
+    const moodData: MoodEntry = { 
       moodText, 
-      moodState, 
+      moodState: definition.label, 
       userId: userId,
-      timestamp: new Date(timestamp),
-      sentiment: sentiment || null,
+      timestamp,
+      sentiment,
+      intensity,
+      emotions,
+      tags,
+      context,
+      checkInSlot,
+      valence: definition.valence,
       createdAt: new Date()
     };
     
-    console.log('Prepared mood data for MongoDB:', moodData);
-    
-    // Connect to MongoDB and save
-    await client.connect();
-    console.log('Connected to MongoDB');
-    
-    const result = await moodsCollection.insertOne(moodData);
+    const result = await moodsCollection.insertOne(await encryptMood(db, userId, moodData));
     console.log('MongoDB insert result:', result);
+    await updateStatsRollups(db, userId, [timestamp]);
+    const achievements = await evaluateAchievements(db, userId, { type: 'mood', moodText });
     
     const savedData = {
       ...moodData, 
       _id: result.insertedId,
+      achievements: describeAchievements(achievements),
       message: 'Mood saved successfully'
     };
     
     // ** IMPORTANT: Trigger n8n workflow after successful mood save **
     console.log('🚀 Triggering n8n workflow...');
-    await triggerN8nWorkflow({
+    await triggerN8nWorkflow(request.headers.get('authorization'), {
       userId,
       moodText,
-      moodState,
+      moodState: definition.label,
       sentiment: sentiment || 'neutral',
-      timestamp: timestamp || new Date().toISOString()
+      timestamp: timestamp.toISOString(),
+      intensity,
+      emotions,
+      tags
     });
     
     console.log('=== Success: Mood saved and n8n triggered ===');
@@ -74,24 +102,19 @@ export async function POST(request: NextRequest) {
     details: errorMessage,
     stack: errorStack
   }, { status: 500 });
-  } finally {
-    // Close MongoDB connection
-    try {
-      await client.close();
-      console.log('MongoDB connection closed');
-    } catch (e) {
-      console.warn('Failed to close MongoDB connection:', e);
-    }
   }
 }
 
-// Function to trigger n8n workflow
-async function triggerN8nWorkflow(moodData: {
+// Function to trigger n8n workflow, passing on the caller's session
+async function triggerN8nWorkflow(authorization: string | null, moodData: {
   userId: string;
   moodText: string;
   moodState: string;
   sentiment: string;
   timestamp: string;
+  intensity: number | null;
+  emotions: string[];
+  tags: string[];
 }) {
   try {
     console.log('Calling n8n trigger API...');
@@ -100,6 +123,7 @@ async function triggerN8nWorkflow(moodData: {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...(authorization ? { Authorization: authorization } : {}),
       },
       body: JSON.stringify(moodData),
     });
@@ -121,33 +145,53 @@ export async function GET(request: NextRequest) {
   console.log('=== GET /api/moods called ===');
   
   try {
-    // Get userId from query params
-    const { searchParams } = new URL(request.url);
-    const userIdParam = searchParams.get('userId');
-    
-    console.log('GET request userId from params:', userIdParam);
-    
-    if (!userIdParam) {
-      console.log('No userId in query params');
-      return NextResponse.json({ error: 'User ID required in query params' }, { status: 400 });
-    }
+    const auth = requireUser(request);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
 
-    console.log('Fetching moods for user:', userIdParam);
-    
-    // Connect to MongoDB and fetch
-    await client.connect();
-    console.log('Connected to MongoDB for GET request');
+    console.log('Fetching moods for user:', userId);
     
-    const moods = await moodsCollection.find({ userId: userIdParam }).toArray();
+    const { moods: moodsCollection } = collectionsFor(await getDb());
+    const moods = await moodsCollection.find({ userId: userId, ...NOT_DELETED }).toArray();
     console.log('Raw moods found:', moods.length);
     
-    // Aggregate mood data by state
-    const aggregated = Object.entries(
-     moods.reduce((acc: { [key: string]: number }, curr: any) => {
-        acc[curr.moodState] = (acc[curr.moodState] || 0) + 1;
-        return acc;
-      }, {})
-    ).map(([state, count]) => ({ state, count }));
+    // Aggregate mood data by state, including intensity, emotions and tags
+    const groups = moods.reduce((acc, curr) => {
+      const group = acc[curr.moodState] || (acc[curr.moodState] = {
+        count: 0, intensitySum: 0, intensityCount: 0, emotions: {}, tags: {}
+      });
+      group.count++;
+      if (typeof curr.intensity === 'number') {
+        group.intensitySum += curr.intensity;
+        group.intensityCount++;
+      }
+      (curr.emotions || []).forEach(emotion => {
+        group.emotions[emotion] = (group.emotions[emotion] || 0) + 1;
+      });
+      (curr.tags || []).forEach(tag => {
+        group.tags[tag] = (group.tags[tag] || 0) + 1;
+      });
+      return acc;
+    }, {} as Record<string, {
+      count: number;
+      intensitySum: number;
+      intensityCount: number;
+      emotions: Record<string, number>;
+      tags: Record<string, number>;
+    }>);
+
+    const aggregated = Object.entries(groups).map(([state, group]) => ({
+      state,
+      count: group.count,
+      averageIntensity: group.intensityCount > 0
+        ? Math.round((group.intensitySum / group.intensityCount) * 10) / 10
+        : null,
+      emotions: group.emotions,
+      topTags: Object.entries(group.tags)
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, 5)
+        .map(([tag, count]) => ({ tag, count }))
+    }));
     
     console.log('Aggregated data to return:', aggregated);
     console.log('=== GET Success ===');
@@ -161,12 +205,5 @@ export async function GET(request: NextRequest) {
     error: 'Failed to fetch moods', 
     details: errorMessage 
   }, { status: 500 });
-  } finally {
-    try {
-      await client.close();
-      console.log('MongoDB connection closed for GET');
-    } catch (e) {
-      console.warn('Failed to close MongoDB connection:', e);
-    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,60 @@
+// File: app/api/moods/search/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { collectionsFor, getDb } from '@/lib/mongodb';
+import { requireUser } from '@/lib/auth';
+import { decryptMoods, searchTokens } from '@/lib/encrypted-fields';
+import { highlightSnippet, parseMoodFilters } from '@/lib/mood-search';
+import { NOT_DELETED } from '@/lib/trash';
+
+const DEFAULT_RESULTS = 20;
+const MAX_RESULTS = 100;
+
+// Journal search: entries whose text contains every word of q (newest first),
+// optionally narrowed by moodState, from and to, with a highlighted snippet each.
+// moodText is encrypted, so matching runs on the blind index in textIndex.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const auth = requireUser(request);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
+
+    const query = searchParams.get('q')?.trim() || '';
+    const requestedLimit = parseInt(searchParams.get('limit') || `${DEFAULT_RESULTS}`);
+    const limit = Math.min(Math.max(isNaN(requestedLimit) ? DEFAULT_RESULTS : requestedLimit, 1), MAX_RESULTS);
+
+    const filters = parseMoodFilters(searchParams);
+    if (filters.error !== undefined) {
+      return NextResponse.json({ error: filters.error }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const tokens = await searchTokens(db, userId, query);
+    if (tokens.length === 0) {
+      return NextResponse.json({ error: 'q must contain a word of at least 2 letters or digits' }, { status: 400 });
+    }
+
+    const { moods: moodsCollection } = collectionsFor(db);
+    const filter = { $and: [{ userId, ...NOT_DELETED }, { textIndex: { $all: tokens } }, ...filters.conditions] };
+
+    const [total, moods] = await Promise.all([
+      moodsCollection.countDocuments(filter),
+      moodsCollection
+        .find(filter, { projection: { moodText: 1, moodState: 1, timestamp: 1, intensity: 1, tags: 1 } })
+        .sort({ timestamp: -1, _id: -1 })
+        .limit(limit)
+        .toArray(),
+    ]);
+
+    const results = (await decryptMoods(db, userId, moods)).map(({ moodText, ...mood }) => ({
+      ...mood,
+      ...highlightSnippet(moodText, query),
+    }));
+
+    return NextResponse.json({ query, total, results }, { status: 200 });
+  } catch (error: unknown) {
+  console.error('Mood search error:', error);
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json({ error: 'Failed to search moods', details: errorMessage }, { status: 500 });
+  }
+}
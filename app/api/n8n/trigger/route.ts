@@ -1,13 +1,30 @@
 // app/api/n8n/trigger/route.ts
 import { NextRequest, NextResponse } from 'next/server';
-import { MongoClient } from 'mongodb';
+import { collectionsFor, getDb } from '@/lib/mongodb';
+import { MoodEmotion, moodEntrySchema, MoodEntry as StoredMoodEntry } from '@/lib/mongodb-schemas';
+import { validate, validationErrorResponse } from '@/lib/validation';
+import {
+  ResolvedMoodDefinition,
+  findMoodDefinition,
+  getMoodDefinitions,
+  getValence,
+  getValenceBand,
+} from '@/lib/mood-definitions';
+import { USER_EMAIL_HEADER, requireUser } from '@/lib/auth';
+import { getConsent, outgoingText } from '@/lib/privacy';
+import { decryptMoods } from '@/lib/encrypted-fields';
+import { NOT_DELETED } from '@/lib/trash';
+import { addDays, dateKeyInZone, getUserTimeZone } from '@/lib/timezone';
 
 interface N8nTriggerRequest {
-  userId: string;
+  userId?: string; // optional; must match the session
   moodText: string;
-  moodState: 'Happy' | 'Sad' | 'Stressed';
+  moodState: string;
   sentiment?: string;
   timestamp: string;
+  intensity?: number | null;
+  emotions?: MoodEmotion[];
+  tags?: string[];
   userEmail?: string;
   userName?: string;
 }
@@ -41,22 +58,38 @@ export async function POST(request: NextRequest) {
   
   try {
     const body: N8nTriggerRequest = await request.json();
-    const { userId, moodText, moodState, sentiment, timestamp, userEmail, userName } = body;
+    const { moodText, moodState, sentiment, timestamp, userEmail, userName } = body;
+
+    const auth = requireUser(request, body.userId);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
     
-    // Enhanced validation
-    if (!userId || !moodText || !moodState) {
-      return NextResponse.json({ 
-        error: 'Missing required fields: userId, moodText, moodState',
-        received: { userId: !!userId, moodText: !!moodText, moodState: !!moodState }
-      }, { status: 400 });
+    // Same rules as the stored entry
+    const { value, errors } = validate<StoredMoodEntry>(moodEntrySchema, { ...body, userId });
+    if (errors.length > 0) {
+      return validationErrorResponse(errors);
     }
+    const { intensity = null, emotions = [], tags = [] } = value;
 
-    // Validate moodState enum
-    if (!['Happy', 'Sad', 'Stressed'].includes(moodState)) {
-      return NextResponse.json({ 
-        error: 'Invalid moodState. Must be: Happy, Sad, or Stressed',
-        received: moodState
-      }, { status: 400 });
+    // Validate moodState against the user's mood vocabulary
+    const definitions = await loadMoodDefinitions(userId);
+    const definition = findMoodDefinition(definitions, moodState);
+    if (!definition) {
+      return validationErrorResponse([{
+        field: 'moodState',
+        message: `must be one of: ${definitions.map(def => def.label).join(', ')}`
+      }]);
+    }
+
+    // Nothing goes to n8n without the user's consent
+    const consent = await getConsent(await getDb(), userId, 'n8n');
+    if (!consent.enabled) {
+      return NextResponse.json({
+        success: true,
+        message: 'Mood logged (automations are off in your privacy settings)',
+        n8nStatus: 'skipped',
+        consentRequired: 'n8n'
+      }, { status: 200 });
     }
 
     const n8nWebhookUrl = process.env.N8N_WEBHOOK_URL || 'http://localhost:5678/webhook/mood-webhook';
@@ -64,33 +97,42 @@ export async function POST(request: NextRequest) {
     console.log(`Triggering n8n workflow at: ${n8nWebhookUrl}`);
     
     // Calculate consecutive sad days with better error handling
-    const consecutiveSadDays = await calculateConsecutiveSadDays(userId);
+    const consecutiveSadDays = await calculateConsecutiveSadDays(userId, definitions);
     const moodHistory = await getMoodHistory(userId, 7); // Last 7 days
     
     // Enhanced payload with more context for n8n
+    // Notes (this one and the history's) are redacted or left out per the user's settings
     const n8nPayload = {
       userId,
-      moodText,
-      moodState,
+      moodText: outgoingText(consent, moodText),
+      moodState: definition.label,
+      valence: definition.valence,
       sentiment: sentiment || detectSentiment(moodText),
       timestamp,
-      userEmail: userEmail || `user-${userId}@example.com`,
+      intensity,
+      emotions,
+      tags,
+      userEmail: request.headers.get(USER_EMAIL_HEADER) || userEmail || `user-${userId}@example.com`,
       userName: userName || `User ${userId.substring(0, 8)}`,
       consecutiveSadDays,
-      moodHistory,
+      moodHistory: moodHistory.map(entry => ({
+        moodState: entry.moodState,
+        timestamp: entry.timestamp,
+        intensity: entry.intensity ?? null,
+        moodText: outgoingText(consent, entry.moodText as string | undefined)
+      })),
       riskFactors: {
         consecutiveSadDays,
-        hasStressPattern: moodHistory.filter(m => m.moodState === 'Stressed').length >= 3,
-        moodVariability: calculateMoodVariability(moodHistory),
-        lastHappyMood: moodHistory.find(m => m.moodState === 'Happy')?.timestamp || null
+        hasStressPattern: moodHistory.filter(m => bandOf(definitions, m.moodState) === 'mixed').length >= 3,
+        moodVariability: calculateMoodVariability(moodHistory, definitions),
+        highIntensityNegative: getValenceBand(definition.valence) !== 'positive' && (intensity ?? 0) >= 8,
+        lastHappyMood: moodHistory.find(m => bandOf(definitions, m.moodState) === 'positive')?.timestamp || null
       },
       triggerSource: 'mental-health-tracker',
       workflowVersion: 'v1.2',
       serverTimestamp: new Date().toISOString()
     };
 
-    console.log('Sending payload to n8n:', JSON.stringify(n8nPayload, null, 2));
-
     // Enhanced n8n request with timeout and retries
     const n8nResponse = await fetchWithRetry(n8nWebhookUrl, {
       method: 'POST',
@@ -155,7 +197,7 @@ export async function POST(request: NextRequest) {
       },
       analytics: {
         consecutiveSadDays,
-        moodTrend: analyzeMoodTrend(moodHistory),
+        moodTrend: analyzeMoodTrend(moodHistory, definitions),
         riskFactors: n8nPayload.riskFactors
       },
       n8nResponse: n8nResult
@@ -182,20 +224,22 @@ export async function POST(request: NextRequest) {
   }
 }
 
+function bandOf(definitions: ResolvedMoodDefinition[], moodState: string) {
+  return getValenceBand(getValence(definitions, moodState));
+}
+
+async function loadMoodDefinitions(userId: string): Promise<ResolvedMoodDefinition[]> {
+  return getMoodDefinitions(await getDb(), userId);
+}
+
 // Enhanced consecutive sad days calculation
-async function calculateConsecutiveSadDays(userId: string): Promise<number> {
-  let client: MongoClient | null = null;
-  
+async function calculateConsecutiveSadDays(userId: string, definitions: ResolvedMoodDefinition[]): Promise<number> {
   try {
-    const uri = process.env.MONGODB_URI || 'mongodb://localhost:27017';
-    client = new MongoClient(uri);
-    
-    await client.connect();
-    const db = client.db('mental_health_tracker');
-    const moodsCollection = db.collection('moods');
+    const db = await getDb();
+    const { moods: moodsCollection } = collectionsFor(db);
     
     const recentMoods = await moodsCollection
-      .find({ userId: userId })
+      .find({ userId: userId, ...NOT_DELETED })
       .sort({ timestamp: -1 })
       .limit(30) // Increased limit for better analysis
       .toArray();
@@ -203,8 +247,8 @@ async function calculateConsecutiveSadDays(userId: string): Promise<number> {
     if (recentMoods.length === 0) return 0;
     
     let consecutiveDays = 0;
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const timeZone = await getUserTimeZone(db, userId);
+    const today = dateKeyInZone(new Date(), timeZone);
 
  interface MoodEntry {
   timestamp?: string | Date;
@@ -214,7 +258,7 @@ async function calculateConsecutiveSadDays(userId: string): Promise<number> {
 
 const moodsByDate = new Map<string, MoodEntry[]>();
     recentMoods.forEach(mood => {
-      const dateKey = new Date(mood.timestamp).toISOString().split('T')[0];
+      const dateKey = dateKeyInZone(new Date(mood.timestamp), timeZone);
       if (!moodsByDate.has(dateKey)) {
         moodsByDate.set(dateKey, []);
       }
@@ -223,9 +267,7 @@ const moodsByDate = new Map<string, MoodEntry[]>();
     
     // Check consecutive sad days from today backwards
     for (let i = 0; i < 30; i++) {
-      const checkDate = new Date(today);
-      checkDate.setDate(today.getDate() - i);
-      const dateKey = checkDate.toISOString().split('T')[0];
+      const dateKey = addDays(today, -i);
       
       const dayMoods = moodsByDate.get(dateKey) || [];
       
@@ -234,8 +276,8 @@ const moodsByDate = new Map<string, MoodEntry[]>();
         continue;
       }
       
-      // Check if the predominant mood for the day was sad
-      const sadMoods = dayMoods.filter(m => m.moodState === 'Sad');
+      // Check if the predominant mood for the day was negative
+      const sadMoods = dayMoods.filter(m => bandOf(definitions, m.moodState || '') === 'negative');
       const isDaySad = sadMoods.length > dayMoods.length / 2;
       
       if (isDaySad) {
@@ -250,24 +292,14 @@ const moodsByDate = new Map<string, MoodEntry[]>();
   } catch (error) {
     console.error('Error calculating consecutive sad days:', error);
     return 0;
-  } finally {
-    if (client) {
-      await client.close();
-    }
   }
 }
 
 // New function to get mood history
 async function getMoodHistory(userId: string, days: number): Promise<MoodEntry[]> {
-  let client: MongoClient | null = null;
-  
   try {
-    const uri = process.env.MONGODB_URI || 'mongodb://localhost:27017';
-    client = new MongoClient(uri);
-    
-    await client.connect();
-    const db = client.db('mental_health_tracker');
-    const moodsCollection = db.collection('moods');
+    const db = await getDb();
+    const { moods: moodsCollection } = collectionsFor(db);
     
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - days);
@@ -275,20 +307,17 @@ async function getMoodHistory(userId: string, days: number): Promise<MoodEntry[]
     const moodHistory = await moodsCollection
       .find({ 
         userId: userId,
-        timestamp: { $gte: startDate.toISOString() }
+        timestamp: { $gte: startDate },
+        ...NOT_DELETED
       })
       .sort({ timestamp: -1 })
       .toArray();
     
-    return moodHistory as unknown as MoodEntry[];
+    return await decryptMoods(db, userId, moodHistory) as unknown as MoodEntry[];
     
   } catch (error) {
     console.error('Error fetching mood history:', error);
     return [];
-  } finally {
-    if (client) {
-      await client.close();
-    }
   }
 }
 
@@ -307,11 +336,10 @@ function detectSentiment(text: string): string {
 }
 
 // Calculate mood variability
-function calculateMoodVariability(moodHistory: MoodEntry[]): number {
+function calculateMoodVariability(moodHistory: MoodEntry[], definitions: ResolvedMoodDefinition[]): number {
   if (moodHistory.length < 2) return 0;
   
-  const moodValues = { 'Happy': 3, 'Stressed': 2, 'Sad': 1 };
-  const values = moodHistory.map(m => moodValues[m.moodState as keyof typeof moodValues] || 2);
+  const values = moodHistory.map(m => getValence(definitions, m.moodState));
   
   const mean = values.reduce((a, b) => a + b, 0) / values.length;
   const variance = values.reduce((acc, val) => acc + Math.pow(val - mean, 2), 0) / values.length;
@@ -320,14 +348,13 @@ function calculateMoodVariability(moodHistory: MoodEntry[]): number {
 }
 
 // Analyze mood trend
-function analyzeMoodTrend(moodHistory: MoodEntry[]): string {
+function analyzeMoodTrend(moodHistory: MoodEntry[], definitions: ResolvedMoodDefinition[]): string {
   if (moodHistory.length < 3) return 'insufficient_data';
   
-  const moodValues = { 'Happy': 3, 'Stressed': 2, 'Sad': 1 };
   const recentAvg = moodHistory.slice(0, 3).reduce((acc, m) => 
-    acc + (moodValues[m.moodState as keyof typeof moodValues] || 2), 0) / 3;
+    acc + getValence(definitions, m.moodState), 0) / 3;
   const olderAvg = moodHistory.slice(-3).reduce((acc, m) => 
-    acc + (moodValues[m.moodState as keyof typeof moodValues] || 2), 0) / 3;
+    acc + getValence(definitions, m.moodState), 0) / 3;
   
   if (recentAvg > olderAvg + 0.3) return 'improving';
   if (recentAvg < olderAvg - 0.3) return 'declining';
@@ -1,13 +1,36 @@
 // app/api/ollama/recommendations/route.ts
 import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import {
+  getMoodDefinitions,
+  getValence,
+  getValenceBand,
+  valenceForEmotion,
+  ValenceBand,
+} from '@/lib/mood-definitions';
+import { USER_ID_HEADER, requireUser } from '@/lib/auth';
+import { getConsent, outgoingText } from '@/lib/privacy';
 
 interface RecommendationRequest {
   moodText: string;
-  moodState: 'Happy' | 'Sad' | 'Stressed';
+  moodState: string;
+  userId?: string;
   sentiment?: string; // Kept as part of the interface
   recentMoods?: string[];
 }
 
+// Fallbacks are grouped by how positive the mood is, so custom moods get them too
+async function getMoodBand(moodState: string, userId?: string): Promise<ValenceBand> {
+  try {
+    const db = await getDb();
+    const definitions = await getMoodDefinitions(db, userId);
+    return getValenceBand(getValence(definitions, moodState));
+  } catch (error) {
+    console.warn('Could not load mood definitions, using mixed fallback:', error);
+    return 'mixed';
+  }
+}
+
 interface HuggingFaceResponse {
   [0]: Array<{
     label: string;
@@ -23,6 +46,9 @@ export async function POST(request: NextRequest) {
   try {
     body = await request.json();
     const { moodText, moodState, sentiment: detectedSentiment, recentMoods = [] } = body!; // Renamed sentiment to detectedSentiment
+
+    const auth = requireUser(request, body!.userId);
+    if (auth.response) return auth.response;
     
     if (!moodText || !moodState) {
       return NextResponse.json({ 
@@ -30,8 +56,18 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    // Create a comprehensive prompt for Hugging Face
-    const contextualPrompt = createRecommendationPrompt(moodText, moodState, detectedSentiment, recentMoods);
+    const consent = await getConsent(await getDb(), auth.userId, 'huggingface');
+    if (!consent.enabled) {
+      return NextResponse.json({
+        success: true,
+        recommendation: getFallbackRecommendation(moodState, await getMoodBand(moodState, auth.userId)),
+        fallback: true,
+        consentRequired: 'huggingface'
+      }, { status: 200 });
+    }
+
+    // Create a comprehensive prompt for Hugging Face; the note is redacted or left out per the user's settings
+    const contextualPrompt = createRecommendationPrompt(outgoingText(consent, moodText), moodState, detectedSentiment, recentMoods);
 
     // Call Hugging Face API
     const hfApiKey = process.env.HUGGINGFACE_API_KEY;
@@ -66,7 +102,7 @@ export async function POST(request: NextRequest) {
 
     const hfData: HuggingFaceResponse = await hfResponse.json();
     const dominantEmotion = hfData[0][0]?.label || 'neutral'; // Get top emotion
-    const sentiment = dominantEmotion === 'joy' ? 'Happy' : dominantEmotion === 'sadness' ? 'Sad' : 'Stressed';
+    const sentiment = getValenceBand(valenceForEmotion(dominantEmotion));
     console.log('Hugging Face response received:', dominantEmotion);
 
     // Parse and structure the recommendation based on sentiment
@@ -88,7 +124,8 @@ export async function POST(request: NextRequest) {
     
      
     // Fallback recommendations if Hugging Face API is unavailable
-    const fallbackRecommendation = getFallbackRecommendation(body?.moodState || 'Happy');
+    const moodState = body?.moodState || 'Happy';
+    const fallbackRecommendation = getFallbackRecommendation(moodState, await getMoodBand(moodState, request.headers.get(USER_ID_HEADER) || undefined));
     
     return NextResponse.json({
       success: false,
@@ -99,7 +136,7 @@ export async function POST(request: NextRequest) {
 }
 }
 function createRecommendationPrompt(
-  moodText: string, 
+  moodText: string | null, 
   moodState: string, 
   detectedSentiment: string | undefined,
   recentMoods: string[]
@@ -111,7 +148,7 @@ function createRecommendationPrompt(
   return `You are a compassionate AI mental health assistant. A user has shared their current mood and feelings. Please provide personalized, actionable recommendations.
 
 User's Current Mood: ${moodState}
-User's Description: "${moodText}"
+${moodText ? `User's Description: "${moodText}"` : 'User\'s Description: (not shared)'}
 Sentiment Analysis: ${detectedSentiment || 'unknown'}
 ${moodContext}
 
@@ -132,24 +169,24 @@ Keep recommendations:
 Focus on immediate relief and long-term well-being. If the mood indicates distress, emphasize self-care and professional support options.`;
 }
 
-function parseHuggingFaceResponse(prompt: string, sentiment: string, moodState: string) {
+function parseHuggingFaceResponse(prompt: string, sentiment: ValenceBand, moodState: string) {
   // Simulate parsing since Hugging Face provides emotion data, not structured text
   // Use sentiment to determine recommendations (simplified logic)
   const sections = {
-    immediateAction: sentiment === 'Happy' ? 'Share your joy! Call a friend or write down three gratitudes.' :
-                     sentiment === 'Sad' ? 'Take 5 deep breaths and listen to calming music.' :
+    immediateAction: sentiment === 'positive' ? 'Share your joy! Call a friend or write down three gratitudes.' :
+                     sentiment === 'negative' ? 'Take 5 deep breaths and listen to calming music.' :
                      'Pause and do the 5-4-3-2-1 grounding exercise.',
-    dailyPractice: sentiment === 'Happy' ? 'Keep a joy journal and spend time outdoors.' :
-                     sentiment === 'Sad' ? 'Set a gentle routine and connect with a friend.' :
+    dailyPractice: sentiment === 'positive' ? 'Keep a joy journal and spend time outdoors.' :
+                     sentiment === 'negative' ? 'Set a gentle routine and connect with a friend.' :
                      'Break tasks into small steps and exercise daily.',
-    mindfulness: sentiment === 'Happy' ? 'Practice loving-kindness meditation.' :
-                     sentiment === 'Sad' ? 'Try the 4-7-8 breathing technique.' :
+    mindfulness: sentiment === 'positive' ? 'Practice loving-kindness meditation.' :
+                     sentiment === 'negative' ? 'Try the 4-7-8 breathing technique.' :
                      'Use progressive muscle relaxation.',
-    affirmation: sentiment === 'Happy' ? 'I deserve this happiness and embrace it fully.' :
-                     sentiment === 'Sad' ? 'It’s okay to feel this; I will heal with time.' :
+    affirmation: sentiment === 'positive' ? 'I deserve this happiness and embrace it fully.' :
+                     sentiment === 'negative' ? 'It’s okay to feel this; I will heal with time.' :
                      'I am stronger than my stress and can overcome it.',
-    professionalInsight: sentiment === 'Happy' ? 'Maintain this positivity with regular self-care.' :
-                           sentiment === 'Sad' ? 'Seek help if sadness lasts over two weeks.' :
+    professionalInsight: sentiment === 'positive' ? 'Maintain this positivity with regular self-care.' :
+                           sentiment === 'negative' ? 'Seek help if sadness lasts over two weeks.' :
                            'Consider support if stress overwhelms you.'
   };
 
@@ -161,23 +198,23 @@ function parseHuggingFaceResponse(prompt: string, sentiment: string, moodState:
   };
 }
 
-function getFallbackRecommendation(moodState: string) {
-  const fallbacks = {
-    Happy: {
+function getFallbackRecommendation(moodState: string, band: ValenceBand) {
+  const fallbacks: Record<ValenceBand, Record<string, string>> = {
+    positive: {
       immediateAction: 'Share your positive energy! Call a friend or write down three things you\'re grateful for.',
       dailyPractice: 'Continue activities that bring you joy and consider helping others to amplify your positive mood.',
       mindfulness: 'Practice loving-kindness meditation: send good wishes to yourself and others.',
       affirmation: 'I deserve this happiness and I choose to embrace joy in my life.',
       professionalInsight: 'Maintain your positive mental health with regular check-ins and self-care practices.'
     },
-    Sad: {
+    negative: {
       immediateAction: 'Allow yourself to feel this emotion. Listen to calming music or take a gentle walk outside.',
       dailyPractice: 'Establish a comforting routine and reach out to supportive friends or family members.',
       mindfulness: 'Try body scan meditation to connect with your physical sensations and ground yourself.',
       affirmation: 'It\'s okay to feel sad. This feeling is temporary and I will get through this.',
       professionalInsight: 'If sadness persists for more than two weeks, consider speaking with a mental health professional.'
     },
-    Stressed: {
+    mixed: {
       immediateAction: 'Stop what you\'re doing and practice the 5-4-3-2-1 grounding technique using your senses.',
       dailyPractice: 'Break large tasks into smaller steps and prioritize self-care activities like exercise or hobbies.',
       mindfulness: 'Use progressive muscle relaxation: tense and release each muscle group for 5 seconds.',
@@ -188,7 +225,7 @@ function getFallbackRecommendation(moodState: string) {
 
   return {
     mood: moodState,
-    recommendations: fallbacks[moodState as keyof typeof fallbacks] || fallbacks.Happy,
+    recommendations: fallbacks[band],
     fullResponse: `Fallback recommendation for ${moodState} mood state.`,
     timestamp: new Date().toISOString(),
     fallback: true
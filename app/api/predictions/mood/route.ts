@@ -1,11 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { MongoClient } from 'mongodb';
+import { collectionsFor, getDb } from '@/lib/mongodb';
+import {
+  DEFAULT_MOOD_DEFINITIONS,
+  ResolvedMoodDefinition,
+  getMoodDefinitions,
+  getValence,
+  getValenceBand,
+  moodForValence,
+  valenceForEmotion,
+} from '@/lib/mood-definitions';
+import { requireUser } from '@/lib/auth';
+import { decryptMoods } from '@/lib/encrypted-fields';
+import { NOT_DELETED } from '@/lib/trash';
+import { getUserTimeZone, hourInZone } from '@/lib/timezone';
+import { ResolvedConsent, getConsent, outgoingText } from '@/lib/privacy';
+
+type MoodVocabulary = Pick<ResolvedMoodDefinition, 'label' | 'valence'>[];
 
 interface MoodEntry {
-  moodState: 'Happy' | 'Sad' | 'Stressed';
+  moodState: string;
   timestamp: Date;
+  // Hour of the day in the user's time zone
+  hour: number;
   moodText: string;
-  sentiment?: string;
+  sentiment?: string | null;
 }
 
 interface PredictionResult {
@@ -30,24 +48,27 @@ interface PredictionResult {
 export async function POST(request: NextRequest) {
   console.log('=== ML Mood Prediction API called ===');
   try {
-    const { userId } = await request.json();
-
-    if (!userId) {
-      return NextResponse.json({ error: 'Missing userId parameter' }, { status: 400 });
-    }
+    const body = await request.json();
+    const auth = requireUser(request, body.userId);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
 
-    const moodHistory = await fetchMoodHistory(userId);
+    const { moodHistory, definitions } = await fetchMoodHistory(userId);
 
     if (moodHistory.length < 3) {
       return NextResponse.json({
         success: true,
-        prediction: getFallbackPrediction(),
+        prediction: getFallbackPrediction(definitions),
         message: 'Need at least 3 mood entries for accurate predictions'
       }, { status: 200 });
     }
 
-    const statisticalPrediction = calculateStatisticalPrediction(moodHistory);
-    const hfInsights = await analyzeWithHuggingFace(moodHistory);
+    const statisticalPrediction = calculateStatisticalPrediction(moodHistory, definitions);
+    const consent = await getConsent(await getDb(), userId, 'huggingface');
+    // Without consent the prediction is purely statistical
+    const hfInsights: Partial<PredictionResult> = consent.enabled
+      ? await analyzeWithHuggingFace(moodHistory, definitions, consent)
+      : {};
 
     return NextResponse.json({
       success: true,
@@ -65,8 +86,9 @@ export async function POST(request: NextRequest) {
       metadata: {
         analyzed_entries: moodHistory.length,
         prediction_date: new Date().toISOString(),
-        model: 'statistical+huggingface',
-      }
+        model: consent.enabled ? 'statistical+huggingface' : 'statistical',
+      },
+      ...(consent.enabled ? {} : { consentRequired: 'huggingface' })
     }, { status: 200 });
   } catch (error: unknown) {
     console.error('=== Mood Prediction Error ===', error);
@@ -78,69 +100,64 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function fetchMoodHistory(userId: string): Promise<MoodEntry[]> {
-  const uri = process.env.MONGODB_URI || 'mongodb://localhost:27017';
-  const client = new MongoClient(uri);
-  try {
-    await client.connect();
-    const db = client.db('mental_health_tracker');
-    const moodsCollection = db.collection('moods');
-    const sevenDaysAgo = new Date();
-    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-    const moods = await moodsCollection
-      .find({ userId, timestamp: { $gte: sevenDaysAgo } })
-      .sort({ timestamp: -1 })
-      .limit(20)
-      .toArray();
-    return moods.map(mood => ({
-      moodState: mood.moodState,
-      timestamp: new Date(mood.timestamp),
-      moodText: mood.moodText,
-      sentiment: mood.sentiment
-    }));
-  } finally {
-    await client.close(); // Ensure connection closes gracefully
-    console.log('MongoDB connection closed');
-  }
+async function fetchMoodHistory(userId: string): Promise<{ moodHistory: MoodEntry[]; definitions: MoodVocabulary }> {
+  const db = await getDb();
+  const { moods: moodsCollection } = collectionsFor(db);
+  const definitions = await getMoodDefinitions(db, userId);
+  const timeZone = await getUserTimeZone(db, userId);
+  const sevenDaysAgo = new Date();
+  sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
+  const moods = await decryptMoods(db, userId, await moodsCollection
+    .find({ userId, timestamp: { $gte: sevenDaysAgo }, ...NOT_DELETED })
+    .sort({ timestamp: -1 })
+    .limit(20)
+    .toArray());
+  const moodHistory = moods.map(mood => ({
+    moodState: mood.moodState,
+    timestamp: new Date(mood.timestamp),
+    hour: hourInZone(new Date(mood.timestamp), timeZone),
+    moodText: mood.moodText,
+    sentiment: mood.sentiment
+  }));
+  return { moodHistory, definitions };
 }
 
-function calculateStatisticalPrediction(moodHistory: MoodEntry[]): PredictionResult {
+function calculateStatisticalPrediction(moodHistory: MoodEntry[], definitions: MoodVocabulary): PredictionResult {
   if (moodHistory.length < 5) {
-    return getFallbackPrediction();
+    return getFallbackPrediction(definitions);
   }
 
-  const moodToNumber = { Happy: 3, Stressed: 2, Sad: 1 };
   const weights = [0.4, 0.3, 0.2, 0.1];
   let weightedSum = 0;
   let totalWeight = 0;
-  const moodCounts = { Happy: 0, Sad: 0, Stressed: 0 };
+  const moodCounts: { [label: string]: number } = Object.fromEntries(definitions.map(def => [def.label, 0]));
 
   const recentEntries = moodHistory.slice(-7).slice(-4);
   recentEntries.forEach((entry, index) => {
     if (index < weights.length) {
-      weightedSum += moodToNumber[entry.moodState] * weights[index];
+      weightedSum += getValence(definitions, entry.moodState) * weights[index];
       totalWeight += weights[index];
     }
-    moodCounts[entry.moodState]++;
+    moodCounts[entry.moodState] = (moodCounts[entry.moodState] || 0) + 1;
   });
 
-  const avgMood = weightedSum / totalWeight;
-  const predictedMood = avgMood >= 2.5 ? 'Happy' : avgMood >= 1.5 ? 'Stressed' : 'Sad';
-  const confidence = Math.min(0.9, Math.max(0.5, Math.abs(avgMood - Math.round(avgMood)) * 2 + 0.1));
+  // Weighted valence, snapped to the closest mood in the user's vocabulary
+  const avgValence = weightedSum / totalWeight;
+  const predicted = moodForValence(definitions, avgValence);
+  const predictedMood = predicted?.label || 'Unknown';
+  const confidence = Math.min(0.9, Math.max(0.5, 1 - Math.abs(avgValence - (predicted?.valence ?? 0))));
 
   const total = moodHistory.length;
   const stability = calculateStability(moodHistory);
-  const dominantMood = Object.entries(moodCounts).sort(([,a], [,b]) => b - a)[0][0] as string;
+  const dominantMood = Object.entries(moodCounts).sort(([,a], [,b]) => b - a)[0]?.[0] || 'Unknown';
 
   return {
     tomorrowMood: {
       predicted: predictedMood,
       confidence,
-      probability_distribution: {
-        Happy: moodCounts.Happy / total,
-        Sad: moodCounts.Sad / total,
-        Stressed: moodCounts.Stressed / total
-      }
+      probability_distribution: Object.fromEntries(
+        Object.entries(moodCounts).map(([label, count]) => [label, count / total])
+      )
     },
     patterns: {
       weeklyTrend: stability > 0.7 ? 'stable' : stability > 0.4 ? 'variable' : 'volatile',
@@ -159,7 +176,7 @@ function calculateStatisticalPrediction(moodHistory: MoodEntry[]): PredictionRes
 function analyzeTimePattern(moodHistory: MoodEntry[]): string {
   const hourGroups = { morning: 0, afternoon: 0, evening: 0, night: 0 };
   moodHistory.forEach(entry => {
-    const hour = entry.timestamp.getHours();
+    const hour = entry.hour;
     if (hour < 6) hourGroups.night++;
     else if (hour < 12) hourGroups.morning++;
     else if (hour < 18) hourGroups.afternoon++;
@@ -184,7 +201,11 @@ function calculateStability(moodData: MoodEntry[]): number {
   return Math.max(0, 1 - (changes / (moodData.length - 1)));
 }
 
-async function analyzeWithHuggingFace(moodHistory: MoodEntry[]): Promise<Partial<PredictionResult>> {
+async function analyzeWithHuggingFace(
+  moodHistory: MoodEntry[],
+  definitions: MoodVocabulary,
+  consent: ResolvedConsent
+): Promise<Partial<PredictionResult>> {
   const hfApiKey = process.env.HUGGINGFACE_API_KEY;
   if (!hfApiKey) {
     console.warn('Hugging Face API key not found');
@@ -198,12 +219,13 @@ async function analyzeWithHuggingFace(moodHistory: MoodEntry[]): Promise<Partial
     };
   }
 
+  // Notes are left out or redacted according to the user's privacy settings
   const recentMoods = moodHistory.slice(0, 7).map(entry => ({
     mood: entry.moodState,
-    text: entry.moodText.substring(0, 20),
+    text: outgoingText(consent, entry.moodText)?.substring(0, 20),
   }));
 
-  const prompt = recentMoods.map(entry => `${entry.mood}: "${entry.text}"`).join('\n');
+  const prompt = recentMoods.map(entry => entry.text ? `${entry.mood}: "${entry.text}"` : entry.mood).join('\n');
   try {
     const response = await fetch(
       'https://api-inference.huggingface.co/models/j-hartmann/emotion-english-distilroberta-base',
@@ -228,7 +250,9 @@ async function analyzeWithHuggingFace(moodHistory: MoodEntry[]): Promise<Partial
     const emotions = hfData[0]?.[0]?.label || 'neutral'; // Access the first emotion's label
     const confidence = hfData[0]?.[0]?.score || 0.5;
 
-    const hfDominantEmotion = emotions === 'joy' ? 'Happy' : emotions === 'sadness' ? 'Sad' : 'Stressed';
+    const hfValence = valenceForEmotion(emotions);
+    const hfDominantEmotion = moodForValence(definitions, hfValence)?.label || 'Unknown';
+    const hfBand = getValenceBand(hfValence);
     const volatility = confidence > 0.7 ? 'low' : confidence > 0.4 ? 'medium' : 'high';
 
     // Only override dominant_emotion_week if Hugging Face confidence is high
@@ -244,7 +268,7 @@ async function analyzeWithHuggingFace(moodHistory: MoodEntry[]): Promise<Partial
       insights: {
         dominant_emotion_week: useHfEmotion ? hfDominantEmotion : 'Unknown', // Fallback to statistical if low confidence
         mood_volatility: volatility,
-        recommendation: `Focus on ${hfDominantEmotion === 'Happy' ? 'maintaining' : hfDominantEmotion === 'Sad' ? 'seeking support' : 'managing stress'} with self-care.`
+        recommendation: `Focus on ${hfBand === 'positive' ? 'maintaining' : hfBand === 'negative' ? 'seeking support' : 'managing stress'} with self-care.`
       }
     };
   } catch (error) {
@@ -259,12 +283,16 @@ async function analyzeWithHuggingFace(moodHistory: MoodEntry[]): Promise<Partial
     };
   }
 } 
-function getFallbackPrediction(): PredictionResult {
+function getFallbackPrediction(definitions: MoodVocabulary = DEFAULT_MOOD_DEFINITIONS): PredictionResult {
+  // Without enough history, assume the most positive mood and an even spread
+  const mostPositive = [...definitions].sort((a, b) => b.valence - a.valence)[0];
   return {
     tomorrowMood: {
-      predicted: 'Happy',
+      predicted: mostPositive?.label || 'Unknown',
       confidence: 0.5,
-      probability_distribution: { Happy: 0.4, Sad: 0.3, Stressed: 0.3 }
+      probability_distribution: Object.fromEntries(
+        definitions.map(def => [def.label, Math.round((1 / definitions.length) * 100) / 100])
+      )
     },
     patterns: {
       weeklyTrend: 'insufficient_data',
@@ -0,0 +1,52 @@
+// File: app/api/trash/restore/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { collectionsFor, getDb } from '@/lib/mongodb';
+import { requireUser } from '@/lib/auth';
+import { validationErrorResponse } from '@/lib/validation';
+import { recomputeUserStats } from '@/lib/user-stats';
+import { updateStatsRollups } from '@/lib/stats-rollups';
+import { TRASH_TYPES, TrashType, inTrash } from '@/lib/trash';
+
+// Takes a mood ({ type: 'mood', id }) or goal ({ type: 'goal', id }) back out of the trash
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const auth = requireUser(request, body.userId);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
+
+    const type = body.type as TrashType;
+    if (!TRASH_TYPES.includes(type)) {
+      return validationErrorResponse([{ field: 'type', message: `must be one of: ${TRASH_TYPES.join(', ')}` }]);
+    }
+    if (typeof body.id !== 'string' || !ObjectId.isValid(body.id)) {
+      return NextResponse.json({ error: 'Invalid id' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const { moods: moodsCollection, wellnessGoals: goalsCollection } = collectionsFor(db);
+    const filter = { _id: new ObjectId(body.id), userId, ...inTrash() };
+    const update = { $set: { deletedAt: null, updatedAt: new Date() } };
+
+    const mood = type === 'mood'
+      ? await moodsCollection.findOneAndUpdate(filter, update, { projection: { timestamp: 1 } })
+      : null;
+    const restored = type === 'mood' ? mood !== null : (await goalsCollection.updateOne(filter, update)).matchedCount > 0;
+
+    if (!restored) {
+      return NextResponse.json({ error: 'Not in the trash, or kept past the restore period' }, { status: 404 });
+    }
+
+    const stats = mood ? await recomputeUserStats(db, userId) : undefined;
+    if (mood) {
+      await updateStatsRollups(db, userId, [mood.timestamp]);
+    }
+
+    return NextResponse.json({ message: `${type === 'mood' ? 'Mood' : 'Goal'} restored`, stats }, { status: 200 });
+  } catch (error: unknown) {
+  console.error('Restore from trash error:', error);
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json({ error: 'Failed to restore from trash', details: errorMessage }, { status: 500 });
+  }
+}
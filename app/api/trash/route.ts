@@ -0,0 +1,39 @@
+// File: app/api/trash/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { collectionsFor, getDb } from '@/lib/mongodb';
+import { requireUser } from '@/lib/auth';
+import { decryptMoods } from '@/lib/encrypted-fields';
+import { getTrashRetentionDays, inTrash, restorableUntil } from '@/lib/trash';
+
+// Trashed moods and goals that can still be restored, most recently deleted first
+export async function GET(request: NextRequest) {
+  try {
+    const auth = requireUser(request);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
+
+    const db = await getDb();
+    const { moods: moodsCollection, wellnessGoals: goalsCollection } = collectionsFor(db);
+    const filter = { userId, ...inTrash() };
+
+    const [moods, goals] = await Promise.all([
+      moodsCollection.find(filter, { projection: { editHistory: 0 } }).sort({ deletedAt: -1 }).toArray(),
+      goalsCollection.find(filter).sort({ deletedAt: -1 }).toArray(),
+    ]);
+
+    const withExpiry = <T extends { deletedAt?: Date | null }>(item: T) => ({
+      ...item,
+      restorableUntil: restorableUntil(item.deletedAt as Date),
+    });
+
+    return NextResponse.json({
+      retentionDays: getTrashRetentionDays(),
+      moods: (await decryptMoods(db, userId, moods)).map(withExpiry),
+      goals: goals.map(withExpiry),
+    }, { status: 200 });
+  } catch (error: unknown) {
+  console.error('Get trash error:', error);
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json({ error: 'Failed to fetch trash', details: errorMessage }, { status: 500 });
+  }
+}
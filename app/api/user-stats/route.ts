@@ -1,100 +1,64 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { MongoClient } from 'mongodb';
+import { collectionsFor, getDb } from '@/lib/mongodb';
+import { recomputeUserStats } from '@/lib/user-stats';
+import { requireUser } from '@/lib/auth';
+import { ROLLUP_PERIODS, RollupPeriod, rollupsBetween } from '@/lib/stats-rollups';
+import { addDays, dateKeyInZone, getUserTimeZone, isDateKey } from '@/lib/timezone';
 
-const uri = process.env.MONGODB_URI || 'mongodb://localhost:27017';
-const client = new MongoClient(uri);
-const db = client.db('mental_health_tracker');
-const statsCollection = db.collection('user_stats');
-const moodsCollection = db.collection('moods');
-
-interface UserStats {
-  _id?: import('mongodb').ObjectId;
-  userId: string;
-  currentStreak: number;
-  longestStreak: number;
-  totalMoodEntries: number;
-  thisWeekEntries: number;
-weeklyStats: Array<Record<string, unknown>>; // You can refine this if weeklyStats structure is known
-  updatedAt: Date;
-}
+// How far back a trend reaches when from is left out
+const DEFAULT_TREND_DAYS: Record<RollupPeriod, number> = { week: 12 * 7, month: 365, year: 5 * 365 };
 
+// Counters, streaks (with freezes, grace days and milestones) and the weekly-goal streak; with ?period=week|month|year also a trend of the stored rollups
+// for the periods between from and to (YYYY-MM-DD in the user's time zone, default up to today)
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
+    const auth = requireUser(request);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
 
-    if (!userId) {
-      return NextResponse.json({ error: 'userId is required' }, { status: 400 });
+    const period = searchParams.get('period') as RollupPeriod | null;
+    if (period !== null && !ROLLUP_PERIODS.includes(period)) {
+      return NextResponse.json({ error: `period must be one of: ${ROLLUP_PERIODS.join(', ')}` }, { status: 400 });
     }
-
-    await client.connect();
-
-    // Get or create user stats
-    const foundStats = await statsCollection.findOne({ userId });
-    let userStats: UserStats;
-
-    if (!foundStats) {
-      userStats = {
-        userId,
-        currentStreak: 0,
-        longestStreak: 0,
-        totalMoodEntries: 0,
-        thisWeekEntries: 0,
-        weeklyStats: [],
-        updatedAt: new Date(),
-      };
-      await statsCollection.insertOne(userStats);
-    } else {
-      userStats = foundStats as UserStats;
+    const fromParam = searchParams.get('from');
+    const toParam = searchParams.get('to');
+    if ((fromParam && !isDateKey(fromParam)) || (toParam && !isDateKey(toParam))) {
+      return NextResponse.json({ error: 'from and to must be dates as YYYY-MM-DD' }, { status: 400 });
     }
 
-    // Calculate real-time stats
-    const now = new Date();
-    const startOfWeek = new Date(now);
-    startOfWeek.setDate(now.getDate() - now.getDay());
-    startOfWeek.setHours(0, 0, 0, 0);
-
-    const endOfWeek = new Date(startOfWeek);
-    endOfWeek.setDate(startOfWeek.getDate() + 7);
-
-    // Get this week's entries
-    const thisWeekEntries = await moodsCollection.countDocuments({
-      userId,
-      timestamp: { $gte: startOfWeek, $lt: endOfWeek },
-    });
+    const db = await getDb();
 
-    // Get total entries
-    const totalEntries = await moodsCollection.countDocuments({ userId });
+    // Calculate real-time stats (creates the user_stats document if missing)
+    const stats = await recomputeUserStats(db, userId);
 
-    // Calculate streak
-    const streak = await calculateStreak(userId);
+    const weekPercentage = Math.round((stats.thisWeekEntries / 7) * 100);
 
-    // Update stats in database
-    const longestStreak = Math.max(streak.current, userStats.longestStreak || 0);
-
-    await statsCollection.updateOne(
-      { userId },
-      {
-        $set: {
-          thisWeekEntries,
-          totalMoodEntries: totalEntries,
-          currentStreak: streak.current,
-          longestStreak,
-          updatedAt: new Date(),
-        },
-      }
-    );
-
-    const weekPercentage = Math.round((thisWeekEntries / 7) * 100);
+    let trend;
+    if (period) {
+      const to = toParam || dateKeyInZone(new Date(), await getUserTimeZone(db, userId));
+      const from = fromParam || addDays(to, -DEFAULT_TREND_DAYS[period]);
+      const rollups = await collectionsFor(db).userStats.findOne(
+        { userId },
+        { projection: { weeklyStats: 1, monthlyStats: 1, yearlyStats: 1 } }
+      );
+      trend = { period, from, to, stats: rollupsBetween(rollups, period, from, to) };
+    }
 
     return NextResponse.json(
       {
-        currentStreak: streak.current,
-        longestStreak,
-        totalMoodEntries: totalEntries,
-        thisWeekEntries,
+        currentStreak: stats.currentStreak,
+        longestStreak: stats.longestStreak,
+        totalMoodEntries: stats.totalMoodEntries,
+        thisWeekEntries: stats.thisWeekEntries,
         weekPercentage,
-        streakStartDate: streak.startDate,
+        streakStartDate: stats.streakStartDate,
+        streakFreezes: stats.streakFreezes,
+        bridgedDays: stats.bridgedDays,
+        weeklyStreak: stats.weeklyStreak,
+        streakMilestones: stats.streakMilestones,
+        streakRules: stats.streakRules,
+        ...(trend ? { trend } : {}),
       },
       { status: 200 }
     );
@@ -105,65 +69,5 @@ export async function GET(request: NextRequest) {
     { error: 'Failed to fetch user stats', details: errorMessage },
     { status: 500 }
   );
-  } finally {
-    await client.close();
-  }
-}
-
-async function calculateStreak(userId: string) {
-  try {
-    const entries = await moodsCollection
-      .find({ userId }, { projection: { timestamp: 1 } })
-      .sort({ timestamp: -1 })
-      .toArray();
-
-    if (entries.length === 0) {
-      return { current: 0, startDate: null };
-    }
-
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    const yesterday = new Date(today);
-    yesterday.setDate(today.getDate() - 1);
-
-    const dateMap = new Map<string, boolean>();
-    entries.forEach((entry) => {
-      const date = new Date(entry.timestamp);
-      date.setHours(0, 0, 0, 0);
-      const dateStr = date.toISOString().split('T')[0];
-      dateMap.set(dateStr, true);
-    });
-
-    let streak = 0;
-    let currentDate = new Date();
-
-    const todayStr = today.toISOString().split('T')[0];
-    const yesterdayStr = yesterday.toISOString().split('T')[0];
-
-    if (dateMap.has(todayStr)) {
-      currentDate = today;
-    } else if (dateMap.has(yesterdayStr)) {
-      currentDate = yesterday;
-    } else {
-      return { current: 0, startDate: null };
-    }
-
-    let streakStartDate = new Date(currentDate);
-    while (true) {
-      const dateStr = currentDate.toISOString().split('T')[0];
-      if (dateMap.has(dateStr)) {
-        streak++;
-        streakStartDate = new Date(currentDate);
-        currentDate.setDate(currentDate.getDate() - 1);
-      } else {
-        break;
-      }
-    }
-
-    return { current: streak, startDate: streakStartDate };
-  } catch (error) {
-    console.error('Error calculating streak:', error);
-    return { current: 0, startDate: null };
   }
 }
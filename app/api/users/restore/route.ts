@@ -0,0 +1,41 @@
+// File: app/api/users/restore/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { collectionsFor, getDb } from '@/lib/mongodb';
+import { requireUser } from '@/lib/auth';
+import { decryptUser } from '@/lib/encrypted-fields';
+
+// Cancels a scheduled account deletion while the grace period is still running
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const auth = requireUser(request, body.userId);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
+
+    const db = await getDb();
+    const { users: usersCollection } = collectionsFor(db);
+    const result = await usersCollection.updateOne(
+      { userId, 'deletion.scheduledFor': { $gt: new Date() } },
+      { $set: { deletion: null, updatedAt: new Date() } }
+    );
+
+    if (result.matchedCount === 0) {
+      return NextResponse.json({ error: 'No pending deletion for this account' }, { status: 404 });
+    }
+
+    const user = await usersCollection.findOne({ userId });
+
+    return NextResponse.json({
+      ...(user && await decryptUser(db, user)),
+      message: 'Account deletion cancelled'
+    }, { status: 200 });
+
+  } catch (error: unknown) {
+  console.error('Restore user error:', error);
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json(
+    { error: 'Failed to cancel account deletion', details: errorMessage },
+    { status: 500 }
+  );
+  }
+}
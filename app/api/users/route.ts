@@ -1,31 +1,43 @@
 // File: app/api/users/route.ts
 import { NextRequest, NextResponse } from 'next/server';
-import { MongoClient } from 'mongodb';
-
-const uri = process.env.MONGODB_URI || 'mongodb://localhost:27017';
-
-// Database connection utility
-async function getDatabase() {
-  if (!global._mongoClientPromise) {
-    const client = new MongoClient(uri);
-    global._mongoClientPromise = client.connect();
-  }
-  
-  const client = await global._mongoClientPromise;
-  return client.db('mental_health_tracker');
-}
+import { collectionsFor, getCollections, getDb } from '@/lib/mongodb';
+import { User, userSchema } from '@/lib/mongodb-schemas';
+import { toUpdatePaths, validate, validationErrorResponse } from '@/lib/validation';
+import { USER_EMAIL_HEADER, requireUser } from '@/lib/auth';
+import { eraseUser, getDeletionGraceDays, newDeletion } from '@/lib/account-erasure';
+import { decryptUser, encryptProfile } from '@/lib/encrypted-fields';
+import { isValidTimeZone, resolveTimeZone } from '@/lib/timezone';
+import { rebuildStatsRollups } from '@/lib/stats-rollups';
+import { rebuildGoalPeriods } from '@/lib/goal-checkins';
+import { reslotCheckIns } from '@/lib/daily-summaries';
+
+// Days are bucketed in profile.timezone, so it has to be a zone Intl and MongoDB both know
+const invalidTimeZone = (profile?: Partial<User['profile']>) =>
+  profile?.timezone && !isValidTimeZone(profile.timezone)
+    ? validationErrorResponse([{ field: 'profile.timezone', message: 'must be an IANA time zone, such as Europe/Berlin' }])
+    : null;
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { email, userId, profile = {}, preferences = {} } = body;
-
-    if (!email || !userId) {
-      return NextResponse.json({ error: 'Email and userId are required' }, { status: 400 });
+    const auth = requireUser(request, body.userId);
+    if (auth.response) return auth.response;
+
+    // The account's email comes from the session when Supabase provides one
+    const { value, errors } = validate<User>(userSchema, {
+      ...body,
+      userId: auth.userId,
+      email: request.headers.get(USER_EMAIL_HEADER) || body.email
+    });
+    if (errors.length > 0) {
+      return validationErrorResponse(errors);
     }
+    const { email, userId, profile = {}, preferences = { notifications: true } } = value as User;
+    const timeZoneError = invalidTimeZone(profile);
+    if (timeZoneError) return timeZoneError;
 
-    const db = await getDatabase();
-    const usersCollection = db.collection('users');
+    const db = await getDb();
+    const { users: usersCollection, userStats } = collectionsFor(db);
 
     // Check if user already exists
     const existingUser = await usersCollection.findOne({ userId });
@@ -33,13 +45,13 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'User already exists' }, { status: 409 });
     }
 
-    const userData = {
+    const userData: User = {
       email,
       userId,
       profile: {
         firstName: profile.firstName || '',
         lastName: profile.lastName || '',
-        age: profile.age || null,
+        age: profile.age ?? null,
         phoneNumber: profile.phoneNumber || '',
         bio: profile.bio || '',
         avatar: profile.avatar || '',
@@ -58,10 +70,13 @@ export async function POST(request: NextRequest) {
       updatedAt: new Date()
     };
 
-    const result = await usersCollection.insertOne(userData);
+    const result = await usersCollection.insertOne({
+      ...userData,
+      profile: await encryptProfile(db, userId, userData.profile)
+    });
 
     // Initialize user stats
-    await db.collection('user_stats').insertOne({
+    await userStats.insertOne({
       userId,
       currentStreak: 0,
       longestStreak: 0,
@@ -89,22 +104,25 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
-
-    if (!userId) {
-      return NextResponse.json({ error: 'userId is required' }, { status: 400 });
-    }
+    const auth = requireUser(request);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
 
-    const db = await getDatabase();
-    const usersCollection = db.collection('users');
+    const db = await getDb();
+    const { users: usersCollection } = collectionsFor(db);
     const user = await usersCollection.findOne({ userId });
 
+    // Accounts past their grace period are erased on the next visit if the purge job hasn't run yet
+    if (user?.deletion && user.deletion.scheduledFor <= new Date()) {
+      await eraseUser(db, userId, user.deletion);
+      return NextResponse.json({ error: 'User not found', receiptId: user.deletion.receiptId }, { status: 404 });
+    }
+
     if (!user) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
-    return NextResponse.json(user, { status: 200 });
+    return NextResponse.json(await decryptUser(db, user), { status: 200 });
 
   } catch (error: unknown) {
   console.error('Get user error:', error);
@@ -119,23 +137,28 @@ export async function GET(request: NextRequest) {
 export async function PUT(request: NextRequest) {
   try {
     const body = await request.json();
-    const { userId, profile, preferences } = body;
-
-    if (!userId) {
-      return NextResponse.json({ error: 'userId is required' }, { status: 400 });
+    const auth = requireUser(request, body.userId);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
+
+    // Only the fields that were sent change; the rest of profile / preferences is kept
+    const { value, errors } = validate<User>(userSchema, { profile: body.profile, preferences: body.preferences }, { partial: true });
+    if (errors.length > 0) {
+      return validationErrorResponse(errors);
     }
+    const timeZoneError = invalidTimeZone(value.profile);
+    if (timeZoneError) return timeZoneError;
 
-    const db = await getDatabase();
-    const usersCollection = db.collection('users');
+    const db = await getDb();
+    const { users: usersCollection } = collectionsFor(db);
 
-    const updateData: Record<string, unknown> = { updatedAt: new Date() };
-    
-    if (profile) {
-      updateData['profile'] = profile;
+    const previous = await usersCollection.findOne({ userId }, { projection: { 'profile.timezone': 1 } });
+    if (value.profile) {
+      value.profile = await encryptProfile(db, userId, value.profile);
     }
-    
-    if (preferences) {
-      updateData['preferences'] = preferences;
+    const updateData: Record<string, unknown> = { ...toUpdatePaths(value), updatedAt: new Date() };
+    if (value.preferences?.privacy) {
+      updateData['preferences.privacy.updatedAt'] = new Date();
     }
 
     const result = await usersCollection.updateOne(
@@ -146,11 +169,18 @@ export async function PUT(request: NextRequest) {
     if (result.matchedCount === 0) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
+    // Weeks, months and years begin at local midnight, and slots follow the local hour, so
+    // another zone regroups them
+    if (value.profile?.timezone && value.profile.timezone !== previous?.profile?.timezone) {
+      await reslotCheckIns(db, userId, resolveTimeZone(previous?.profile?.timezone), value.profile.timezone);
+      await rebuildStatsRollups(db, userId);
+      await rebuildGoalPeriods(db, userId);
+    }
 
     const updatedUser = await usersCollection.findOne({ userId });
 
     return NextResponse.json({ 
-      ...updatedUser,
+      ...(updatedUser && await decryptUser(db, updatedUser)),
       message: 'User updated successfully' 
     }, { status: 200 });
 
@@ -163,8 +193,52 @@ export async function PUT(request: NextRequest) {
   );
   }
 }
+// Deletes the account and everything stored for it. The body must repeat the
+// account's email as confirmation. Erasure happens after
+// ACCOUNT_DELETION_GRACE_DAYS (restore with POST /api/users/restore), or right away when that is 0.
+export async function DELETE(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const auth = requireUser(request, body.userId);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
+
+    const { users: usersCollection } = await getCollections();
+    const user = await usersCollection.findOne({ userId });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const confirmation = typeof body.confirm === 'string' ? body.confirm.trim().toLowerCase() : '';
+    if (confirmation !== user.email.toLowerCase()) {
+      return validationErrorResponse([{ field: 'confirm', message: 'must match the account email' }]);
+    }
+
+    if (user.deletion) {
+      return NextResponse.json({ error: 'Deletion already scheduled', ...user.deletion }, { status: 409 });
+    }
+
+    const deletion = newDeletion();
+
+    if (getDeletionGraceDays() === 0) {
+      const receipt = await eraseUser(await getDb(), userId, deletion);
+      return NextResponse.json({ ...receipt, message: 'Account erased' }, { status: 200 });
+    }
 
-// Add global type declaration
-declare global {
-  var _mongoClientPromise: Promise<MongoClient>;
-}
\ No newline at end of file
+    await usersCollection.updateOne({ userId }, { $set: { deletion, updatedAt: new Date() } });
+
+    return NextResponse.json({
+      ...deletion,
+      message: 'Account deletion scheduled'
+    }, { status: 202 });
+
+  } catch (error: unknown) {
+  console.error('Delete user error:', error);
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json(
+    { error: 'Failed to delete user', details: errorMessage },
+    { status: 500 }
+  );
+  }
+}
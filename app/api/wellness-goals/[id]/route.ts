@@ -0,0 +1,186 @@
+// File: app/api/wellness-goals/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { collectionsFor, getDb } from '@/lib/mongodb';
+import { GOAL_TARGET_MAX, WellnessGoal, wellnessGoalSchema } from '@/lib/mongodb-schemas';
+import { validate, validationErrorResponse } from '@/lib/validation';
+import { requireUser } from '@/lib/auth';
+import { NOT_DELETED, restorableUntil } from '@/lib/trash';
+import { describeAchievements, evaluateAchievements } from '@/lib/achievements';
+import { rebuildGoalPeriods, recomputeGoalProgress, recordGoalCorrection, withRecurrence } from '@/lib/goal-checkins';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const EDITABLE_FIELDS = ['title', 'description', 'category', 'targetValue', 'currentProgress', 'isCompleted', 'dueDate'] as const;
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = requireUser(request);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
+
+    if (!ObjectId.isValid(params.id)) {
+      return NextResponse.json({ error: 'Invalid goal id' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const { wellnessGoals: goalsCollection } = collectionsFor(db);
+    const filter = { _id: new ObjectId(params.id), userId, ...NOT_DELETED };
+
+    const goal = await goalsCollection.findOne(filter, { projection: { archivedAt: 1 } });
+    if (!goal) {
+      return NextResponse.json({ error: 'Goal not found' }, { status: 404 });
+    }
+    // Rolls the goal over, unless it is archived
+    const current = goal.archivedAt
+      ? await goalsCollection.findOne(filter)
+      : await recomputeGoalProgress(db, userId, goal._id.toString());
+
+    const [withPeriods] = await withRecurrence(db, userId, [current as WellnessGoal]);
+    return NextResponse.json(withPeriods, { status: 200 });
+  } catch (error: unknown) {
+  console.error('Get goal error:', error);
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json({ error: 'Failed to fetch goal', details: errorMessage }, { status: 500 });
+  }
+}
+
+// Edits the goal. Setting currentProgress, or isCompleted, records check-ins for the difference
+// in the current period; { archived: true | false } archives or unarchives it.
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const body = await request.json();
+    const auth = requireUser(request, body.userId);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
+
+    if (!ObjectId.isValid(params.id)) {
+      return NextResponse.json({ error: 'Invalid goal id' }, { status: 400 });
+    }
+    if (body.archived !== undefined && typeof body.archived !== 'boolean') {
+      return validationErrorResponse([{ field: 'archived', message: 'must be true or false' }]);
+    }
+
+    const editable: Record<string, unknown> = {};
+    for (const field of EDITABLE_FIELDS) {
+      if (body[field] !== undefined) editable[field] = body[field];
+    }
+
+    const { value, errors } = validate<WellnessGoal>(wellnessGoalSchema, editable, { partial: true });
+    if (errors.length > 0) {
+      return validationErrorResponse(errors);
+    }
+    // Progress beyond the largest target is only reachable through check-ins
+    if (value.currentProgress !== undefined && value.currentProgress > GOAL_TARGET_MAX) {
+      return validationErrorResponse([{ field: 'currentProgress', message: `must be at most ${GOAL_TARGET_MAX}` }]);
+    }
+    if (Object.keys(value).length === 0 && body.archived === undefined) {
+      return NextResponse.json({
+        error: `Nothing to update. Editable fields: ${EDITABLE_FIELDS.join(', ')}, archived`
+      }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const { wellnessGoals: goalsCollection } = collectionsFor(db);
+
+    const { currentProgress, isCompleted, ...fields } = value;
+    const filter = { _id: new ObjectId(params.id), userId, ...NOT_DELETED };
+
+    const existing = await goalsCollection.findOne(filter, { projection: { archivedAt: 1 } });
+    if (!existing) {
+      return NextResponse.json({ error: 'Goal not found' }, { status: 404 });
+    }
+    const wasArchived = Boolean(existing.archivedAt);
+    const archived: boolean = body.archived ?? wasArchived;
+    if (archived && (currentProgress !== undefined || isCompleted !== undefined)) {
+      return NextResponse.json({ error: 'Unarchive the goal to record progress' }, { status: 409 });
+    }
+
+    const updated = await goalsCollection.findOneAndUpdate(
+      filter,
+      {
+        $set: {
+          ...fields,
+          ...(archived !== wasArchived ? { archivedAt: archived ? new Date() : null } : {}),
+          updatedAt: new Date()
+        }
+      },
+      { returnDocument: 'after' }
+    );
+    if (!updated) {
+      return NextResponse.json({ error: 'Goal not found' }, { status: 404 });
+    }
+    const goalId = updated._id.toString();
+    // Check-ins are filed by period, so a new category re-files them
+    if (fields.category !== undefined) {
+      await rebuildGoalPeriods(db, userId, goalId);
+    }
+    // Archived goals stay as they were in their last period
+    if (archived) {
+      return NextResponse.json({ ...updated, message: 'Goal updated successfully' }, { status: 200 });
+    }
+
+    // Rolls the goal over to the current period and applies a new target
+    let goal = await recomputeGoalProgress(db, userId, goalId) as WellnessGoal;
+
+    // Progress only moves through check-ins, so setting it (or ticking the goal off or on)
+    // records one for the difference in the current period
+    const progress = goal.currentProgress ?? 0;
+    const target = goal.targetValue ?? 1;
+    const progressTo = currentProgress
+      ?? (isCompleted === true ? Math.max(progress, target) : undefined)
+      ?? (isCompleted === false ? Math.max(0, Math.min(progress, target - 1)) : undefined);
+    if (progressTo !== undefined && progressTo !== progress) {
+      const note = currentProgress !== undefined ? `Progress set to ${progressTo}` : isCompleted ? 'Marked complete' : 'Marked not complete';
+      goal = await recordGoalCorrection(db, userId, goalId, progressTo - progress, note) ?? goal;
+    }
+
+    const achievements = await evaluateAchievements(db, userId, { type: 'goal' });
+
+    return NextResponse.json({
+      ...goal,
+      achievements: describeAchievements(achievements),
+      message: 'Goal updated successfully'
+    }, { status: 200 });
+  } catch (error: unknown) {
+  console.error('Goal update error:', error);
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json({ error: 'Failed to update goal', details: errorMessage }, { status: 500 });
+  }
+}
+
+// Moves the goal to the trash (see /api/trash)
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const auth = requireUser(request);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
+
+    if (!ObjectId.isValid(params.id)) {
+      return NextResponse.json({ error: 'Invalid goal id' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const deletedAt = new Date();
+    const result = await collectionsFor(db).wellnessGoals.updateOne(
+      { _id: new ObjectId(params.id), userId, ...NOT_DELETED },
+      { $set: { deletedAt } }
+    );
+
+    if (result.matchedCount === 0) {
+      return NextResponse.json({ error: 'Goal not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      message: 'Goal moved to trash',
+      deletedAt,
+      restorableUntil: restorableUntil(deletedAt)
+    }, { status: 200 });
+  } catch (error: unknown) {
+  console.error('Goal delete error:', error);
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json({ error: 'Failed to delete goal', details: errorMessage }, { status: 500 });
+  }
+}
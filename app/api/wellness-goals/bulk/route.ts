@@ -0,0 +1,76 @@
+// File: app/api/wellness-goals/bulk/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { collectionsFor, getDb } from '@/lib/mongodb';
+import { requireUser } from '@/lib/auth';
+import { validationErrorResponse } from '@/lib/validation';
+import { NOT_DELETED, restorableUntil } from '@/lib/trash';
+
+const BULK_ACTIONS = ['archive', 'unarchive', 'delete', 'reorder'] as const;
+type BulkAction = typeof BULK_ACTIONS[number];
+
+const MAX_BULK_GOALS = 100;
+
+// Applies one action to several goals: body { action, goalIds }. For reorder, goalIds is the new
+// order of those goals (e.g. one category's); they swap places among themselves, so goals left
+// out keep theirs.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const auth = requireUser(request, body.userId);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
+
+    const action = body.action as BulkAction;
+    if (!BULK_ACTIONS.includes(action)) {
+      return validationErrorResponse([{ field: 'action', message: `must be one of: ${BULK_ACTIONS.join(', ')}` }]);
+    }
+    const goalIds: unknown = body.goalIds;
+    if (!Array.isArray(goalIds) || goalIds.length === 0 || goalIds.length > MAX_BULK_GOALS) {
+      return validationErrorResponse([{ field: 'goalIds', message: `must list 1 to ${MAX_BULK_GOALS} goals` }]);
+    }
+    if (!goalIds.every(id => typeof id === 'string' && ObjectId.isValid(id)) || new Set(goalIds).size !== goalIds.length) {
+      return validationErrorResponse([{ field: 'goalIds', message: 'must be distinct goal ids' }]);
+    }
+
+    const db = await getDb();
+    const { wellnessGoals: goalsCollection } = collectionsFor(db);
+    const ids = goalIds.map(id => new ObjectId(id as string));
+    const filter = { _id: { $in: ids }, userId, ...NOT_DELETED };
+    const now = new Date();
+
+    if (action === 'reorder') {
+      const goals = await goalsCollection.find(filter, { projection: { sortOrder: 1 } }).toArray();
+      if (goals.length !== ids.length) {
+        return NextResponse.json({ error: 'Some goals were not found' }, { status: 404 });
+      }
+      // The places these goals hold now, handed out again in the new order
+      const places = goals.map((goal, i) => goal.sortOrder ?? i).sort((a, b) => a - b);
+      const result = await goalsCollection.bulkWrite(ids.map((_id, i) => ({
+        updateOne: { filter: { _id, userId }, update: { $set: { sortOrder: places[i], updatedAt: now } } },
+      })));
+      return NextResponse.json({ action, matched: result.matchedCount, modified: result.modifiedCount }, { status: 200 });
+    }
+
+    const updates = {
+      archive: { filter: { archivedAt: null }, set: { archivedAt: now } },
+      unarchive: { filter: { archivedAt: { $ne: null } }, set: { archivedAt: null } },
+      delete: { filter: {}, set: { deletedAt: now } },
+    }[action];
+    const result = await goalsCollection.updateMany(
+      { ...filter, ...updates.filter },
+      { $set: { ...updates.set, updatedAt: now } }
+    );
+
+    return NextResponse.json({
+      action,
+      matched: result.matchedCount,
+      modified: result.modifiedCount,
+      ...(action === 'delete' ? { restorableUntil: restorableUntil(now) } : {})
+    }, { status: 200 });
+  } catch (error: unknown) {
+  console.error('Bulk goal update error:', error);
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json({ error: 'Failed to update goals', details: errorMessage }, { status: 500 });
+  }
+}
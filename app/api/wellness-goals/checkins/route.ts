@@ -0,0 +1,110 @@
+// File: app/api/wellness-goals/checkins/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { collectionsFor, getDb } from '@/lib/mongodb';
+import { GoalCheckin, WellnessGoal, goalCheckinSchema } from '@/lib/mongodb-schemas';
+import { validate, validationErrorResponse } from '@/lib/validation';
+import { requireUser } from '@/lib/auth';
+import { NOT_DELETED } from '@/lib/trash';
+import { getGoalCheckins, recomputeGoalProgress, recordGoalCheckin } from '@/lib/goal-checkins';
+import { goalPeriodRange, isGoalPeriod } from '@/lib/goal-periods';
+import { describeAchievements, evaluateAchievements } from '@/lib/achievements';
+
+// Records progress on a goal's current period: body { goalId, amount (default 1, negative to correct), note? }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const auth = requireUser(request, body.userId);
+    if (auth.response) return auth.response;
+
+    const { value, errors } = validate<GoalCheckin>(goalCheckinSchema, { ...body, userId: auth.userId });
+    if (errors.length > 0) {
+      return validationErrorResponse(errors);
+    }
+    if (value.amount === 0) {
+      return validationErrorResponse([{ field: 'amount', message: 'must not be 0' }]);
+    }
+    const { userId, goalId, amount, note } = value as GoalCheckin;
+
+    const db = await getDb();
+    const goal = await collectionsFor(db).wellnessGoals.findOne(
+      { _id: new ObjectId(goalId), userId, ...NOT_DELETED },
+      { projection: { archivedAt: 1 } }
+    );
+    if (!goal) {
+      return NextResponse.json({ error: 'Goal not found' }, { status: 404 });
+    }
+    if (goal.archivedAt) {
+      return NextResponse.json({ error: 'Unarchive the goal to record progress' }, { status: 409 });
+    }
+
+    const result = await recordGoalCheckin(db, { userId, goalId, amount, note });
+    const achievements = await evaluateAchievements(db, userId, { type: 'goal' });
+
+    return NextResponse.json({
+      ...result,
+      achievements: describeAchievements(achievements),
+      message: 'Check-in recorded'
+    }, { status: 201 });
+
+  } catch (error: unknown) {
+  console.error('Goal check-in error:', error);
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json(
+    { error: 'Failed to record the check-in', details: errorMessage },
+    { status: 500 }
+  );
+  }
+}
+
+// GET /api/wellness-goals/checkins?goalId=...[&period=2024-W10] — the check-ins of one period
+// (default: the current one) oldest first, each with the progress after it, for the progress chart
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const goalId = searchParams.get('goalId');
+    const period = searchParams.get('period');
+
+    const auth = requireUser(request);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
+
+    if (!goalId || !ObjectId.isValid(goalId)) {
+      return NextResponse.json({ error: 'A valid goalId is required' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const stored = await collectionsFor(db).wellnessGoals.findOne({ _id: new ObjectId(goalId), userId });
+    if (!stored) {
+      return NextResponse.json({ error: 'Goal not found' }, { status: 404 });
+    }
+    // Rolls the goal over, unless it is archived
+    const goal = stored.archivedAt ? stored : await recomputeGoalProgress(db, userId, goalId) as WellnessGoal;
+
+    if (period && !isGoalPeriod(goal.category, period)) {
+      return NextResponse.json({ error: `period is not a ${goal.category} period` }, { status: 400 });
+    }
+
+    // Missed periods have no instance
+    const range = goalPeriodRange(goal.category, period || goal.currentPeriod as string);
+    const instance = await collectionsFor(db).goalPeriods.findOne({ userId, goalId, period: range.period });
+
+    return NextResponse.json({
+      goalId,
+      ...range,
+      targetValue: instance?.targetValue ?? goal.targetValue ?? 1,
+      progress: instance?.progress ?? 0,
+      isCompleted: instance?.isCompleted ?? false,
+      completedAt: instance?.completedAt ?? null,
+      checkins: await getGoalCheckins(db, userId, goalId, range.period),
+    }, { status: 200 });
+
+  } catch (error: unknown) {
+  console.error('Get goal check-ins error:', error);
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return NextResponse.json({ 
+    error: 'Failed to fetch check-ins', 
+    details: errorMessage 
+  }, { status: 500 });
+  }
+}
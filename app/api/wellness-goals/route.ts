@@ -1,51 +1,48 @@
 // File: app/api/wellness-goals/route.ts
 import { NextRequest, NextResponse } from 'next/server';
-import { MongoClient } from 'mongodb';
-
-const uri = process.env.MONGODB_URI || 'mongodb://localhost:27017';
-
-// Database connection utility
-async function getDatabase() {
-  if (!global._mongoClientPromise) {
-    const client = new MongoClient(uri);
-    global._mongoClientPromise = client.connect();
-  }
-  
-  const client = await global._mongoClientPromise;
-  return client.db('mental_health_tracker');
-}
+import { collectionsFor, getDb } from '@/lib/mongodb';
+import { WellnessGoal, wellnessGoalSchema } from '@/lib/mongodb-schemas';
+import { validate, validationErrorResponse } from '@/lib/validation';
+import { requireUser } from '@/lib/auth';
+import { NOT_DELETED } from '@/lib/trash';
+import { recomputeGoalProgress, rollOverGoals, withRecurrence } from '@/lib/goal-checkins';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { userId, title, description, category, targetValue, dueDate } = body;
+    const auth = requireUser(request, body.userId);
+    if (auth.response) return auth.response;
 
-    if (!userId || !title || !category) {
-      return NextResponse.json({ 
-        error: 'userId, title, and category are required' 
-      }, { status: 400 });
+    const { value, errors } = validate<WellnessGoal>(wellnessGoalSchema, { ...body, userId: auth.userId });
+    if (errors.length > 0) {
+      return validationErrorResponse(errors);
     }
 
-    const db = await getDatabase();
-    const goalsCollection = db.collection('wellness_goals');
-
-    const goalData = {
-      userId,
-      title,
-      description: description || '',
-      category,
-      targetValue: targetValue || 1,
+    const db = await getDb();
+    const { wellnessGoals: goalsCollection } = collectionsFor(db);
+
+    // New goals always start at zero progress, at the top of the list
+    const [top] = await goalsCollection
+      .aggregate<{ sortOrder: number | null }>([
+        { $match: { userId: auth.userId } },
+        { $group: { _id: null, sortOrder: { $min: '$sortOrder' } } },
+      ])
+      .toArray();
+    const goalData: WellnessGoal = {
+      ...(value as WellnessGoal),
       currentProgress: 0,
       isCompleted: false,
-      dueDate: dueDate ? new Date(dueDate) : null,
+      sortOrder: (top?.sortOrder ?? 0) - 1,
       createdAt: new Date(),
       updatedAt: new Date()
     };
 
     const result = await goalsCollection.insertOne(goalData);
+    // Opens the first period
+    const goal = await recomputeGoalProgress(db, auth.userId, result.insertedId.toString());
 
     return NextResponse.json({
-      ...goalData,
+      ...(goal ?? goalData),
       _id: result.insertedId,
       message: 'Goal created successfully'
     }, { status: 201 });
@@ -60,27 +57,30 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// GET /api/wellness-goals[?category=daily|weekly|monthly][&archived=true] — in sort order;
+// archived goals are listed only with archived=true
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
     const category = searchParams.get('category');
+    const archived = searchParams.get('archived') === 'true';
 
-    if (!userId) {
-      return NextResponse.json({ error: 'userId is required' }, { status: 400 });
-    }
+    const auth = requireUser(request);
+    if (auth.response) return auth.response;
+    const { userId } = auth;
 
-    const db = await getDatabase();
-    const goalsCollection = db.collection('wellness_goals');
+    const db = await getDb();
+    const { wellnessGoals: goalsCollection } = collectionsFor(db);
+    await rollOverGoals(db, userId);
 
-    const filter: Record<string, unknown> = { userId };
+    const filter: Record<string, unknown> = { userId, ...NOT_DELETED, archivedAt: archived ? { $ne: null } : null };
     if (category) {
       filter.category = category;
     }
 
-    const goals = await goalsCollection.find(filter).sort({ createdAt: -1 }).toArray();
+    const goals = await goalsCollection.find(filter).sort({ sortOrder: 1, createdAt: -1 }).toArray();
 
-    return NextResponse.json(goals, { status: 200 });
+    return NextResponse.json(await withRecurrence(db, userId, goals), { status: 200 });
 
   }catch (error: unknown) {
   console.error('Get goals error:', error);
@@ -91,50 +91,3 @@ export async function GET(request: NextRequest) {
   }, { status: 500 });
   }
 }
-
-export async function PUT(request: NextRequest) {
-  try {
-    const body = await request.json();
-    const { goalId, currentProgress, isCompleted, title, description } = body;
-
-    if (!goalId) {
-      return NextResponse.json({ error: 'goalId is required' }, { status: 400 });
-    }
-
-    const db = await getDatabase();
-    const goalsCollection = db.collection('wellness_goals');
-
-    const updateData: Record<string, unknown> = { updatedAt: new Date() };
-    if (currentProgress !== undefined) updateData.currentProgress = currentProgress;
-    if (isCompleted !== undefined) {
-      updateData.isCompleted = isCompleted;
-      if (isCompleted) updateData.completedAt = new Date();
-    }
-    if (title) updateData.title = title;
-    if (description !== undefined) updateData.description = description;
-
-    const result = await goalsCollection.updateOne(
-      { _id: goalId },
-      { $set: updateData }
-    );
-
-    if (result.matchedCount === 0) {
-      return NextResponse.json({ error: 'Goal not found' }, { status: 404 });
-    }
-
-    return NextResponse.json({ message: 'Goal updated successfully' }, { status: 200 });
-
-  }  catch (error: unknown) {
-  console.error('Goal update error:', error);
-  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-  return NextResponse.json({ 
-    error: 'Failed to update goal', 
-    details: errorMessage 
-  }, { status: 500 });
-  }
-}
-
-// Add global type declaration
-declare global {
-  var _mongoClientPromise: Promise<MongoClient>;
-}
\ No newline at end of file
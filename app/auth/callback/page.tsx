@@ -1,7 +1,7 @@
 'use client';
 import { useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { supabaseClient } from '../../../utils/supabase/server'; // Adjusted import path
+import { authClient } from '../../../utils/auth';
 
 export default function Callback() {
   const router = useRouter();
@@ -9,12 +9,17 @@ export default function Callback() {
   useEffect(() => {
     const verifySessionAndRedirect = async () => {
       console.log('Verifying session at callback...'); // Debug log
-      const { data: { session }, error } = await supabaseClient.auth.getSession();
-      if (error) {
-        console.error('Session error:', error.message);
-        alert('Authentication failed: ' + error.message);
+      let session;
+      try {
+        session = await authClient.getSession();
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
+        console.error('Session error:', errorMessage);
+        alert('Authentication failed: ' + errorMessage);
         router.push('/login');
-      } else if (session) {
+        return;
+      }
+      if (session) {
         console.log('Session verified, user ID:', session.user.id);
         router.push('/moods'); // Redirect to mood log page
       } else {
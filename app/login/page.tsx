@@ -1,18 +1,30 @@
 'use client';
-import { useState } from 'react';
-import { supabaseClient } from '../../utils/supabase/server';
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { authClient } from '../../utils/auth';
 
 export default function Login() {
   const [email, setEmail] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [erasureReceiptId, setErasureReceiptId] = useState<string | null>(null);
+  const router = useRouter();
+
+  // Set after an account was erased (see the moods page)
+  useEffect(() => {
+    setErasureReceiptId(new URLSearchParams(window.location.search).get('erased'));
+  }, []);
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     setIsLoading(true);
 
     try {
-      await supabaseClient.auth.signInWithOtp({ email });
-      alert('Check your email!');
+      const result = await authClient.signIn(email);
+      if (result === 'signed-in') {
+        router.push('/moods');
+      } else {
+        alert('Check your email!');
+      }
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
       alert('Error: ' + errorMessage);
@@ -42,6 +54,15 @@ export default function Login() {
           <p className="text-gray-600 text-lg">Continue your mental health journey</p>
         </div>
 
+        {erasureReceiptId && (
+          <div className="mb-6 bg-white/80 backdrop-blur-sm rounded-2xl p-4 border border-green-100 text-sm text-gray-700">
+            Your account and its data have been deleted.{' '}
+            <a href={`/api/erasure-receipts/${erasureReceiptId}`} className="text-green-600 underline">
+              View your erasure receipt
+            </a>
+          </div>
+        )}
+
         {/* Login card */}
         <div className="bg-white/80 backdrop-blur-sm rounded-3xl shadow-xl p-8 border border-green-100 transform transition-all duration-300 hover:shadow-2xl hover:scale-[1.02]">
           <form onSubmit={handleSubmit} className="space-y-6">
@@ -1,10 +1,14 @@
 'use client';
 import { useState, useEffect, useRef, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { authClient } from '../../utils/auth';
+import { apiFetch } from '../../utils/api-fetch';
 
 // Types
 interface MoodData {
   state: string;
   count: number;
+  averageIntensity?: number | null;
 }
  
 function debounce(func: (text: string) => void, wait: number): (text: string) => void {
@@ -18,12 +22,150 @@ function debounce(func: (text: string) => void, wait: number): (text: string) =>
 interface MoodEntry {
   _id?: string;
   moodText: string;
-  moodState: "Happy" | "Sad" | "Stressed";
+  moodState: string;
   userId: string;
   timestamp: Date;
   sentiment?: string;
+  intensity?: number | null;
+  emotions?: string[];
+  tags?: string[];
+  context?: {
+    activities?: string[];
+    sleepHours?: number | null;
+    location?: string | null;
+    people?: string[];
+  };
+}
+
+interface MoodDefinition {
+  _id?: string;
+  label: string;
+  emoji: string;
+  color: string;
+  valence: number;
+  description?: string;
+  source: 'user' | 'deployment' | 'builtin';
+}
+
+// Shown until /api/mood-definitions answers
+const FALLBACK_MOOD_DEFINITIONS: MoodDefinition[] = [
+  { label: 'Happy', emoji: '😊', color: '#10B981', valence: 1, description: 'Feeling positive and upbeat', source: 'builtin' },
+  { label: 'Sad', emoji: '😢', color: '#EF4444', valence: -1, description: 'Feeling down or melancholy', source: 'builtin' },
+  { label: 'Stressed', emoji: '😰', color: '#F59E0B', valence: 0, description: 'Feeling overwhelmed or anxious', source: 'builtin' }
+];
+
+const UNKNOWN_MOOD: Omit<MoodDefinition, 'label'> = { emoji: '❔', color: '#9CA3AF', valence: 0, source: 'builtin' };
+
+const EMOTION_OPTIONS = [
+  { value: 'joy', label: 'Joy', emoji: '😄' },
+  { value: 'sadness', label: 'Sadness', emoji: '😞' },
+  { value: 'fear', label: 'Fear', emoji: '😨' },
+  { value: 'anger', label: 'Anger', emoji: '😠' },
+  { value: 'surprise', label: 'Surprise', emoji: '😲' },
+  { value: 'disgust', label: 'Disgust', emoji: '🤢' }
+];
+
+const ACTIVITY_OPTIONS = [
+  { value: 'work', emoji: '💼' },
+  { value: 'study', emoji: '📚' },
+  { value: 'exercise', emoji: '🏃' },
+  { value: 'socializing', emoji: '🗣️' },
+  { value: 'family', emoji: '👨‍👩‍👧' },
+  { value: 'hobbies', emoji: '🎨' },
+  { value: 'chores', emoji: '🧹' },
+  { value: 'outdoors', emoji: '🌳' },
+  { value: 'relaxing', emoji: '🛋️' },
+  { value: 'screen time', emoji: '📱' },
+  { value: 'travel', emoji: '✈️' }
+];
+
+// Shape of `activityImpact` from /api/analytics/mood-pattern
+interface ActivityImpact {
+  factors: {
+    factor: string;
+    kind: 'activity' | 'people' | 'location';
+    count: number;
+    averageValence: number;
+    impact: number;
+  }[];
+  sleep: {
+    entries: number;
+    averageHours: number;
+    correlation: number | null;
+  } | null;
+}
+
+interface MoodHistoryPage {
+  entries: MoodEntry[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+const HISTORY_PAGE_SIZE = 100;
+
+// Merge freshly fetched entries into the loaded history, newest first, without duplicates
+function mergeMoodEntries(current: MoodEntry[], incoming: MoodEntry[]): MoodEntry[] {
+  const byId = new Map<string, MoodEntry>();
+  [...current, ...incoming].forEach(entry => byId.set(entry._id || `${entry.timestamp}`, entry));
+  return Array.from(byId.values()).sort(
+    (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  );
+}
+
+type CheckInSlot = 'morning' | 'midday' | 'evening';
+
+// Mirrors checkInSlotFor in lib/daily-summaries
+const CHECK_IN_SLOTS: { id: CheckInSlot; label: string; emoji: string }[] = [
+  { id: 'morning', label: 'Morning', emoji: '🌅' },
+  { id: 'midday', label: 'Midday', emoji: '☀️' },
+  { id: 'evening', label: 'Evening', emoji: '🌙' },
+];
+
+function checkInSlotFor(hour: number): CheckInSlot {
+  if (hour >= 4 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 17) return 'midday';
+  return 'evening';
+}
+
+// The server buckets days in profile.timezone, so the calendar does too (mirrors lib/timezone)
+const BROWSER_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+function zonedNow(timeZone?: string): { dateKey: string; hour: number } {
+  try {
+    const parts = Object.fromEntries(new Intl.DateTimeFormat('en-US', {
+      timeZone: timeZone || BROWSER_TIME_ZONE,
+      hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit'
+    }).formatToParts(new Date()).map(part => [part.type, part.value]));
+    return { dateKey: `${parts.year}-${parts.month}-${parts.day}`, hour: parseInt(parts.hour) };
+  } catch {
+    return { dateKey: dayKey(new Date()), hour: new Date().getHours() };
+  }
+}
+
+// YYYY-MM-DD of a calendar cell, from the day it shows
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// One day of /api/moods/daily
+interface DailySummary {
+  date: string;
+  entries: number;
+  dominantMood: string;
+  averageValence: number | null;
+  valenceRange: number | null;
+  checkIns: { _id: string; timestamp: string; checkInSlot?: CheckInSlot; moodState: string }[];
 }
 
+type PrivacyProcessor = 'huggingface' | 'gemini' | 'n8n';
+
+// Mirrors lib/privacy: every processor is off until the user opts in
+const PRIVACY_PROCESSORS: { id: PrivacyProcessor; label: string; description: string }[] = [
+  { id: 'huggingface', label: 'Hugging Face', description: 'Emotion analysis, predictions and recommendations' },
+  { id: 'gemini', label: 'Google Gemini', description: 'Writing suggestions while you type' },
+  { id: 'n8n', label: 'n8n automations', description: 'Reminders and support emails after you log a mood' },
+];
+
 interface UserProfile {
   _id?: string;
   email: string;
@@ -45,7 +187,16 @@ interface UserProfile {
     notifications: boolean;
     reminderTime?: string;
     theme?: 'light' | 'dark' | 'auto';
+    streaks?: { graceDays?: number; weeklyTarget?: number };
+    privacy?: Partial<Record<PrivacyProcessor, { enabled?: boolean; text?: 'none' | 'redacted' | 'full' }>> & {
+      updatedAt?: string;
+    };
   };
+  deletion?: {
+    requestedAt: string;
+    scheduledFor: string;
+    receiptId: string;
+  } | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -57,13 +208,32 @@ interface WellnessGoal {
   description?: string;
   category: 'daily' | 'weekly' | 'monthly';
   targetValue?: number;
+  currentPeriod?: string;
   currentProgress?: number;
   isCompleted: boolean;
   dueDate?: Date;
+  sortOrder?: number;
   createdAt?: Date;
   updatedAt?: Date;
+  archivedAt?: Date | null;
+  recurrence?: GoalRecurrence;
+}
+
+// From summarizeGoalPeriods in lib/goal-periods
+interface GoalRecurrence {
+  period: string;
+  startsOn: string;
+  endsOn: string;
+  periodsElapsed: number;
+  periodsCompleted: number;
+  completionRate: number | null;
+  streak: { current: number; longest: number };
+  history: { period: string; startsOn: string; endsOn: string; targetValue: number; progress: number; isCompleted: boolean }[];
 }
 
+const GOAL_PERIOD_NAMES = { daily: 'today', weekly: 'this week', monthly: 'this month' } as const;
+const GOAL_TARGET_MAX = 100000; // as in lib/mongodb-schemas
+
 interface UserStats {
   currentStreak: number;
   longestStreak: number;
@@ -71,8 +241,40 @@ interface UserStats {
   thisWeekEntries: number;
   weekPercentage: number;
   streakStartDate?: Date;
+  streakFreezes?: number;
+  bridgedDays?: { date: string; by: 'grace' | 'freeze' }[];
+  weeklyStreak?: { current: number; longest: number; target: number; thisWeekDays: number };
+  streakMilestones?: StreakMilestone[];
+  streakRules?: { graceDays: number; weeklyTarget: number };
+}
+
+interface StreakMilestone {
+  days: number;
+  reachedOn: string; // YYYY-MM-DD
+  streakStartedOn: string;
 }
 
+// Mirrors STREAK_MILESTONES in lib/streaks
+const STREAK_MILESTONES = [
+  { days: 7, emoji: '🔥', label: 'One week' },
+  { days: 30, emoji: '🏅', label: 'One month' },
+  { days: 100, emoji: '🏆', label: '100 days' },
+];
+
+interface Achievement {
+  id: string;
+  title: string;
+  description: string;
+  emoji: string;
+  earnedAt?: string | null;
+}
+
+// Badges a save just earned, from the achievements field of the moods and goals responses
+const announceAchievements = (achievements?: Achievement[]) => {
+  if (!achievements?.length) return;
+  alert(`New badge${achievements.length > 1 ? 's' : ''} earned!\n${achievements.map(badge => `${badge.emoji} ${badge.title}`).join('\n')}`);
+};
+
 interface RecommendationResponse {
   success: boolean;
   recommendation: {
@@ -101,20 +303,40 @@ interface RecommendationResponse {
 
 export default function MoodLog() {
   // User and authentication state
-  const [currentUserId] = useState<string>("user_123"); 
+  const router = useRouter();
+  const [currentUserId, setCurrentUserId] = useState<string>("");
+  const [currentUserEmail, setCurrentUserEmail] = useState<string>("");
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [isProfileLoading, setIsProfileLoading] = useState(true);
  const [moodText, setMoodText] = useState<string>("");
-const [moodState, setMoodState] = useState<"Happy" | "Sad" | "Stressed">("Happy");
+const [moodDefinitions, setMoodDefinitions] = useState<MoodDefinition[]>(FALLBACK_MOOD_DEFINITIONS);
+const [moodState, setMoodState] = useState<string>(FALLBACK_MOOD_DEFINITIONS[0].label);
+const [moodIntensity, setMoodIntensity] = useState<number | null>(null);
+const [checkInSlot, setCheckInSlot] = useState<CheckInSlot>(() => checkInSlotFor(new Date().getHours()));
+const [moodEmotions, setMoodEmotions] = useState<string[]>([]);
+const [moodTagsInput, setMoodTagsInput] = useState<string>("");
+const [moodActivities, setMoodActivities] = useState<string[]>([]);
+const [moodSleepHours, setMoodSleepHours] = useState<string>("");
+const [moodLocation, setMoodLocation] = useState<string>("");
+const [moodPeopleInput, setMoodPeopleInput] = useState<string>("");
+const [activityImpact, setActivityImpact] = useState<ActivityImpact | null>(null);
 const [moodData, setMoodData] = useState<MoodData[]>([]);
 const [rawMoodEntries, setRawMoodEntries] = useState<MoodEntry[]>([]);
+const [historyCursor, setHistoryCursor] = useState<string | null>(null);
+const [dailySummaries, setDailySummaries] = useState<Record<string, DailySummary>>({});
+const [isHistoryLoading, setIsHistoryLoading] = useState(false);
 const [geminiInsight, setGeminiInsight] = useState<string>(
   "Welcome to your mental health journey! 🌟\n\nStart by logging your mood to get personalized AI insights and recommendations."
 );
 
   // Wellness goals state
   const [wellnessGoals, setWellnessGoals] = useState<WellnessGoal[]>([]);
-  const [newGoal, setNewGoal] = useState({ title: '', description: '', category: 'daily' as 'daily' | 'weekly' | 'monthly' });
+  const [newGoal, setNewGoal] = useState({ title: '', description: '', category: 'daily' as 'daily' | 'weekly' | 'monthly', targetValue: 1 });
+  const [goalCheckinNotes, setGoalCheckinNotes] = useState<Record<string, string>>({});
+  const [expandedGoal, setExpandedGoal] = useState<{ goalId: string; period?: string } | null>(null);
+  const [selectedGoalIds, setSelectedGoalIds] = useState<string[]>([]);
+  const [showArchivedGoals, setShowArchivedGoals] = useState(false);
+  const [archivedGoals, setArchivedGoals] = useState<WellnessGoal[]>([]);
   const [isGoalsLoading, setIsGoalsLoading] = useState(false);
 
 
@@ -134,39 +356,72 @@ const [currentMonth, setCurrentMonth] = useState(new Date());
   const [isLoading, setIsLoading] = useState(false);
   const [activeTab, setActiveTab] = useState('dashboard');
   const [isEditingProfile, setIsEditingProfile] = useState(false);
+  const [showDeleteAccount, setShowDeleteAccount] = useState(false);
+  const [deleteConfirmation, setDeleteConfirmation] = useState('');
+  const [isDeletingAccount, setIsDeletingAccount] = useState(false);
+  const [showExportOptions, setShowExportOptions] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [showImportWizard, setShowImportWizard] = useState(false);
+  const [showPrivacySettings, setShowPrivacySettings] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
  
   // Refs
   const chartCanvasRef = useRef<HTMLCanvasElement>(null);
  
 
-  // Load user data on component mount
+  // Follow the signed-in session; the API rejects requests without one
+  useEffect(() => {
+    return authClient.onSessionChange((session) => {
+      if (!session) {
+        router.push('/login');
+        return;
+      }
+      setCurrentUserId(session.user.id);
+      setCurrentUserEmail(session.user.email || '');
+    });
+  }, [router]);
+
+  // Load user data once the session is known
   useEffect(() => {
+    if (!currentUserId) return;
     initializeUser();
+    fetchMoodDefinitions();
     fetchUserStats();
     fetchMoodData();
     loadWellnessGoals();
   }, [currentUserId]);
 
+  useEffect(() => {
+    if (currentUserId && showArchivedGoals) loadArchivedGoals();
+  }, [currentUserId, showArchivedGoals]);
+
   // Initialize or fetch user profile
   const initializeUser = async () => {
     try {
       setIsProfileLoading(true);
       
       // Try to fetch existing user
-      const response = await fetch(`/api/users?userId=${currentUserId}`);
+      const response = await apiFetch(`/api/users?userId=${currentUserId}`);
       
       if (response.ok) {
         const user = await response.json();
         setUserProfile(user);
       } else if (response.status === 404) {
+        // The account's deletion grace period ended; don't recreate it
+        const { receiptId } = await response.json();
+        if (receiptId) {
+          await leaveErasedAccount(receiptId);
+          return;
+        }
+
         // User doesn't exist, create new user
-        const createResponse = await fetch('/api/users', {
+        const createResponse = await apiFetch('/api/users', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             userId: currentUserId,
-            email: 'user@example.com', // This would come from your auth system
-            profile: {},
+            email: currentUserEmail,
+            profile: { timezone: BROWSER_TIME_ZONE },
             preferences: {}
           })
         });
@@ -183,10 +438,29 @@ const [currentMonth, setCurrentMonth] = useState(new Date());
     }
   };
 
+  // Fetch the user's mood vocabulary (deployment moods plus their own)
+  const fetchMoodDefinitions = async () => {
+    try {
+      const response = await apiFetch(`/api/mood-definitions?userId=${currentUserId}`);
+      if (response.ok) {
+        const definitions: MoodDefinition[] = await response.json();
+        if (definitions.length > 0) {
+          setMoodDefinitions(definitions);
+          setMoodState(prev => definitions.some(def => def.label === prev) ? prev : definitions[0].label);
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching mood definitions:', error);
+    }
+  };
+
+  const getMoodDefinition = (label: string): MoodDefinition =>
+    moodDefinitions.find(def => def.label === label) || { ...UNKNOWN_MOOD, label };
+
   // Fetch user statistics
   const fetchUserStats = async () => {
     try {
-      const response = await fetch(`/api/user-stats?userId=${currentUserId}`);
+      const response = await apiFetch(`/api/user-stats?userId=${currentUserId}`);
       if (response.ok) {
         const stats = await response.json();
         setUserStats(stats);
@@ -196,6 +470,32 @@ const [currentMonth, setCurrentMonth] = useState(new Date());
     }
   };
 
+  // Fetch one page of /api/moods/history, retrying transient failures
+  const fetchHistoryPage = useCallback(async (params: Record<string, string>, retries = 2): Promise<MoodHistoryPage> => {
+    const query = new URLSearchParams({ userId: currentUserId, ...params });
+    const url = `/api/moods/history?${query.toString()}`;
+
+    for (let attempt = 1; attempt <= retries + 1; attempt++) {
+      try {
+        const response = await apiFetch(url, { cache: 'no-store' });
+        if (!response.ok) {
+          const errorText = await response.text();
+          console.error(`Fetch failed with status ${response.status} on attempt ${attempt}/${retries + 1}:`, errorText);
+          throw new Error(`HTTP error ${response.status}: ${errorText}`);
+        }
+        return await response.json();
+      } catch (error) {
+        if (attempt <= retries) {
+          console.warn(`Retrying fetch (attempt ${attempt}/${retries}) due to error:`, error);
+          await new Promise(resolve => setTimeout(resolve, 1500)); // Wait 1.5s before retry
+          continue;
+        }
+        throw error;
+      }
+    }
+    throw new Error('Max retries reached');
+  }, [currentUserId]);
+
   const fetchMoodData = async () => {
   try {
     if (!currentUserId) {
@@ -204,71 +504,112 @@ const [currentMonth, setCurrentMonth] = useState(new Date());
 
     console.log('Fetching mood data for userId:', currentUserId);
 
-    // Helper function to fetch with retry
-    const fetchWithRetry = async (url: string, retries = 2): Promise<MoodEntry[]> => {
-      for (let attempt = 1; attempt <= retries + 1; attempt++) {
-        try {
-          const response = await fetch(url, { cache: 'no-store' });
-          if (!response.ok) {
-            const errorText = await response.text();
-            console.error(`Fetch failed with status ${response.status} on attempt ${attempt}/${retries + 1}:`, errorText);
-            throw new Error(`HTTP error ${response.status}: ${errorText}`);
-          }
-          const data: MoodEntry[] = await response.json();
-          console.log('Fetched raw mood data:', data);
-          return data;
-        } catch (error) {
-          if (attempt <= retries) {
-            console.warn(`Retrying fetch (attempt ${attempt}/${retries}) due to error:`, error);
-            await new Promise(resolve => setTimeout(resolve, 1500)); // Wait 1.5s before retry
-            continue;
-          }
-          throw error;
-        }
-      }
-      throw new Error('Max retries reached');
-    };
-
-    // Fetch raw mood entries from /api/moods/raw
-    const rawData: MoodEntry[] = await fetchWithRetry(`/api/moods/raw?userId=${currentUserId}`);
-    console.log('Raw mood entries from /api/moods/raw:', rawData);
-    setRawMoodEntries(rawData);
-
-    // Process raw data for pie chart and moodData
-    if (rawData && rawData.length > 0) {
-      const moodCounts = rawData.reduce(
-        (acc: Record<string, number>, entry: MoodEntry) => {
-          acc[entry.moodState] = (acc[entry.moodState] || 0) + 1;
-          return acc;
-        },
-        { Happy: 0, Sad: 0, Stressed: 0 }
-      );
-
-      setMoodData(
-        Object.entries(moodCounts).map(([state, count]) => ({
-          state,
-          count: count as number,
-        })) as MoodData[]
-      );
-    } else {
-      console.log('No mood data available, setting default moodData');
-      setMoodData([
-        { state: 'Happy', count: 0 },
-        { state: 'Sad', count: 0 },
-        { state: 'Stressed', count: 0 }
-      ]);
-    }
+    // Latest page only; older history is paged in on demand
+    const page = await fetchHistoryPage({ limit: String(HISTORY_PAGE_SIZE) });
+    setRawMoodEntries(page.entries);
+    setHistoryCursor(page.nextCursor);
   }  catch (error: unknown) {
   console.error('Error fetching mood data:', error instanceof Error ? error.message : 'Unknown error', error instanceof Error ? error.stack : '');
-  setMoodData([
-    { state: 'Happy', count: 0 },
-    { state: 'Sad', count: 0 },
-    { state: 'Stressed', count: 0 }
-  ]);
   setRawMoodEntries([]);
+  setHistoryCursor(null);
   }
 };
 
+  // Load the next (older) page of history into the loaded entries
+  const loadOlderMoods = async () => {
+    if (!historyCursor || isHistoryLoading) return;
+    try {
+      setIsHistoryLoading(true);
+      const page = await fetchHistoryPage({ limit: String(HISTORY_PAGE_SIZE), cursor: historyCursor });
+      setRawMoodEntries(prev => mergeMoodEntries(prev, page.entries));
+      setHistoryCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading older moods:', error);
+    } finally {
+      setIsHistoryLoading(false);
+    }
+  };
+
+  // Make sure every entry of the month shown in the calendar is loaded, however old it is
+  const loadMonthMoods = useCallback(async (month: Date) => {
+    try {
+      const from = new Date(month.getFullYear(), month.getMonth(), 1);
+      const to = new Date(month.getFullYear(), month.getMonth() + 1, 1);
+      to.setMilliseconds(-1);
+
+      let cursor: string | null = null;
+      do {
+        const params: Record<string, string> = {
+          limit: '200',
+          from: from.toISOString(),
+          to: to.toISOString(),
+        };
+        if (cursor) params.cursor = cursor;
+        const page = await fetchHistoryPage(params);
+        setRawMoodEntries(prev => mergeMoodEntries(prev, page.entries));
+        cursor = page.nextCursor;
+      } while (cursor);
+    } catch (error) {
+      console.error('Error loading moods for month:', error);
+    }
+  }, [fetchHistoryPage]);
+
+  useEffect(() => {
+    if (!currentUserId) return;
+    loadMonthMoods(currentMonth);
+  }, [currentMonth, currentUserId, loadMonthMoods]);
+
+  // Per-day summaries of every check-in for the calendar month
+  const loadMonthSummaries = async (month: Date) => {
+    try {
+      const from = new Date(month.getFullYear(), month.getMonth(), 1);
+      const to = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+      const params = new URLSearchParams({ from: dayKey(from), to: dayKey(to) });
+      const response = await apiFetch(`/api/moods/daily?${params}`);
+      if (!response.ok) return;
+      const data: { days: DailySummary[] } = await response.json();
+      setDailySummaries(prev => ({
+        ...prev,
+        ...Object.fromEntries(data.days.map(day => [day.date, day]))
+      }));
+    } catch (error) {
+      console.error('Error loading daily summaries:', error);
+    }
+  };
+
+  // Entry count changes whenever a mood is logged, deleted or restored
+  useEffect(() => {
+    if (!currentUserId) return;
+    setDailySummaries({});
+    loadMonthSummaries(currentMonth);
+  }, [currentMonth, currentUserId, userStats.totalMoodEntries]);
+
+  // Keep the per-state counts in sync with whatever history is loaded
+  useEffect(() => {
+    const moodCounts = rawMoodEntries.reduce(
+      (acc: Record<string, number>, entry: MoodEntry) => {
+        acc[entry.moodState] = (acc[entry.moodState] || 0) + 1;
+        return acc;
+      },
+      Object.fromEntries(moodDefinitions.map(def => [def.label, 0])) as Record<string, number>
+    );
+
+    setMoodData(
+      Object.entries(moodCounts).map(([state, count]) => {
+        const intensities = rawMoodEntries
+          .filter(entry => entry.moodState === state && typeof entry.intensity === 'number')
+          .map(entry => entry.intensity as number);
+        return {
+          state,
+          count,
+          averageIntensity: intensities.length > 0
+            ? Math.round((intensities.reduce((a, b) => a + b, 0) / intensities.length) * 10) / 10
+            : null
+        };
+      })
+    );
+  }, [rawMoodEntries, moodDefinitions]);
+
 
 const drawMoodPieChart = useCallback(() => {
   if (!chartCanvasRef.current) return;
@@ -290,11 +631,7 @@ const drawMoodPieChart = useCallback(() => {
   
   const labels = moodData.map((d) => d.state);
   const data = moodData.map((d) => d.count);
-  const colors = [
-    '#10B981', // Happy: Green
-    '#EF4444', // Sad: Red  
-    '#F59E0B', // Stressed: Orange
-  ];
+  const colors = moodData.map((d) => moodDefinitions.find(def => def.label === d.state)?.color || UNKNOWN_MOOD.color);
   
   // Calculate total
   const total = data.reduce((sum, value) => sum + value, 0);
@@ -374,7 +711,7 @@ const drawMoodPieChart = useCallback(() => {
     ctx.fillText(`${data[index]}`, legendX, legendY + 40);
   });
   
-}, [moodData]);
+}, [moodData, moodDefinitions]);
 
 useEffect(() => {
   if (activeTab === 'analytics') {
@@ -387,6 +724,30 @@ useEffect(() => {
   }
 }, [activeTab, moodData, rawMoodEntries, drawMoodPieChart]);
 
+  // Which activities, people and places go with better or worse moods (last 90 days).
+  // Worked out on every visit, so it isn't stored as an analysis.
+  const fetchActivityImpact = useCallback(async () => {
+    try {
+      const response = await apiFetch('/api/analytics/mood-pattern', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId: currentUserId, timeRange: 90, includeRecommendations: false, save: false })
+      });
+      if (response.ok) {
+        const result = await response.json();
+        setActivityImpact(result.analysis?.activityImpact || null);
+      }
+    } catch (error) {
+      console.error('Error fetching activity impact:', error);
+    }
+  }, [currentUserId]);
+
+  useEffect(() => {
+    if (activeTab === 'analytics' && currentUserId) {
+      fetchActivityImpact();
+    }
+  }, [activeTab, userStats.totalMoodEntries, currentUserId, fetchActivityImpact]);
+
  
 
 const renderAnalyticsTab = () => (
@@ -471,9 +832,7 @@ const renderAnalyticsTab = () => (
                   <tr key={index} className="border-b border-gray-100">
                     <td className="py-3 px-4">
                       <div className="flex items-center space-x-2">
-                        <span className="text-lg">
-                          {mood.state === 'Happy' ? '😊' : mood.state === 'Stressed' ? '😰' : '😢'}
-                        </span>
+                        <span className="text-lg">{getMoodEmoji(mood.state)}</span>
                         <span className="font-medium">{mood.state}</span>
                       </div>
                     </td>
@@ -482,11 +841,8 @@ const renderAnalyticsTab = () => (
                     <td className="py-3 px-4">
                       <div className="w-full bg-gray-200 rounded-full h-2">
                         <div
-                          className={`h-2 rounded-full ${
-                            mood.state === 'Happy' ? 'bg-green-500' :
-                            mood.state === 'Stressed' ? 'bg-orange-500' : 'bg-red-500'
-                          }`}
-                          style={{ width: `${percentage}%` }}
+                          className="h-2 rounded-full"
+                          style={{ width: `${percentage}%`, backgroundColor: getMoodColor(mood.state) }}
                         />
                       </div>
                     </td>
@@ -502,47 +858,23 @@ const renderAnalyticsTab = () => (
 );
 
  
-const getMoodForDate = (date: Date) => {
-  const dateString = date.toISOString().split('T')[0];
-
-  const moodsForDate = rawMoodEntries.filter(entry => {
-    // Check if timestamp exists and is valid
-    if (!entry.timestamp || isNaN(new Date(entry.timestamp).getTime())) {
-      console.warn(`Invalid timestamp for entry: ${JSON.stringify(entry)}`);
-      return false; // Skip entries with invalid timestamps
-    }
-
-    const entryDate = new Date(entry.timestamp).toISOString().split('T')[0];
-    return entryDate === dateString;
-  });
-
-  if (moodsForDate.length === 0) return null;
-
-  // Get the most recent mood for that date
-  const latestMood = moodsForDate.sort((a, b) =>
-    new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-  )[0];
-
-  return latestMood.moodState;
+// Every check-in of the day, from /api/moods/daily
+const getSummaryForDate = (date: Date): DailySummary | null =>
+  dailySummaries[dayKey(date)] || null;
+
+// e.g. "3 check-ins: 🌅 Happy → ☀️ Sad → 🌙 Neutral · swing 1.5"
+const describeDay = (summary: DailySummary) => {
+  const checkIns = summary.checkIns.map(checkIn =>
+    `${CHECK_IN_SLOTS.find(slot => slot.id === checkIn.checkInSlot)?.emoji || ''} ${checkIn.moodState}`.trim()
+  ).join(' → ');
+  const swing = summary.valenceRange ? ` · swing ${summary.valenceRange}` : '';
+  return summary.entries === 1 ? `Mood: ${checkIns}` : `${summary.entries} check-ins: ${checkIns}${swing}`;
 };
 
-const getMoodEmoji = (moodState: string) => {
-  switch (moodState) {
-    case 'Happy': return '😊';
-    case 'Sad': return '😢';
-    case 'Stressed': return '😰';
-    default: return '';
-  }
-};
+const getMoodEmoji = (moodState: string) => getMoodDefinition(moodState).emoji;
 
-const getMoodColor = (moodState: string) => {
-  switch (moodState) {
-    case 'Happy': return 'bg-green-500';
-    case 'Sad': return 'bg-red-500';
-    case 'Stressed': return 'bg-orange-500';
-    default: return 'bg-gray-300';
-  }
-};
+// Hex color of the mood, e.g. #10B981
+const getMoodColor = (moodState: string) => getMoodDefinition(moodState).color;
 
 const generateCalendarDays = () => {
   const year = currentMonth.getFullYear();
@@ -553,22 +885,23 @@ const generateCalendarDays = () => {
   startDate.setDate(startDate.getDate() - firstDay.getDay());
   
   const days = [];
-  const today = new Date();
+  const today = zonedNow(userProfile?.profile?.timezone).dateKey;
   
   for (let i = 0; i < 42; i++) {
     const date = new Date(startDate);
     date.setDate(startDate.getDate() + i);
     
     const isCurrentMonth = date.getMonth() === month;
-    const isToday = date.toDateString() === today.toDateString();
-    const mood = getMoodForDate(date);
+    const isToday = dayKey(date) === today;
+    const summary = getSummaryForDate(date);
     
     days.push({
       date,
       day: date.getDate(),
       isCurrentMonth,
       isToday,
-      mood
+      mood: summary?.dominantMood || null,
+      summary
     });
   }
   
@@ -591,7 +924,7 @@ const navigateMonth = (direction: 'prev' | 'next') => {
   const loadWellnessGoals = async () => {
     try {
       setIsGoalsLoading(true);
-      const response = await fetch(`/api/wellness-goals?userId=${currentUserId}`);
+      const response = await apiFetch(`/api/wellness-goals?userId=${currentUserId}`);
       if (response.ok) {
         const goals = await response.json();
         setWellnessGoals(goals);
@@ -608,7 +941,7 @@ const navigateMonth = (direction: 'prev' | 'next') => {
     if (!newGoal.title.trim()) return;
 
     try {
-      const response = await fetch('/api/wellness-goals', {
+      const response = await apiFetch('/api/wellness-goals', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -618,7 +951,7 @@ const navigateMonth = (direction: 'prev' | 'next') => {
       });
 
       if (response.ok) {
-        setNewGoal({ title: '', description: '', category: 'daily' });
+        setNewGoal({ title: '', description: '', category: 'daily', targetValue: 1 });
         loadWellnessGoals();
       }
     } catch (error) {
@@ -626,26 +959,123 @@ const navigateMonth = (direction: 'prev' | 'next') => {
     }
   };
 
+  const loadArchivedGoals = async () => {
+    try {
+      const response = await apiFetch('/api/wellness-goals?archived=true');
+      if (response.ok) {
+        setArchivedGoals(await response.json());
+      }
+    } catch (error) {
+      console.error('Error loading archived goals:', error);
+    }
+  };
+
   // Update goal progress
   const updateGoalProgress = async (goalId: string, isCompleted: boolean) => {
     try {
-      const response = await fetch('/api/wellness-goals', {
-        method: 'PUT',
+      const response = await apiFetch(`/api/wellness-goals/${goalId}`, {
+        method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ goalId, isCompleted })
+        body: JSON.stringify({ isCompleted })
       });
 
       if (response.ok) {
+        const data: { achievements?: Achievement[] } = await response.json();
         loadWellnessGoals();
+        announceAchievements(data.achievements);
       }
     } catch (error) {
       console.error('Error updating goal:', error);
     }
   };
 
-const updateUserProfile = async (profileData: Partial<UserProfile>) => {
+  // Record progress on a goal; it completes itself once the target is reached
+  const checkInGoal = async (goalId: string, amount: number) => {
+    try {
+      const response = await apiFetch('/api/wellness-goals/checkins', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ goalId, amount, note: goalCheckinNotes[goalId] || '' })
+      });
+
+      if (response.ok) {
+        const data: { achievements?: Achievement[] } = await response.json();
+        setGoalCheckinNotes(notes => ({ ...notes, [goalId]: '' }));
+        loadWellnessGoals();
+        announceAchievements(data.achievements);
+      }
+    } catch (error) {
+      console.error('Error checking in on goal:', error);
+    }
+  };
+
+  // Move a goal to the trash (restorable from Account Actions → Trash)
+  const deleteWellnessGoal = async (goalId: string) => {
+    try {
+      const response = await apiFetch(`/api/wellness-goals/${goalId}`, { method: 'DELETE' });
+
+      if (response.ok) {
+        setWellnessGoals(goals => goals.filter(goal => goal._id !== goalId));
+        setArchivedGoals(goals => goals.filter(goal => goal._id !== goalId));
+      }
+    } catch (error) {
+      console.error('Error deleting goal:', error);
+    }
+  };
+
+  // Archived goals keep their history but leave the list and stop rolling over
+  const setGoalArchived = async (goalId: string, archived: boolean) => {
+    try {
+      const response = await apiFetch(`/api/wellness-goals/${goalId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ archived })
+      });
+
+      if (response.ok) {
+        loadWellnessGoals();
+        if (showArchivedGoals) loadArchivedGoals();
+      }
+    } catch (error) {
+      console.error('Error archiving goal:', error);
+    }
+  };
+
+  const runBulkGoalAction = async (action: 'archive' | 'unarchive' | 'delete' | 'reorder', goalIds: string[]) => {
+    try {
+      const response = await apiFetch('/api/wellness-goals/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, goalIds })
+      });
+
+      if (response.ok) {
+        setSelectedGoalIds([]);
+        loadWellnessGoals();
+        if (showArchivedGoals) loadArchivedGoals();
+      }
+    } catch (error) {
+      console.error('Error updating goals:', error);
+    }
+  };
+
+  // Swaps a goal with its neighbour in the same category
+  const moveGoal = (goal: WellnessGoal, direction: -1 | 1) => {
+    const ids = wellnessGoals.filter(other => other.category === goal.category).map(other => other._id!);
+    const from = ids.indexOf(goal._id!);
+    const to = from + direction;
+    if (to < 0 || to >= ids.length) return;
+    [ids[from], ids[to]] = [ids[to], ids[from]];
+    runBulkGoalAction('reorder', ids);
+  };
+
+  const toggleGoalSelected = (goalId: string) => {
+    setSelectedGoalIds(ids => ids.includes(goalId) ? ids.filter(id => id !== goalId) : [...ids, goalId]);
+  };
+
+const updateUserProfile = async (profileData: Partial<Omit<UserProfile, 'profile'>> & { profile?: ProfileFormData }) => {
   try {
-    const response = await fetch('/api/users', {
+    const response = await apiFetch('/api/users', {
       method: 'PUT',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
@@ -658,11 +1088,112 @@ const updateUserProfile = async (profileData: Partial<UserProfile>) => {
       const updatedUser: UserProfile = await response.json();
       setUserProfile(updatedUser);
       setIsEditingProfile(false);
+    } else {
+      const result = await response.json();
+      alert(result.fields?.[0] ? `${result.fields[0].field} ${result.fields[0].message}` : result.error);
     }
   } catch (error) {
     console.error('Error updating profile:', error);
   }
 };
+
+  // Streaks are recomputed under the new rules right away
+  const updateStreakRules = async (rules: { graceDays?: number; weeklyTarget?: number }) => {
+    if (!userProfile) return;
+    await updateUserProfile({
+      preferences: {
+        ...userProfile.preferences,
+        streaks: { ...userProfile.preferences.streaks, ...rules }
+      }
+    });
+    fetchUserStats();
+  };
+
+  // Download an export; the printable report opens in a new tab instead
+  const exportData = async (format: 'json' | 'csv' | 'html', collection?: string) => {
+    try {
+      setIsExporting(true);
+      const query = new URLSearchParams({ format, ...(collection ? { collection } : {}) });
+      const response = await apiFetch(`/api/export?${query}`);
+      if (!response.ok) {
+        const result = await response.json();
+        alert(result.error || 'Export failed');
+        return;
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      if (format === 'html') {
+        window.open(url, '_blank');
+      } else {
+        const filename = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || `taskeen-export.${format}`;
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        link.click();
+      }
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (error) {
+      console.error('Error exporting data:', error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Only the changed consent is sent; the server stamps privacy.updatedAt
+  const updatePrivacy = (processor: PrivacyProcessor, change: { enabled?: boolean; text?: 'none' | 'redacted' | 'full' }) => {
+    if (!userProfile) return;
+    updateUserProfile({ preferences: { ...userProfile.preferences, privacy: { [processor]: change } } });
+  };
+
+  const leaveErasedAccount = async (receiptId: string) => {
+    await authClient.signOut();
+    router.push(`/login?erased=${receiptId}`);
+  };
+
+  // Schedule (or, without a grace period, perform) account deletion
+  const deleteAccount = async () => {
+    try {
+      setIsDeletingAccount(true);
+      const response = await apiFetch('/api/users', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId: currentUserId, confirm: deleteConfirmation })
+      });
+      const result = await response.json();
+
+      if (response.status === 200) {
+        await leaveErasedAccount(result.receiptId);
+      } else if (response.status === 202 || response.status === 409) {
+        const { requestedAt, scheduledFor, receiptId } = result;
+        setUserProfile(prev => prev ? { ...prev, deletion: { requestedAt, scheduledFor, receiptId } } : prev);
+        setShowDeleteAccount(false);
+        setDeleteConfirmation('');
+      } else {
+        alert(result.fields?.[0]?.message ? `Confirmation ${result.fields[0].message}` : result.error);
+      }
+    } catch (error) {
+      console.error('Error deleting account:', error);
+    } finally {
+      setIsDeletingAccount(false);
+    }
+  };
+
+  const cancelAccountDeletion = async () => {
+    try {
+      const response = await apiFetch('/api/users/restore', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId: currentUserId })
+      });
+
+      if (response.ok) {
+        const restoredUser: UserProfile = await response.json();
+        setUserProfile(restoredUser);
+      }
+    } catch (error) {
+      console.error('Error cancelling account deletion:', error);
+    }
+  };
   // Existing functions (suggestions, charts, etc.)
   const getSuggestions = async (text: string) => {
     if (text.length >= 2) {
@@ -709,7 +1240,7 @@ const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
 
   try {
     // Save mood to MongoDB
-    const moodResponse = await fetch('/api/moods', {
+    const moodResponse = await apiFetch('/api/moods', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
@@ -717,20 +1248,32 @@ const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
         moodState,
         userId: currentUserId,
         timestamp: new Date().toISOString(),
+        intensity: moodIntensity,
+        checkInSlot,
+        emotions: moodEmotions,
+        tags: moodTagsInput.split(',').map(tag => tag.trim()).filter(Boolean),
+        context: {
+          activities: moodActivities,
+          sleepHours: moodSleepHours === '' ? null : Number(moodSleepHours),
+          location: moodLocation.trim() || null,
+          people: moodPeopleInput.split(',').map(person => person.trim()).filter(Boolean)
+        },
       }),
     });
 
     if (!moodResponse.ok) {
       throw new Error('Failed to save mood');
     }
+    const { achievements: earnedBadges }: { achievements?: Achievement[] } = await moodResponse.json();
 
     // Fetch AI recommendations from /api/ollama/recommendations
-    const recommendationResponse = await fetch('/api/ollama/recommendations', {
+    const recommendationResponse = await apiFetch('/api/ollama/recommendations', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
         moodText,
         moodState,
+        userId: currentUserId,
         recentMoods: rawMoodEntries.slice(-5).map((entry) => entry.moodState),
       }),
     });
@@ -764,12 +1307,21 @@ const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
 
     // Refresh data
     setMoodText('');
-    setMoodState('Happy');
+    setMoodState(moodDefinitions[0]?.label || FALLBACK_MOOD_DEFINITIONS[0].label);
+    setMoodIntensity(null);
+    setCheckInSlot(checkInSlotFor(zonedNow(userProfile?.profile?.timezone).hour));
+    setMoodEmotions([]);
+    setMoodTagsInput('');
+    setMoodActivities([]);
+    setMoodSleepHours('');
+    setMoodLocation('');
+    setMoodPeopleInput('');
     setShowSuggestions(false);
     fetchMoodData();
     fetchUserStats();
 
     alert('Mood saved and recommendations generated successfully!');
+    announceAchievements(earnedBadges);
   } catch (error) {
     console.error('Error in handleSubmit:', error);
     setGeminiInsight('Error generating recommendations. Please try again.');
@@ -836,10 +1388,25 @@ const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
                     <div className="text-2xl font-bold text-emerald-600">{userStats.weekPercentage}%</div>
                     <div className="text-xs text-gray-500">This Week</div>
                   </div>
+                  {userStats.weeklyStreak && (
+                    <div className="text-center">
+                      <div className="text-2xl font-bold text-cyan-600">{userStats.weeklyStreak.current}</div>
+                      <div className="text-xs text-gray-500">Week Streak</div>
+                    </div>
+                  )}
+                  <div className="text-center" title="Earned every 7 days logged; covers a missed day once your grace days are used">
+                    <div className="text-2xl font-bold text-sky-600">🧊 {userStats.streakFreezes ?? 0}</div>
+                    <div className="text-xs text-gray-500">Freezes</div>
+                  </div>
                 </div>
               </div>
             </div>
 
+            <StreakMilestoneBanner
+              milestones={userStats.streakMilestones || []}
+              today={zonedNow(userProfile?.profile?.timezone).dateKey}
+            />
+
             {/* Two Column Layout */}
             <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
               {/* Left Column - Mood Logging */}
@@ -892,66 +1459,224 @@ const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
                       <select
                         id="moodState"
                         value={moodState}
-                        onChange={(e) => setMoodState(e.target.value as "Happy" | "Sad" | "Stressed")}
+                        onChange={(e) => setMoodState(e.target.value)}
                         className="w-full px-4 py-4 bg-gray-50/70 border border-gray-200/50 rounded-2xl focus:ring-2 focus:ring-teal-400/50 focus:border-transparent transition-all duration-300 text-gray-700 shadow-md"
                       >
-                        <option value="Happy">😊 Happy - Feeling positive and upbeat</option>
-                        <option value="Sad">😢 Sad - Feeling down or melancholy</option>
-                        <option value="Stressed">😰 Stressed - Feeling overwhelmed or anxious</option>
+                        {moodDefinitions.map((def) => (
+                          <option key={def.label} value={def.label}>
+                            {def.emoji} {def.label}{def.description ? ` - ${def.description}` : ''}
+                          </option>
+                        ))}
                       </select>
                     </div>
 
-                    <button
-                      type="submit"
-                      disabled={isLoading || !moodText.trim()}
-                      className="w-full bg-gradient-to-r from-teal-500/80 to-emerald-500/80 hover:from-teal-600/80 hover:to-emerald-600/80 text-white font-semibold py-4 px-6 rounded-2xl transition-all duration-300 transform hover:scale-105 hover:shadow-xl focus:ring-2 focus:ring-teal-400/50 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none flex items-center justify-center space-x-2"
-                    >
-                      {isLoading ? (
-                        <>
-                          <svg className="animate-spin h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                          </svg>
-                          <span>Analyzing with AI...</span>
-                        </>
-                      ) : (
-                        <>
-                          <span>Save & Analyze Mood</span>
-                          <span className="text-xl">🤖</span>
-                        </>
-                      )}
-                    </button>
-                  </form>
-                </div>
-              </div>
-
-              {/* Right Column - Stats & Quick Actions */}
-              <div className="space-y-6">
-                {/* Today's Mood Stats */}
-                <div className="bg-white/70 backdrop-blur-md rounded-3xl shadow-2xl p-6 border border-emerald-200/50">
-                  <div className="flex items-center space-x-3 mb-4">
-                    <div className="w-8 h-8 bg-gradient-to-br from-teal-400/80 to-emerald-500/80 rounded-xl flex items-center justify-center">
-                      <span className="text-lg text-white">📊</span>
+                    <div className="space-y-2">
+                      <span className="block text-sm font-medium text-gray-700">Check-in</span>
+                      <div className="grid grid-cols-3 gap-2">
+                        {CHECK_IN_SLOTS.map(slot => (
+                          <button
+                            key={slot.id}
+                            type="button"
+                            onClick={() => setCheckInSlot(slot.id)}
+                            className={`py-2 rounded-xl text-sm border transition-all duration-300 ${
+                              checkInSlot === slot.id
+                                ? 'bg-teal-500/80 border-teal-500 text-white'
+                                : 'bg-gray-50/70 border-gray-200/50 text-gray-700 hover:bg-teal-50'
+                            }`}
+                          >
+                            {slot.emoji} {slot.label}
+                          </button>
+                        ))}
+                      </div>
                     </div>
-                    <h3 className="text-lg font-bold text-gray-800">Today's Overview</h3>
+
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <label htmlFor="moodIntensity" className="block text-sm font-medium text-gray-700">
+                          Intensity {moodIntensity !== null ? `(${moodIntensity}/10)` : '(optional)'}
+                        </label>
+                        {moodIntensity !== null && (
+                          <button
+                            type="button"
+                            onClick={() => setMoodIntensity(null)}
+                            className="text-xs text-gray-500 hover:text-gray-700"
+                          >
+                            Clear
+                          </button>
+                        )}
+                      </div>
+                      <input
+                        id="moodIntensity"
+                        type="range"
+                        min={1}
+                        max={10}
+                        value={moodIntensity ?? 5}
+                        onChange={(e) => setMoodIntensity(parseInt(e.target.value))}
+                        className={`w-full accent-teal-500 ${moodIntensity === null ? 'opacity-40' : ''}`}
+                      />
+                      <div className="flex justify-between text-xs text-gray-400">
+                        <span>Mild</span>
+                        <span>Intense</span>
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <span className="block text-sm font-medium text-gray-700">Other emotions</span>
+                      <div className="flex flex-wrap gap-2">
+                        {EMOTION_OPTIONS.map(emotion => {
+                          const isSelected = moodEmotions.includes(emotion.value);
+                          return (
+                            <button
+                              key={emotion.value}
+                              type="button"
+                              onClick={() => setMoodEmotions(prev =>
+                                isSelected ? prev.filter(e => e !== emotion.value) : [...prev, emotion.value]
+                              )}
+                              className={`px-3 py-1.5 rounded-full text-sm border transition-all duration-200 ${
+                                isSelected
+                                  ? 'bg-teal-500/80 border-teal-500 text-white'
+                                  : 'bg-gray-50/70 border-gray-200/50 text-gray-600 hover:border-teal-300'
+                              }`}
+                            >
+                              {emotion.emoji} {emotion.label}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <label htmlFor="moodTags" className="block text-sm font-medium text-gray-700">
+                        Tags
+                      </label>
+                      <input
+                        id="moodTags"
+                        type="text"
+                        value={moodTagsInput}
+                        onChange={(e) => setMoodTagsInput(e.target.value)}
+                        placeholder="e.g. exams, family, weekend"
+                        className="w-full px-4 py-3 bg-gray-50/70 border border-gray-200/50 rounded-2xl focus:ring-2 focus:ring-teal-400/50 focus:border-transparent transition-all duration-300 placeholder-gray-400 text-gray-700 shadow-md"
+                      />
+                      <p className="text-xs text-gray-400">Separate tags with commas</p>
+                    </div>
+
+                    <div className="space-y-2">
+                      <span className="block text-sm font-medium text-gray-700">What were you doing?</span>
+                      <div className="flex flex-wrap gap-2">
+                        {ACTIVITY_OPTIONS.map(activity => {
+                          const isSelected = moodActivities.includes(activity.value);
+                          return (
+                            <button
+                              key={activity.value}
+                              type="button"
+                              onClick={() => setMoodActivities(prev =>
+                                isSelected ? prev.filter(a => a !== activity.value) : [...prev, activity.value]
+                              )}
+                              className={`px-3 py-1.5 rounded-full text-sm border capitalize transition-all duration-200 ${
+                                isSelected
+                                  ? 'bg-teal-500/80 border-teal-500 text-white'
+                                  : 'bg-gray-50/70 border-gray-200/50 text-gray-600 hover:border-teal-300'
+                              }`}
+                            >
+                              {activity.emoji} {activity.value}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                      <div className="space-y-2">
+                        <label htmlFor="moodSleepHours" className="block text-sm font-medium text-gray-700">
+                          Sleep (hours)
+                        </label>
+                        <input
+                          id="moodSleepHours"
+                          type="number"
+                          min={0}
+                          max={24}
+                          step={0.5}
+                          value={moodSleepHours}
+                          onChange={(e) => setMoodSleepHours(e.target.value)}
+                          placeholder="e.g. 7.5"
+                          className="w-full px-4 py-3 bg-gray-50/70 border border-gray-200/50 rounded-2xl focus:ring-2 focus:ring-teal-400/50 focus:border-transparent transition-all duration-300 placeholder-gray-400 text-gray-700 shadow-md"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <label htmlFor="moodLocation" className="block text-sm font-medium text-gray-700">
+                          Location
+                        </label>
+                        <input
+                          id="moodLocation"
+                          type="text"
+                          value={moodLocation}
+                          onChange={(e) => setMoodLocation(e.target.value)}
+                          placeholder="e.g. home, office"
+                          className="w-full px-4 py-3 bg-gray-50/70 border border-gray-200/50 rounded-2xl focus:ring-2 focus:ring-teal-400/50 focus:border-transparent transition-all duration-300 placeholder-gray-400 text-gray-700 shadow-md"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <label htmlFor="moodPeople" className="block text-sm font-medium text-gray-700">
+                          People
+                        </label>
+                        <input
+                          id="moodPeople"
+                          type="text"
+                          value={moodPeopleInput}
+                          onChange={(e) => setMoodPeopleInput(e.target.value)}
+                          placeholder="e.g. friends, partner"
+                          className="w-full px-4 py-3 bg-gray-50/70 border border-gray-200/50 rounded-2xl focus:ring-2 focus:ring-teal-400/50 focus:border-transparent transition-all duration-300 placeholder-gray-400 text-gray-700 shadow-md"
+                        />
+                      </div>
+                    </div>
+
+                    <button
+                      type="submit"
+                      disabled={isLoading || !moodText.trim()}
+                      className="w-full bg-gradient-to-r from-teal-500/80 to-emerald-500/80 hover:from-teal-600/80 hover:to-emerald-600/80 text-white font-semibold py-4 px-6 rounded-2xl transition-all duration-300 transform hover:scale-105 hover:shadow-xl focus:ring-2 focus:ring-teal-400/50 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none flex items-center justify-center space-x-2"
+                    >
+                      {isLoading ? (
+                        <>
+                          <svg className="animate-spin h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                          </svg>
+                          <span>Analyzing with AI...</span>
+                        </>
+                      ) : (
+                        <>
+                          <span>Save & Analyze Mood</span>
+                          <span className="text-xl">🤖</span>
+                        </>
+                      )}
+                    </button>
+                  </form>
+                </div>
+              </div>
+
+              {/* Right Column - Stats & Quick Actions */}
+              <div className="space-y-6">
+                {/* Today's Mood Stats */}
+                <div className="bg-white/70 backdrop-blur-md rounded-3xl shadow-2xl p-6 border border-emerald-200/50">
+                  <div className="flex items-center space-x-3 mb-4">
+                    <div className="w-8 h-8 bg-gradient-to-br from-teal-400/80 to-emerald-500/80 rounded-xl flex items-center justify-center">
+                      <span className="text-lg text-white">📊</span>
+                    </div>
+                    <h3 className="text-lg font-bold text-gray-800">Today's Overview</h3>
                   </div>
                   
                   <div className="space-y-4">
                     {moodData.map((mood, index) => (
-                      <div key={index} className={`flex items-center justify-between p-3 rounded-xl ${
-                        mood.state === 'Happy' ? 'bg-green-50/50' :
-                        mood.state === 'Stressed' ? 'bg-orange-50/50' : 'bg-red-50/50'
-                      }`}>
+                      <div
+                        key={index}
+                        className="flex items-center justify-between p-3 rounded-xl"
+                        style={{ backgroundColor: `${getMoodColor(mood.state)}14` }}
+                      >
                         <div className="flex items-center space-x-2">
-                          <span className="text-2xl">
-                            {mood.state === 'Happy' ? '😊' : mood.state === 'Stressed' ? '😰' : '😢'}
-                          </span>
+                          <span className="text-2xl">{getMoodEmoji(mood.state)}</span>
                           <span className="text-sm font-medium text-gray-700">{mood.state}</span>
                         </div>
-                        <span className={`text-lg font-bold ${
-                          mood.state === 'Happy' ? 'text-green-600' :
-                          mood.state === 'Stressed' ? 'text-orange-600' : 'text-red-600'
-                        }`}>{mood.count}</span>
+                        <span className="text-lg font-bold" style={{ color: getMoodColor(mood.state) }}>{mood.count}</span>
                       </div>
                     ))}
                   </div>
@@ -1052,7 +1777,7 @@ case 'analytics':
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <div className="bg-white/70 backdrop-blur-md rounded-2xl shadow-lg p-6 border border-blue-200/50">
           <div className="text-center">
-            <div className="text-3xl font-bold text-blue-600">{rawMoodEntries.length}</div>
+            <div className="text-3xl font-bold text-blue-600">{userStats.totalMoodEntries}</div>
             <div className="text-sm text-gray-600">Total Entries</div>
           </div>
         </div>
@@ -1081,6 +1806,9 @@ case 'analytics':
         </div>
       </div>
 
+      {/* Long-term Trend */}
+      <MoodTrendChart moodDefinitions={moodDefinitions} refreshKey={userStats.totalMoodEntries} />
+
       {/* Mood Breakdown Table */}
       {moodData.length > 0 && (
         <div className="bg-white/70 backdrop-blur-md rounded-3xl shadow-2xl p-6 border border-gray-200/50">
@@ -1092,6 +1820,7 @@ case 'analytics':
                   <th className="text-left py-2 px-4 font-semibold text-gray-700">Mood</th>
                   <th className="text-left py-2 px-4 font-semibold text-gray-700">Count</th>
                   <th className="text-left py-2 px-4 font-semibold text-gray-700">Percentage</th>
+                  <th className="text-left py-2 px-4 font-semibold text-gray-700">Avg. Intensity</th>
                   <th className="text-left py-2 px-4 font-semibold text-gray-700">Visual</th>
                 </tr>
               </thead>
@@ -1104,22 +1833,18 @@ case 'analytics':
                     <tr key={index} className="border-b border-gray-100">
                       <td className="py-3 px-4">
                         <div className="flex items-center space-x-2">
-                          <span className="text-lg">
-                            {mood.state === 'Happy' ? '😊' : mood.state === 'Stressed' ? '😰' : '😢'}
-                          </span>
+                          <span className="text-lg">{getMoodEmoji(mood.state)}</span>
                           <span className="font-medium">{mood.state}</span>
                         </div>
                       </td>
                       <td className="py-3 px-4 font-semibold">{mood.count}</td>
                       <td className="py-3 px-4">{percentage}%</td>
+                      <td className="py-3 px-4">{mood.averageIntensity != null ? `${mood.averageIntensity}/10` : '—'}</td>
                       <td className="py-3 px-4">
                         <div className="w-full bg-gray-200 rounded-full h-2">
                           <div
-                            className={`h-2 rounded-full ${
-                              mood.state === 'Happy' ? 'bg-green-500' :
-                              mood.state === 'Stressed' ? 'bg-orange-500' : 'bg-red-500'
-                            }`}
-                            style={{ width: `${percentage}%` }}
+                            className="h-2 rounded-full"
+                            style={{ width: `${percentage}%`, backgroundColor: getMoodColor(mood.state) }}
                           />
                         </div>
                       </td>
@@ -1131,6 +1856,95 @@ case 'analytics':
           </div>
         </div>
       )}
+
+      {/* Emotions & Tags */}
+      {rawMoodEntries.some(entry => (entry.emotions?.length || 0) > 0 || (entry.tags?.length || 0) > 0) && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {[
+            { title: 'Secondary Emotions', values: rawMoodEntries.flatMap(entry => entry.emotions || []) },
+            { title: 'Top Tags', values: rawMoodEntries.flatMap(entry => entry.tags || []) }
+          ].map(group => {
+            const counts = group.values.reduce((acc, value) => {
+              acc[value] = (acc[value] || 0) + 1;
+              return acc;
+            }, {} as Record<string, number>);
+            const sorted = Object.entries(counts).sort(([, a], [, b]) => b - a).slice(0, 8);
+            return (
+              <div key={group.title} className="bg-white/70 backdrop-blur-md rounded-3xl shadow-2xl p-6 border border-gray-200/50">
+                <h3 className="text-lg font-semibold text-gray-800 mb-4">{group.title}</h3>
+                {sorted.length > 0 ? (
+                  <div className="flex flex-wrap gap-2">
+                    {sorted.map(([value, count]) => (
+                      <span key={value} className="px-3 py-1.5 rounded-full text-sm bg-purple-50 border border-purple-200/50 text-purple-700">
+                        {EMOTION_OPTIONS.find(option => option.value === value)?.emoji} {value} · {count}
+                      </span>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">Nothing recorded yet</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Activity impact */}
+      <div className="bg-white/70 backdrop-blur-md rounded-3xl shadow-2xl p-6 border border-gray-200/50">
+        <h3 className="text-lg font-semibold text-gray-800 mb-1">Activity impact</h3>
+        <p className="text-sm text-gray-500 mb-4">How your mood compares when each activity, person or place is part of an entry (last 90 days)</p>
+        {activityImpact && (activityImpact.factors.length > 0 || activityImpact.sleep) ? (
+          <div className="space-y-3">
+            {activityImpact.factors.slice(0, 10).map(factor => {
+              const width = Math.min(Math.abs(factor.impact) / 2, 1) * 50;
+              return (
+                <div key={`${factor.kind}:${factor.factor}`} className="flex items-center gap-3">
+                  <div className="w-40 text-sm text-gray-700 truncate capitalize">
+                    {factor.kind === 'activity'
+                      ? ACTIVITY_OPTIONS.find(option => option.value === factor.factor)?.emoji || '🏷️'
+                      : factor.kind === 'people' ? '👥' : '📍'} {factor.factor}
+                  </div>
+                  <div className="flex-1 relative h-3 bg-gray-100 rounded-full">
+                    <div className="absolute inset-y-0 left-1/2 w-px bg-gray-300" />
+                    <div
+                      className={`absolute inset-y-0 rounded-full ${factor.impact >= 0 ? 'bg-emerald-500' : 'bg-red-400'}`}
+                      style={factor.impact >= 0 ? { left: '50%', width: `${width}%` } : { right: '50%', width: `${width}%` }}
+                    />
+                  </div>
+                  <div className={`w-24 text-right text-sm font-semibold ${factor.impact >= 0 ? 'text-emerald-600' : 'text-red-500'}`}>
+                    {factor.impact > 0 ? '+' : ''}{factor.impact} · {factor.count}×
+                  </div>
+                </div>
+              );
+            })}
+            {activityImpact.sleep && (
+              <p className="text-sm text-gray-600 pt-2 border-t border-gray-100">
+                😴 Average sleep {activityImpact.sleep.averageHours}h over {activityImpact.sleep.entries} entries
+                {activityImpact.sleep.correlation !== null && ` · correlation with mood ${activityImpact.sleep.correlation}`}
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">Tag activities, people or places on at least two entries to see their impact</p>
+        )}
+      </div>
+
+      {/* History paging */}
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-3 bg-white/70 backdrop-blur-md rounded-2xl shadow-lg p-4 border border-gray-200/50">
+        <p className="text-sm text-gray-600">
+          Showing {rawMoodEntries.length} of {userStats.totalMoodEntries} entries
+          {rawMoodEntries.length > 0 && ` (since ${new Date(rawMoodEntries[rawMoodEntries.length - 1].timestamp).toLocaleDateString()})`}
+        </p>
+        {historyCursor && (
+          <button
+            onClick={loadOlderMoods}
+            disabled={isHistoryLoading}
+            className="bg-gradient-to-r from-purple-500/80 to-indigo-500/80 hover:from-purple-600/80 hover:to-indigo-600/80 text-white font-semibold py-2 px-4 rounded-xl transition-all duration-300 disabled:opacity-50"
+          >
+            {isHistoryLoading ? 'Loading...' : 'Load older entries'}
+          </button>
+        )}
+      </div>
     </div>
   );
    case 'calendar':
@@ -1154,6 +1968,16 @@ case 'analytics':
           </div>
         </div>
       </div>
+
+      <JournalSearch
+        userId={currentUserId}
+        moodDefinitions={moodDefinitions}
+        onSelectDate={(date) => setCurrentMonth(new Date(date.getFullYear(), date.getMonth(), 1))}
+        onDeleted={() => {
+          fetchMoodData();
+          fetchUserStats();
+        }}
+      />
       
       <div className="bg-white/70 backdrop-blur-md rounded-3xl shadow-2xl p-8 border border-orange-200/50">
         {/* Calendar Header */}
@@ -1202,10 +2026,14 @@ case 'analytics':
                   : calendarDay.isToday
                   ? 'bg-blue-100 border-2 border-blue-400 text-blue-700 font-bold'
                   : calendarDay.mood
-                  ? `${getMoodColor(calendarDay.mood)}/10 border-2 ${getMoodColor(calendarDay.mood).replace('bg-', 'border-')} text-gray-800 hover:${getMoodColor(calendarDay.mood)}/20`
+                  ? 'border-2 text-gray-800 hover:brightness-95'
                   : 'bg-gray-50 hover:bg-gray-100 text-gray-600'
               }`}
-              title={calendarDay.mood ? `Mood: ${calendarDay.mood}` : 'No mood logged'}
+              style={calendarDay.isCurrentMonth && !calendarDay.isToday && calendarDay.mood ? {
+                backgroundColor: `${getMoodColor(calendarDay.mood)}1A`,
+                borderColor: getMoodColor(calendarDay.mood)
+              } : undefined}
+              title={calendarDay.summary ? describeDay(calendarDay.summary) : 'No mood logged'}
             >
               {/* Date Number */}
               <span className={`text-sm font-medium ${!calendarDay.isCurrentMonth ? 'opacity-30' : ''}`}>
@@ -1219,6 +2047,19 @@ case 'analytics':
                 </div>
               )}
               
+              {/* Intra-day swings: one dot per check-in, in time order */}
+              {calendarDay.summary && calendarDay.isCurrentMonth && calendarDay.summary.entries > 1 && (
+                <div className="absolute bottom-1.5 left-1/2 -translate-x-1/2 flex space-x-0.5">
+                  {calendarDay.summary.checkIns.slice(0, 5).map(checkIn => (
+                    <span
+                      key={checkIn._id}
+                      className="w-1.5 h-1.5 rounded-full"
+                      style={{ backgroundColor: getMoodColor(checkIn.moodState) }}
+                    />
+                  ))}
+                </div>
+              )}
+
               {/* Today Indicator */}
               {calendarDay.isToday && (
                 <div className="absolute -bottom-1 left-1/2 transform -translate-x-1/2 w-1 h-1 bg-blue-500 rounded-full"></div>
@@ -1231,18 +2072,15 @@ case 'analytics':
         <div className="mt-8 pt-6 border-t border-gray-200/50">
           <h4 className="text-lg font-semibold text-gray-800 mb-4">Legend</h4>
           <div className="flex flex-wrap gap-4 justify-center">
-            <div className="flex items-center space-x-2">
-              <div className="w-6 h-6 bg-green-500/20 border-2 border-green-500 rounded"></div>
-              <span className="text-sm text-gray-600">😊 Happy</span>
-            </div>
-            <div className="flex items-center space-x-2">
-              <div className="w-6 h-6 bg-red-500/20 border-2 border-red-500 rounded"></div>
-              <span className="text-sm text-gray-600">😢 Sad</span>
-            </div>
-            <div className="flex items-center space-x-2">
-              <div className="w-6 h-6 bg-orange-500/20 border-2 border-orange-500 rounded"></div>
-              <span className="text-sm text-gray-600">😰 Stressed</span>
-            </div>
+            {moodDefinitions.map((def) => (
+              <div key={def.label} className="flex items-center space-x-2">
+                <div
+                  className="w-6 h-6 border-2 rounded"
+                  style={{ backgroundColor: `${def.color}33`, borderColor: def.color }}
+                ></div>
+                <span className="text-sm text-gray-600">{def.emoji} {def.label}</span>
+              </div>
+            ))}
             <div className="flex items-center space-x-2">
               <div className="w-6 h-6 bg-blue-100 border-2 border-blue-400 rounded"></div>
               <span className="text-sm text-gray-600">Today</span>
@@ -1261,25 +2099,22 @@ case 'analytics':
           </h4>
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             {(() => {
-              const monthEntries = rawMoodEntries.filter(entry => {
-                const entryDate = new Date(entry.timestamp);
-                return entryDate.getMonth() === currentMonth.getMonth() && 
-                       entryDate.getFullYear() === currentMonth.getFullYear();
-              });
-              
-              const moodCounts = monthEntries.reduce((acc, entry) => {
-                acc[entry.moodState] = (acc[entry.moodState] || 0) + 1;
+              const monthDays = calendarDays
+                .filter(calendarDay => calendarDay.isCurrentMonth && calendarDay.summary)
+                .map(calendarDay => calendarDay.summary as DailySummary);
+
+              // Days are counted by their dominant mood
+              const moodCounts = monthDays.reduce((acc, day) => {
+                acc[day.dominantMood] = (acc[day.dominantMood] || 0) + 1;
                 return acc;
               }, {} as Record<string, number>);
 
               return [
-                { label: 'Total Entries', value: monthEntries.length, color: 'text-blue-600', bg: 'bg-blue-50' },
-                { label: 'Happy Days', value: moodCounts.Happy || 0, color: 'text-green-600', bg: 'bg-green-50' },
-                { label: 'Sad Days', value: moodCounts.Sad || 0, color: 'text-red-600', bg: 'bg-red-50' },
-                { label: 'Stressed Days', value: moodCounts.Stressed || 0, color: 'text-orange-600', bg: 'bg-orange-50' }
+                { label: 'Total Entries', value: monthDays.reduce((sum, day) => sum + day.entries, 0), color: '#2563EB' },
+                ...moodDefinitions.map(def => ({ label: `${def.label} Days`, value: moodCounts[def.label] || 0, color: def.color }))
               ].map((stat, index) => (
-                <div key={index} className={`text-center p-4 ${stat.bg} rounded-xl`}>
-                  <div className={`text-2xl font-bold ${stat.color}`}>{stat.value}</div>
+                <div key={index} className="text-center p-4 rounded-xl" style={{ backgroundColor: `${stat.color}14` }}>
+                  <div className="text-2xl font-bold" style={{ color: stat.color }}>{stat.value}</div>
                   <div className="text-sm text-gray-600">{stat.label}</div>
                 </div>
               ));
@@ -1307,7 +2142,7 @@ case 'analytics':
             {/* Goal Creation */}
             <div className="bg-white/70 backdrop-blur-md rounded-3xl shadow-2xl p-8 border border-green-200/50">
               <h3 className="text-xl font-bold text-gray-800 mb-6">Create New Goal</h3>
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
                 <input
                   type="text"
                   value={newGoal.title}
@@ -1324,6 +2159,15 @@ case 'analytics':
                   <option value="weekly">Weekly Goal</option>
                   <option value="monthly">Monthly Goal</option>
                 </select>
+                <input
+                  type="number"
+                  min={1}
+                  max={GOAL_TARGET_MAX}
+                  value={newGoal.targetValue}
+                  onChange={(e) => setNewGoal({...newGoal, targetValue: Math.min(GOAL_TARGET_MAX, Math.max(1, Number(e.target.value) || 1))})}
+                  title="Check-ins needed to complete the goal"
+                  className="px-4 py-3 bg-gray-50/70 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-green-400/50 focus:border-transparent"
+                />
                 <button
                   onClick={createWellnessGoal}
                   disabled={!newGoal.title.trim()}
@@ -1343,6 +2187,31 @@ case 'analytics':
 
             {/* Goals List */}
             <div className="space-y-4">
+              <div className="flex items-center justify-between px-2">
+                {selectedGoalIds.length > 0 ? (
+                  <div className="flex items-center space-x-3 text-sm">
+                    <span className="text-gray-700">{selectedGoalIds.length} selected</span>
+                    <button onClick={() => runBulkGoalAction('archive', selectedGoalIds)} className="text-teal-700 hover:underline">
+                      Archive
+                    </button>
+                    <button onClick={() => runBulkGoalAction('delete', selectedGoalIds)} className="text-red-600 hover:underline">
+                      Move to trash
+                    </button>
+                    <button onClick={() => setSelectedGoalIds([])} className="text-gray-500 hover:underline">
+                      Clear
+                    </button>
+                  </div>
+                ) : <span />}
+                <label className="flex items-center space-x-2 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={showArchivedGoals}
+                    onChange={(e) => setShowArchivedGoals(e.target.checked)}
+                  />
+                  <span>Show archived</span>
+                </label>
+              </div>
+
               {['daily', 'weekly', 'monthly'].map(category => (
                 <div key={category} className="bg-white/70 backdrop-blur-md rounded-3xl shadow-2xl p-6 border border-green-200/50">
                   <h3 className="text-lg font-bold text-gray-800 mb-4 capitalize">
@@ -1357,6 +2226,12 @@ case 'analytics':
                       }`}>
                         <div className="flex items-center justify-between">
                           <div className="flex items-center space-x-3">
+                            <input
+                              type="checkbox"
+                              checked={selectedGoalIds.includes(goal._id!)}
+                              onChange={() => toggleGoalSelected(goal._id!)}
+                              title="Select for bulk actions"
+                            />
                             <button
                               onClick={() => updateGoalProgress(goal._id!, !goal.isCompleted)}
                               className={`w-6 h-6 rounded-full border-2 flex items-center justify-center transition-all duration-300 ${
@@ -1376,10 +2251,105 @@ case 'analytics':
                               )}
                             </div>
                           </div>
-                          <div className="text-xs text-gray-500">
-                            {goal.createdAt && new Date(goal.createdAt).toLocaleDateString()}
+                          <div className="flex items-center space-x-3 text-xs text-gray-500">
+                            <span>{goal.createdAt && new Date(goal.createdAt).toLocaleDateString()}</span>
+                            <button
+                              onClick={() => moveGoal(goal, -1)}
+                              className="text-gray-400 hover:text-gray-700 transition-colors duration-200"
+                              title="Move up"
+                            >
+                              ↑
+                            </button>
+                            <button
+                              onClick={() => moveGoal(goal, 1)}
+                              className="text-gray-400 hover:text-gray-700 transition-colors duration-200"
+                              title="Move down"
+                            >
+                              ↓
+                            </button>
+                            <button
+                              onClick={() => setExpandedGoal(expanded => expanded?.goalId === goal._id ? null : { goalId: goal._id! })}
+                              className="text-gray-400 hover:text-green-600 transition-colors duration-200"
+                              title="Progress history"
+                            >
+                              📈
+                            </button>
+                            <button
+                              onClick={() => setGoalArchived(goal._id!, true)}
+                              className="text-gray-400 hover:text-teal-600 transition-colors duration-200"
+                              title="Archive"
+                            >
+                              📦
+                            </button>
+                            <button
+                              onClick={() => deleteWellnessGoal(goal._id!)}
+                              className="text-gray-400 hover:text-red-500 transition-colors duration-200"
+                              title="Move to trash"
+                            >
+                              🗑️
+                            </button>
                           </div>
                         </div>
+
+                        <div className="mt-3 flex items-center space-x-3">
+                          <div className="flex-1 bg-gray-200 rounded-full h-2">
+                            <div
+                              className="bg-green-500 h-2 rounded-full transition-all duration-500"
+                              style={{ width: `${Math.min(100, ((goal.currentProgress || 0) / (goal.targetValue || 1)) * 100)}%` }}
+                            />
+                          </div>
+                          <span className="text-xs text-gray-600 whitespace-nowrap">
+                            {goal.currentProgress || 0}/{goal.targetValue || 1} {GOAL_PERIOD_NAMES[goal.category]}
+                          </span>
+                        </div>
+
+                        {goal.recurrence && (
+                          <div className="mt-3 flex flex-wrap items-center justify-between gap-2">
+                            <div className="flex items-center space-x-3 text-xs text-gray-600">
+                              <span title={`Longest: ${goal.recurrence.streak.longest}`}>🔥 {goal.recurrence.streak.current} in a row</span>
+                              {goal.recurrence.completionRate !== null && (
+                                <span title={`${goal.recurrence.periodsCompleted} of ${goal.recurrence.periodsElapsed}`}>
+                                  ✅ {Math.round(goal.recurrence.completionRate * 100)}% completed
+                                </span>
+                              )}
+                            </div>
+                            <div className="flex space-x-1">
+                              {[...goal.recurrence.history].reverse().map(past => (
+                                <button
+                                  key={past.period}
+                                  onClick={() => setExpandedGoal({ goalId: goal._id!, period: past.period })}
+                                  title={`${past.period}: ${past.progress}/${past.targetValue}`}
+                                  className={`w-3 h-3 rounded-sm ${
+                                    past.isCompleted ? 'bg-green-500' : past.progress > 0 ? 'bg-green-200' : 'bg-gray-200'
+                                  } ${expandedGoal?.goalId === goal._id && expandedGoal?.period === past.period ? 'ring-2 ring-teal-400' : ''}`}
+                                />
+                              ))}
+                            </div>
+                          </div>
+                        )}
+
+                        {!goal.isCompleted && (
+                          <div className="mt-3 flex items-center space-x-2">
+                            <input
+                              type="text"
+                              value={goalCheckinNotes[goal._id!] || ''}
+                              onChange={(e) => setGoalCheckinNotes(notes => ({ ...notes, [goal._id!]: e.target.value }))}
+                              placeholder="Add a note (optional)..."
+                              maxLength={280}
+                              className="flex-1 px-3 py-2 text-sm bg-white/70 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-green-400/50 focus:border-transparent"
+                            />
+                            <button
+                              onClick={() => checkInGoal(goal._id!, 1)}
+                              className="px-4 py-2 text-sm bg-green-500/80 hover:bg-green-600/80 text-white rounded-xl transition-all duration-300"
+                            >
+                              +1 Check-in
+                            </button>
+                          </div>
+                        )}
+
+                        {expandedGoal?.goalId === goal._id && (
+                          <GoalProgressChart goalId={goal._id!} period={expandedGoal?.period} refreshKey={goal.currentProgress || 0} />
+                        )}
                       </div>
                     ))}
                     {wellnessGoals.filter(goal => goal.category === category).length === 0 && (
@@ -1388,6 +2358,41 @@ case 'analytics':
                   </div>
                 </div>
               ))}
+
+              {showArchivedGoals && (
+                <div className="bg-white/50 backdrop-blur-md rounded-3xl shadow-2xl p-6 border border-gray-200/50">
+                  <h3 className="text-lg font-bold text-gray-800 mb-4">Archived Goals</h3>
+                  <div className="space-y-3">
+                    {archivedGoals.map(goal => (
+                      <div key={goal._id} className="p-4 rounded-xl border bg-gray-50/50 border-gray-200/50 flex items-center justify-between">
+                        <div>
+                          <p className="font-medium text-gray-600">{goal.title}</p>
+                          <p className="text-xs text-gray-500 capitalize">
+                            {goal.category}
+                            {goal.recurrence?.completionRate != null && ` · ${Math.round(goal.recurrence.completionRate * 100)}% completed`}
+                            {goal.archivedAt && ` · archived ${new Date(goal.archivedAt).toLocaleDateString()}`}
+                          </p>
+                        </div>
+                        <div className="flex items-center space-x-3 text-sm">
+                          <button onClick={() => setGoalArchived(goal._id!, false)} className="text-teal-700 hover:underline">
+                            Unarchive
+                          </button>
+                          <button
+                            onClick={() => deleteWellnessGoal(goal._id!)}
+                            className="text-gray-400 hover:text-red-500 transition-colors duration-200"
+                            title="Move to trash"
+                          >
+                            🗑️
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                    {archivedGoals.length === 0 && (
+                      <p className="text-gray-500 text-center py-4">No archived goals</p>
+                    )}
+                  </div>
+                </div>
+              )}
             </div>
           </div>
         );
@@ -1428,7 +2433,7 @@ case 'analytics':
                   {isEditingProfile ? (
                     <ProfileEditForm 
                       userProfile={userProfile} 
-                      onSave={updateUserProfile}
+                      onSave={profile => updateUserProfile({ profile })}
                       onCancel={() => setIsEditingProfile(false)}
                     />
                   ) : (
@@ -1471,6 +2476,10 @@ case 'analytics':
                           <p className="text-gray-800">{userProfile?.profile?.location?.country || 'Not set'}</p>
                         </div>
                       </div>
+                      <div>
+                        <label className="text-sm font-medium text-gray-600">Time Zone</label>
+                        <p className="text-gray-800">{userProfile?.profile?.timezone || 'UTC'}</p>
+                      </div>
                     </div>
                   )}
                 </div>
@@ -1486,8 +2495,43 @@ case 'analytics':
                       <div className="text-sm text-gray-500 mt-1">
                         Longest: {userStats.longestStreak} days
                       </div>
+                      {(userStats.bridgedDays?.length || 0) > 0 && (
+                        <div className="text-xs text-sky-600 mt-1">
+                          Kept alive through {userStats.bridgedDays?.length} missed {userStats.bridgedDays?.length === 1 ? 'day' : 'days'}
+                          {' '}({userStats.bridgedDays?.filter(day => day.by === 'freeze').length} by freezes)
+                        </div>
+                      )}
                     </div>
 
+                    <div className="grid grid-cols-3 gap-2">
+                      {STREAK_MILESTONES.map(milestone => {
+                        const reached = userStats.streakMilestones?.filter(event => event.days === milestone.days) || [];
+                        return (
+                          <div
+                            key={milestone.days}
+                            className={`text-center p-3 rounded-xl ${reached.length > 0 ? 'bg-amber-50/70' : 'bg-gray-50/50 opacity-50'}`}
+                            title={reached.length > 0 ? `Reached ${reached.map(event => event.reachedOn).join(', ')}` : 'Not reached yet'}
+                          >
+                            <div className="text-2xl">{milestone.emoji}</div>
+                            <div className="text-xs font-medium text-gray-700">{milestone.label}</div>
+                            {reached.length > 1 && <div className="text-xs text-gray-500">×{reached.length}</div>}
+                          </div>
+                        );
+                      })}
+                    </div>
+
+                    {userStats.weeklyStreak && (
+                      <div className="text-center p-4 bg-cyan-50/50 rounded-xl">
+                        <div className="text-2xl font-bold text-cyan-600">{userStats.weeklyStreak.current}</div>
+                        <div className="text-sm text-gray-600">
+                          Weeks in a row with {userStats.weeklyStreak.target}+ days logged
+                        </div>
+                        <div className="text-xs text-gray-500 mt-1">
+                          This week: {userStats.weeklyStreak.thisWeekDays}/{userStats.weeklyStreak.target} · Longest: {userStats.weeklyStreak.longest}
+                        </div>
+                      </div>
+                    )}
+
                     <div className="grid grid-cols-2 gap-4">
                       <div className="text-center p-4 bg-blue-50/50 rounded-xl">
                         <div className="text-2xl font-bold text-blue-600">{userStats.totalMoodEntries}</div>
@@ -1512,6 +2556,10 @@ case 'analytics':
                   </div>
                 </div>
 
+                <BadgesGallery
+                  refreshKey={`${userStats.totalMoodEntries}-${wellnessGoals.filter(goal => goal.isCompleted).length}`}
+                />
+
                 {/* Preferences */}
                 <div className="bg-white/70 backdrop-blur-md rounded-3xl shadow-2xl p-8 border border-blue-200/50">
                   <h3 className="text-xl font-bold text-gray-800 mb-6">Preferences</h3>
@@ -1588,6 +2636,35 @@ case 'analytics':
                         <option value="auto">Auto</option>
                       </select>
                     </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="text-sm font-medium text-gray-700">Grace Days</label>
+                        <select
+                          value={userStats.streakRules?.graceDays ?? 1}
+                          onChange={(e) => updateStreakRules({ graceDays: parseInt(e.target.value) })}
+                          className="mt-1 block w-full px-3 py-2 bg-gray-50/70 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-400/50 focus:border-transparent"
+                        >
+                          {[0, 1, 2, 3].map(days => (
+                            <option key={days} value={days}>{days === 0 ? 'None' : `${days} a week`}</option>
+                          ))}
+                        </select>
+                        <p className="text-xs text-gray-500 mt-1">Missed days that don&apos;t break your streak</p>
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium text-gray-700">Weekly Goal</label>
+                        <select
+                          value={userStats.streakRules?.weeklyTarget ?? 5}
+                          onChange={(e) => updateStreakRules({ weeklyTarget: parseInt(e.target.value) })}
+                          className="mt-1 block w-full px-3 py-2 bg-gray-50/70 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-400/50 focus:border-transparent"
+                        >
+                          {[1, 2, 3, 4, 5, 6, 7].map(days => (
+                            <option key={days} value={days}>{days} of 7 days</option>
+                          ))}
+                        </select>
+                        <p className="text-xs text-gray-500 mt-1">Days a week for the weekly streak</p>
+                      </div>
+                    </div>
                   </div>
                 </div>
 
@@ -1596,18 +2673,173 @@ case 'analytics':
                   <h3 className="text-xl font-bold text-gray-800 mb-6">Account Actions</h3>
                   
                   <div className="space-y-3">
-                    <button className="w-full bg-gradient-to-r from-green-500/10 to-teal-500/10 hover:from-green-500/20 hover:to-teal-500/20 text-gray-700 font-medium py-3 px-4 rounded-xl transition-all duration-300 text-left">
+                    <button
+                      onClick={() => setShowExportOptions(!showExportOptions)}
+                      className="w-full bg-gradient-to-r from-green-500/10 to-teal-500/10 hover:from-green-500/20 hover:to-teal-500/20 text-gray-700 font-medium py-3 px-4 rounded-xl transition-all duration-300 text-left"
+                    >
                       Export My Data
                     </button>
+
+                    {showExportOptions && (
+                      <div className="grid grid-cols-2 gap-2 p-3 bg-green-50/50 border border-green-200/50 rounded-xl">
+                        {[
+                          { label: 'Everything (JSON)', format: 'json' as const },
+                          { label: 'Printable report', format: 'html' as const },
+                          { label: 'Mood entries (CSV)', format: 'csv' as const, collection: 'moods' },
+                          { label: 'Goals (CSV)', format: 'csv' as const, collection: 'wellness_goals' },
+                          { label: 'Weekly stats (CSV)', format: 'csv' as const, collection: 'weekly_stats' },
+                          { label: 'Analyses (CSV)', format: 'csv' as const, collection: 'mood_analysis' },
+                        ].map(option => (
+                          <button
+                            key={option.label}
+                            onClick={() => exportData(option.format, option.collection)}
+                            disabled={isExporting}
+                            className="bg-white/70 hover:bg-white disabled:opacity-50 text-sm text-gray-700 py-2 px-3 rounded-lg transition-all duration-300 text-left"
+                          >
+                            {option.label}
+                          </button>
+                        ))}
+                      </div>
+                    )}
                     
-                    <button className="w-full bg-gradient-to-r from-blue-500/10 to-indigo-500/10 hover:from-blue-500/20 hover:to-indigo-500/20 text-gray-700 font-medium py-3 px-4 rounded-xl transition-all duration-300 text-left">
+                    <button
+                      onClick={() => setShowImportWizard(!showImportWizard)}
+                      className="w-full bg-gradient-to-r from-green-500/10 to-teal-500/10 hover:from-green-500/20 hover:to-teal-500/20 text-gray-700 font-medium py-3 px-4 rounded-xl transition-all duration-300 text-left"
+                    >
+                      Import Mood History
+                    </button>
+
+                    {showImportWizard && (
+                      <MoodImportWizard
+                        userId={currentUserId}
+                        onImported={() => {
+                          fetchMoodData();
+                          fetchUserStats();
+                        }}
+                        onClose={() => setShowImportWizard(false)}
+                      />
+                    )}
+
+                    <button
+                      onClick={() => setShowTrash(!showTrash)}
+                      className="w-full bg-gradient-to-r from-gray-500/10 to-slate-500/10 hover:from-gray-500/20 hover:to-slate-500/20 text-gray-700 font-medium py-3 px-4 rounded-xl transition-all duration-300 text-left"
+                    >
+                      Trash
+                    </button>
+
+                    {showTrash && (
+                      <TrashPanel
+                        userId={currentUserId}
+                        onRestored={(type) => {
+                          if (type === 'goal') {
+                            loadWellnessGoals();
+                          } else {
+                            fetchMoodData();
+                            fetchUserStats();
+                          }
+                        }}
+                        onClose={() => setShowTrash(false)}
+                      />
+                    )}
+
+                    <button
+                      onClick={() => setShowPrivacySettings(!showPrivacySettings)}
+                      className="w-full bg-gradient-to-r from-blue-500/10 to-indigo-500/10 hover:from-blue-500/20 hover:to-indigo-500/20 text-gray-700 font-medium py-3 px-4 rounded-xl transition-all duration-300 text-left"
+                    >
                       Privacy Settings
                     </button>
+
+                    {showPrivacySettings && (
+                      <div className="p-4 bg-blue-50/50 border border-blue-200/50 rounded-xl space-y-4 text-sm text-gray-700">
+                        <p>
+                          Choose which outside services may process your entries. Nothing is sent to a service until you allow it.
+                          Redaction removes contact details and names before your text is sent.
+                        </p>
+                        {PRIVACY_PROCESSORS.map(processor => {
+                          const consent = userProfile?.preferences?.privacy?.[processor.id];
+                          const enabled = consent?.enabled ?? false;
+                          return (
+                            <div key={processor.id} className="flex items-center justify-between space-x-3">
+                              <div>
+                                <p className="font-medium">{processor.label}</p>
+                                <p className="text-xs text-gray-500">{processor.description}</p>
+                              </div>
+                              <div className="flex items-center space-x-2">
+                                <select
+                                  value={consent?.text || 'redacted'}
+                                  disabled={!enabled}
+                                  onChange={(e) => updatePrivacy(processor.id, { text: e.target.value as 'none' | 'redacted' | 'full' })}
+                                  className="px-2 py-1 bg-white/70 border border-gray-200/50 rounded-lg disabled:opacity-50"
+                                >
+                                  <option value="none">No text</option>
+                                  <option value="redacted">Redacted text</option>
+                                  <option value="full">Full text</option>
+                                </select>
+                                <button
+                                  onClick={() => updatePrivacy(processor.id, { enabled: !enabled })}
+                                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                                    enabled ? 'bg-blue-600' : 'bg-gray-200'
+                                  }`}
+                                >
+                                  <span
+                                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                                      enabled ? 'translate-x-6' : 'translate-x-1'
+                                    }`}
+                                  />
+                                </button>
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
                     
-                    <button className="w-full bg-gradient-to-r from-orange-500/10 to-red-500/10 hover:from-orange-500/20 hover:to-red-500/20 text-gray-700 font-medium py-3 px-4 rounded-xl transition-all duration-300 text-left">
-                      Delete Account
-                    </button>
+                    {userProfile?.deletion ? (
+                      <button
+                        onClick={cancelAccountDeletion}
+                        className="w-full bg-gradient-to-r from-orange-500/10 to-red-500/10 hover:from-orange-500/20 hover:to-red-500/20 text-gray-700 font-medium py-3 px-4 rounded-xl transition-all duration-300 text-left"
+                      >
+                        Cancel Account Deletion
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => setShowDeleteAccount(true)}
+                        className="w-full bg-gradient-to-r from-orange-500/10 to-red-500/10 hover:from-orange-500/20 hover:to-red-500/20 text-gray-700 font-medium py-3 px-4 rounded-xl transition-all duration-300 text-left"
+                      >
+                        Delete Account
+                      </button>
+                    )}
                   </div>
+
+                  {showDeleteAccount && (
+                    <div className="mt-6 p-4 bg-red-50/70 border border-red-200/50 rounded-xl space-y-3">
+                      <p className="text-sm text-gray-700">
+                        This deletes your profile, mood entries, goals and statistics. Type <strong>{userProfile?.email}</strong> to confirm.
+                      </p>
+                      <input
+                        type="email"
+                        value={deleteConfirmation}
+                        onChange={(e) => setDeleteConfirmation(e.target.value)}
+                        placeholder="Your email"
+                        className="block w-full px-3 py-2 bg-white/70 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-red-400/50 focus:border-transparent"
+                      />
+                      <div className="flex space-x-3">
+                        <button
+                          onClick={deleteAccount}
+                          disabled={isDeletingAccount || deleteConfirmation.trim().toLowerCase() !== userProfile?.email?.toLowerCase()}
+                          className="bg-red-500/90 hover:bg-red-600 disabled:opacity-50 text-white font-medium py-2 px-4 rounded-xl transition-all duration-300"
+                        >
+                          {isDeletingAccount ? 'Deleting...' : 'Delete My Account'}
+                        </button>
+                        <button
+                          onClick={() => { setShowDeleteAccount(false); setDeleteConfirmation(''); }}
+                          className="bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2 px-4 rounded-xl transition-all duration-300"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -1668,6 +2900,20 @@ case 'analytics':
       </div>
     </div>
 
+    {userProfile?.deletion && (
+      <div className="mb-6 flex items-center justify-between bg-red-50/80 backdrop-blur-md p-4 rounded-2xl border border-red-200/50">
+        <p className="text-sm text-gray-700">
+          Your account and all its data will be deleted on {new Date(userProfile.deletion.scheduledFor).toLocaleDateString()}.
+        </p>
+        <button
+          onClick={cancelAccountDeletion}
+          className="ml-4 bg-white/70 hover:bg-white text-gray-700 font-medium py-2 px-4 rounded-xl transition-all duration-300"
+        >
+          Cancel deletion
+        </button>
+      </div>
+    )}
+
     {/* Tab Content */}
     {renderTabContent()}
   </div>
@@ -1680,6 +2926,7 @@ interface ProfileFormData {
   age?: number | null;
   phoneNumber?: string;
   bio?: string;
+  timezone?: string;
   location?: {
     city?: string;
     country?: string;
@@ -1688,7 +2935,7 @@ interface ProfileFormData {
 // Profile Edit Form Component
 function ProfileEditForm({ userProfile, onSave, onCancel }: {
   userProfile: UserProfile | null;
-  onSave: (profileData: any) => void;
+  onSave: (profileData: ProfileFormData) => void;
   onCancel: () => void;
 }) {
   const [formData, setFormData] = useState({
@@ -1697,6 +2944,7 @@ function ProfileEditForm({ userProfile, onSave, onCancel }: {
     age: userProfile?.profile?.age || '',
     phoneNumber: userProfile?.profile?.phoneNumber || '',
     bio: userProfile?.profile?.bio || '',
+    timezone: userProfile?.profile?.timezone || BROWSER_TIME_ZONE,
     city: userProfile?.profile?.location?.city || '',
     country: userProfile?.profile?.location?.country || ''
   });
@@ -1709,6 +2957,7 @@ function ProfileEditForm({ userProfile, onSave, onCancel }: {
       age: formData.age ? parseInt(formData.age) : null,
       phoneNumber: formData.phoneNumber,
       bio: formData.bio,
+      timezone: formData.timezone,
       location: {
         city: formData.city,
         country: formData.country
@@ -1791,6 +3040,21 @@ function ProfileEditForm({ userProfile, onSave, onCancel }: {
         </div>
       </div>
 
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Time Zone</label>
+        <input
+          type="text"
+          list="time-zones"
+          value={formData.timezone}
+          onChange={(e) => setFormData({...formData, timezone: e.target.value})}
+          className="w-full px-3 py-2 bg-gray-50/70 border border-gray-200/50 rounded-xl focus:ring-2 focus:ring-blue-400/50 focus:border-transparent"
+        />
+        <datalist id="time-zones">
+          {Intl.supportedValuesOf('timeZone').map(zone => <option key={zone} value={zone} />)}
+        </datalist>
+        <p className="text-xs text-gray-500 mt-1">Streaks, weekly counts and the calendar start each day at midnight here</p>
+      </div>
+
       <div className="flex space-x-4 pt-4">
         <button
           type="submit"
@@ -1808,4 +3072,724 @@ function ProfileEditForm({ userProfile, onSave, onCancel }: {
       </div>
     </form>
   );
-}
\ No newline at end of file
+}
+interface ImportColumns {
+  moodText?: string | null;
+  moodState: string;
+  timestamp: string;
+  time?: string | null;
+  intensity?: string | null;
+  tags?: string | null;
+}
+
+interface ImportResult {
+  dryRun: boolean;
+  columns: string[];
+  mapping: { columns: ImportColumns; moodLabels: Record<string, string> };
+  labels: { label: string; count: number; mappedTo: string | null }[];
+  moods: string[];
+  summary: { total: number; valid: number; invalid: number; duplicates: number; toImport: number; imported: number };
+  errors: { row: number; field: string; message: string }[];
+  preview: MoodEntry[];
+}
+
+const IMPORT_FIELDS: { key: keyof ImportColumns; label: string; required?: boolean }[] = [
+  { key: 'timestamp', label: 'Date / time', required: true },
+  { key: 'time', label: 'Time of day (separate column)' },
+  { key: 'moodState', label: 'Mood', required: true },
+  { key: 'moodText', label: 'Note' },
+  { key: 'intensity', label: 'Intensity (1-10)' },
+  { key: 'tags', label: 'Tags' },
+];
+
+// Import Wizard Component: pick a file, check the mapping on a dry run, then import
+function MoodImportWizard({ userId, onImported, onClose }: {
+  userId: string;
+  onImported: () => void;
+  onClose: () => void;
+}) {
+  const [file, setFile] = useState<{ name: string; format: 'csv' | 'json'; content: string } | null>(null);
+  const [columns, setColumns] = useState<ImportColumns | null>(null);
+  const [moodLabels, setMoodLabels] = useState<Record<string, string>>({});
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const runImport = async (
+    selected: NonNullable<typeof file>,
+    mapping: { columns?: ImportColumns; moodLabels?: Record<string, string> },
+    dryRun: boolean
+  ) => {
+    try {
+      setIsWorking(true);
+      setError(null);
+      const response = await apiFetch('/api/moods/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, format: selected.format, content: selected.content, mapping, dryRun })
+      });
+      const data = await response.json();
+
+      if (data.columns && data.mapping) {
+        setColumns(data.mapping.columns);
+      }
+      if (!response.ok) {
+        setError(data.fields?.map((field: { field: string; message: string }) => `${field.field} ${field.message}`).join('; ') || data.error);
+        return;
+      }
+
+      setResult(data);
+      setMoodLabels(Object.fromEntries(
+        data.labels.map((label: ImportResult['labels'][number]) => [label.label, label.mappedTo || ''])
+      ));
+      if (!dryRun && data.summary.imported > 0) {
+        onImported();
+        announceAchievements(data.achievements);
+      }
+    } catch (err) {
+      console.error('Error importing moods:', err);
+      setError('Import failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFile = async (selectedFile: File | undefined) => {
+    if (!selectedFile) return;
+    const selected = {
+      name: selectedFile.name,
+      format: selectedFile.name.toLowerCase().endsWith('.json') ? 'json' as const : 'csv' as const,
+      content: await selectedFile.text()
+    };
+    setFile(selected);
+    setResult(null);
+    setColumns(null);
+    setMoodLabels({});
+    // First dry run with the guessed mapping
+    await runImport(selected, {}, true);
+  };
+
+  // Labels set to "Skip" are sent as '' so the server doesn't fall back to its own guess
+  const currentMapping = () => ({ columns: columns || undefined, moodLabels });
+
+  const isDone = result && !result.dryRun;
+
+  return (
+    <div className="p-4 bg-green-50/50 border border-green-200/50 rounded-xl space-y-4 text-sm text-gray-700">
+      <div className="flex items-center justify-between">
+        <p className="font-semibold">Import mood history (CSV or JSON)</p>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700">✕</button>
+      </div>
+
+      {!isDone && (
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="block w-full text-sm"
+        />
+      )}
+
+      {error && <p className="text-red-600">{error}</p>}
+
+      {file && columns && result?.dryRun && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            {IMPORT_FIELDS.map(field => (
+              <label key={field.key} className="block">
+                <span className="text-xs font-medium text-gray-600">{field.label}{field.required ? ' *' : ''}</span>
+                <select
+                  value={columns[field.key] || ''}
+                  onChange={(e) => setColumns({ ...columns, [field.key]: e.target.value || null })}
+                  className="mt-1 block w-full px-2 py-1 bg-white/70 border border-gray-200/50 rounded-lg"
+                >
+                  <option value="">(none)</option>
+                  {result.columns.map(column => <option key={column} value={column}>{column}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          {result.labels.length > 0 && (
+            <div>
+              <p className="text-xs font-medium text-gray-600 mb-1">Mood labels in the file</p>
+              <div className="grid grid-cols-2 gap-2">
+                {result.labels.map(label => (
+                  <label key={label.label} className="flex items-center space-x-2">
+                    <span className="w-1/2 truncate">{label.label} ({label.count})</span>
+                    <select
+                      value={moodLabels[label.label] || ''}
+                      onChange={(e) => setMoodLabels({ ...moodLabels, [label.label]: e.target.value })}
+                      className="w-1/2 px-2 py-1 bg-white/70 border border-gray-200/50 rounded-lg"
+                    >
+                      <option value="">Skip</option>
+                      {result.moods.map(mood => <option key={mood} value={mood}>{mood}</option>)}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <p>
+            {result.summary.total} rows: {result.summary.toImport} to import, {result.summary.duplicates} already stored,
+            {' '}{result.summary.invalid} skipped.
+          </p>
+
+          {result.errors.length > 0 && (
+            <ul className="max-h-24 overflow-y-auto text-xs text-red-600">
+              {result.errors.map((rowError, i) => (
+                <li key={i}>Row {rowError.row}: {rowError.field} {rowError.message}</li>
+              ))}
+            </ul>
+          )}
+
+          {result.preview.length > 0 && (
+            <div className="max-h-48 overflow-y-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-gray-500"><th>Date</th><th>Mood</th><th>Note</th></tr>
+                </thead>
+                <tbody>
+                  {result.preview.map((entry, i) => (
+                    <tr key={i} className="border-t border-gray-200/50">
+                      <td className="pr-2">{new Date(entry.timestamp).toLocaleString()}</td>
+                      <td className="pr-2">{entry.moodState}</td>
+                      <td className="truncate max-w-xs">{entry.moodText}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex space-x-3">
+            <button
+              onClick={() => runImport(file, currentMapping(), true)}
+              disabled={isWorking}
+              className="bg-white/70 hover:bg-white disabled:opacity-50 text-gray-700 font-medium py-2 px-4 rounded-xl transition-all duration-300"
+            >
+              Update Preview
+            </button>
+            <button
+              onClick={() => runImport(file, currentMapping(), false)}
+              disabled={isWorking || result.summary.toImport === 0}
+              className="bg-gradient-to-r from-teal-500/80 to-emerald-500/80 hover:from-teal-600/80 hover:to-emerald-600/80 disabled:opacity-50 text-white font-medium py-2 px-4 rounded-xl transition-all duration-300"
+            >
+              {isWorking ? 'Working...' : `Import ${result.summary.toImport} Entries`}
+            </button>
+          </div>
+        </>
+      )}
+
+      {isDone && (
+        <p>
+          Imported {result.summary.imported} entries from {file?.name}
+          {result.summary.duplicates > 0 ? ` (${result.summary.duplicates} duplicates skipped)` : ''}.
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface JournalSearchResult {
+  _id: string;
+  moodState: string;
+  timestamp: string;
+  intensity?: number | null;
+  tags?: string[];
+  snippet: string;
+  highlights: [number, number][];
+}
+
+// Wraps the matched words of a search snippet in <mark>
+function HighlightedSnippet({ snippet, highlights }: Pick<JournalSearchResult, 'snippet' | 'highlights'>) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  highlights.forEach(([start, end], i) => {
+    parts.push(snippet.slice(position, start));
+    parts.push(<mark key={i} className="bg-yellow-200/80 rounded px-0.5">{snippet.slice(start, end)}</mark>);
+    position = end;
+  });
+  parts.push(snippet.slice(position));
+  return <>{parts}</>;
+}
+
+// Journal Search Component: whole-word search over mood notes, with mood and date filters
+function JournalSearch({ userId, moodDefinitions, onSelectDate, onDeleted }: {
+  userId: string;
+  moodDefinitions: MoodDefinition[];
+  onSelectDate: (date: Date) => void;
+  onDeleted: () => void;
+}) {
+  const [query, setQuery] = useState('');
+  const [moodFilter, setMoodFilter] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [results, setResults] = useState<{ total: number; results: JournalSearchResult[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const search = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+    try {
+      setIsSearching(true);
+      setError(null);
+      const params = new URLSearchParams({ userId, q: query.trim() });
+      if (moodFilter) params.set('moodState', moodFilter);
+      // Date inputs are local days; include the whole of the "to" day
+      if (from) params.set('from', new Date(`${from}T00:00:00`).toISOString());
+      if (to) params.set('to', new Date(`${to}T23:59:59.999`).toISOString());
+
+      const response = await apiFetch(`/api/moods/search?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error);
+        setResults(null);
+        return;
+      }
+      setResults(data);
+    } catch (err) {
+      console.error('Error searching moods:', err);
+      setError('Search failed');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  // Deleted entries go to the trash, so they can be restored from Account Actions
+  const moveToTrash = async (id: string) => {
+    try {
+      const response = await apiFetch(`/api/moods/${id}`, { method: 'DELETE' });
+      if (!response.ok) return;
+      setResults(current => current && {
+        total: current.total - 1,
+        results: current.results.filter(result => result._id !== id)
+      });
+      onDeleted();
+    } catch (err) {
+      console.error('Error deleting mood:', err);
+    }
+  };
+
+  const definitionFor = (moodState: string) => moodDefinitions.find(def => def.label === moodState);
+
+  return (
+    <div className="bg-white/70 backdrop-blur-md rounded-3xl shadow-2xl p-6 border border-orange-200/50 space-y-4">
+      <form onSubmit={search} className="flex flex-wrap gap-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search your journal, e.g. sister"
+          className="flex-1 min-w-[12rem] px-4 py-2 bg-white/70 border border-gray-200/50 rounded-xl focus:outline-none focus:ring-2 focus:ring-orange-400"
+        />
+        <select
+          value={moodFilter}
+          onChange={(e) => setMoodFilter(e.target.value)}
+          className="px-3 py-2 bg-white/70 border border-gray-200/50 rounded-xl text-sm"
+        >
+          <option value="">All moods</option>
+          {moodDefinitions.map(def => <option key={def.label} value={def.label}>{def.emoji} {def.label}</option>)}
+        </select>
+        <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} aria-label="From" className="px-3 py-2 bg-white/70 border border-gray-200/50 rounded-xl text-sm" />
+        <input type="date" value={to} onChange={(e) => setTo(e.target.value)} aria-label="To" className="px-3 py-2 bg-white/70 border border-gray-200/50 rounded-xl text-sm" />
+        <button
+          type="submit"
+          disabled={isSearching || !query.trim()}
+          className="bg-gradient-to-r from-orange-500/80 to-red-500/80 hover:from-orange-600/80 hover:to-red-600/80 disabled:opacity-50 text-white font-medium py-2 px-4 rounded-xl transition-all duration-300"
+        >
+          {isSearching ? 'Searching...' : 'Search'}
+        </button>
+      </form>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {results && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            {results.total === 0
+              ? 'No entries mention all of those words.'
+              : `${results.total} ${results.total === 1 ? 'entry' : 'entries'}${results.total > results.results.length ? `, showing the newest ${results.results.length}` : ''}`}
+          </p>
+          <ul className="max-h-80 overflow-y-auto divide-y divide-gray-200/50">
+            {results.results.map(result => (
+              <li key={result._id} className="flex items-start">
+                <button
+                  onClick={() => onSelectDate(new Date(result.timestamp))}
+                  className="flex-1 text-left py-3 px-2 rounded-xl hover:bg-orange-50/70 transition-colors duration-200"
+                  title="Show this month in the calendar"
+                >
+                  <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+                    <span>{new Date(result.timestamp).toLocaleString()}</span>
+                    <span style={{ color: definitionFor(result.moodState)?.color }}>
+                      {definitionFor(result.moodState)?.emoji ?? '❔'} {result.moodState}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-700">
+                    <HighlightedSnippet snippet={result.snippet} highlights={result.highlights} />
+                  </p>
+                </button>
+                <button
+                  onClick={() => moveToTrash(result._id)}
+                  className="py-3 px-2 text-gray-400 hover:text-red-500 transition-colors duration-200"
+                  title="Move to trash"
+                >
+                  🗑️
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface TrashItem {
+  _id: string;
+  deletedAt: string;
+  restorableUntil: string;
+}
+
+interface TrashContents {
+  retentionDays: number;
+  moods: (TrashItem & { moodState: string; moodText: string; timestamp: string })[];
+  goals: (TrashItem & { title: string; category: string })[];
+}
+
+// Trash Component: deleted moods and goals, restorable until the purge job removes them
+function TrashPanel({ userId, onRestored, onClose }: {
+  userId: string;
+  onRestored: (type: 'mood' | 'goal') => void;
+  onClose: () => void;
+}) {
+  const [trash, setTrash] = useState<TrashContents | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      const response = await apiFetch(`/api/trash?userId=${userId}`);
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error);
+        return;
+      }
+      setTrash(data);
+    } catch (err) {
+      console.error('Error loading trash:', err);
+      setError('Could not load the trash');
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const restore = async (type: 'mood' | 'goal', id: string) => {
+    try {
+      setRestoringId(id);
+      setError(null);
+      const response = await apiFetch('/api/trash/restore', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, type, id })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error);
+        return;
+      }
+      onRestored(type);
+      await loadTrash();
+    } catch (err) {
+      console.error('Error restoring from trash:', err);
+      setError('Restore failed');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const daysLeft = (item: TrashItem) =>
+    Math.max(0, Math.ceil((new Date(item.restorableUntil).getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+
+  const items = trash ? [
+    ...trash.moods.map(mood => ({ ...mood, type: 'mood' as const, label: `${mood.moodState}: ${mood.moodText}`, date: mood.timestamp })),
+    ...trash.goals.map(goal => ({ ...goal, type: 'goal' as const, label: `Goal: ${goal.title}`, date: null })),
+  ].sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime()) : [];
+
+  return (
+    <div className="p-4 bg-gray-50/50 border border-gray-200/50 rounded-xl space-y-3 text-sm text-gray-700">
+      <div className="flex items-center justify-between">
+        <p className="font-semibold">Trash</p>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700">✕</button>
+      </div>
+
+      {trash && (
+        <p className="text-xs text-gray-500">
+          Deleted entries and goals stay here for {trash.retentionDays} days, then they are removed for good.
+        </p>
+      )}
+      {error && <p className="text-red-600">{error}</p>}
+      {trash && items.length === 0 && <p className="text-gray-500">The trash is empty.</p>}
+
+      {items.length > 0 && (
+        <ul className="max-h-64 overflow-y-auto divide-y divide-gray-200/50">
+          {items.map(item => (
+            <li key={`${item.type}:${item._id}`} className="flex items-center justify-between py-2 gap-3">
+              <div className="min-w-0">
+                <p className="truncate">{item.label}</p>
+                <p className="text-xs text-gray-500">
+                  {item.date && `${new Date(item.date).toLocaleDateString()} · `}
+                  {daysLeft(item)} {daysLeft(item) === 1 ? 'day' : 'days'} left to restore
+                </p>
+              </div>
+              <button
+                onClick={() => restore(item.type, item._id)}
+                disabled={restoringId === item._id}
+                className="shrink-0 bg-white/70 hover:bg-white disabled:opacity-50 text-gray-700 font-medium py-1 px-3 rounded-lg transition-all duration-300"
+              >
+                {restoringId === item._id ? 'Restoring...' : 'Restore'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// One week, month or year of /api/user-stats?period=
+interface StatsRollup {
+  period: string; // 2024-W01, 2024-01 or 2024
+  entriesCount: number;
+  dominantMood: string;
+  averageValence: number | null;
+  moods: { moodState: string; count: number }[];
+}
+
+const TREND_PERIODS = [
+  { id: 'week', label: 'Weekly' },
+  { id: 'month', label: 'Monthly' },
+  { id: 'year', label: 'Yearly' },
+] as const;
+
+// Long-term trend from the stored rollups: one bar per period, as tall as its entry count
+// and coloured by its dominant mood
+function MoodTrendChart({ moodDefinitions, refreshKey }: {
+  moodDefinitions: MoodDefinition[];
+  refreshKey: number;
+}) {
+  const [period, setPeriod] = useState<typeof TREND_PERIODS[number]['id']>('week');
+  const [rollups, setRollups] = useState<StatsRollup[]>([]);
+
+  useEffect(() => {
+    const loadTrend = async () => {
+      try {
+        const response = await apiFetch(`/api/user-stats?period=${period}`);
+        if (!response.ok) return;
+        const data: { trend?: { stats: StatsRollup[] } } = await response.json();
+        setRollups(data.trend?.stats || []);
+      } catch (error) {
+        console.error('Error loading mood trend:', error);
+      }
+    };
+    loadTrend();
+  }, [period, refreshKey]);
+
+  const maxEntries = Math.max(1, ...rollups.map(rollup => rollup.entriesCount));
+  const definitionFor = (moodState: string) => moodDefinitions.find(def => def.label === moodState);
+
+  return (
+    <div className="bg-white/70 backdrop-blur-md rounded-3xl shadow-2xl p-6 border border-indigo-200/50">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Long-term Trend</h3>
+        <div className="flex space-x-1">
+          {TREND_PERIODS.map(option => (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => setPeriod(option.id)}
+              className={`px-3 py-1 rounded-xl text-sm transition-all duration-300 ${
+                period === option.id ? 'bg-indigo-500/80 text-white' : 'bg-gray-500/10 text-gray-700 hover:bg-gray-500/20'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {rollups.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-8">No moods logged in this range yet</p>
+      ) : (
+        <div className="flex items-end space-x-1 h-48 overflow-x-auto">
+          {rollups.map(rollup => (
+            <div
+              key={rollup.period}
+              className="flex-1 min-w-[1.5rem] flex flex-col items-center justify-end h-full"
+              title={`${rollup.period}: ${rollup.entriesCount} ${rollup.entriesCount === 1 ? 'entry' : 'entries'}, mostly ${rollup.dominantMood}${
+                rollup.averageValence !== null ? ` · average valence ${rollup.averageValence}` : ''
+              }`}
+            >
+              <span className="text-sm">{definitionFor(rollup.dominantMood)?.emoji || ''}</span>
+              <div className="w-full flex-1 flex items-end">
+                <div
+                  className="w-full rounded-t-lg"
+                  style={{
+                    height: `${(rollup.entriesCount / maxEntries) * 100}%`,
+                    backgroundColor: definitionFor(rollup.dominantMood)?.color || '#9CA3AF'
+                  }}
+                />
+              </div>
+              <span className="text-[10px] text-gray-500 mt-1 whitespace-nowrap">
+                {period === 'week' ? rollup.period.slice(5) : period === 'month' ? rollup.period.slice(2) : rollup.period}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Celebrates a milestone reached in the last week
+function StreakMilestoneBanner({ milestones, today }: { milestones: StreakMilestone[]; today: string }) {
+  const weekAgo = new Date(Date.parse(`${today}T00:00:00Z`) - 6 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  const latest = milestones
+    .filter(milestone => milestone.reachedOn >= weekAgo && milestone.reachedOn <= today)
+    .sort((a, b) => b.days - a.days)[0];
+  if (!latest) return null;
+
+  const details = STREAK_MILESTONES.find(milestone => milestone.days === latest.days);
+  return (
+    <div className="bg-gradient-to-r from-amber-400/20 via-orange-400/20 to-rose-400/20 rounded-3xl p-4 border border-amber-200/50 flex items-center space-x-4">
+      <span className="text-3xl">{details?.emoji || '🎉'}</span>
+      <div>
+        <p className="font-semibold text-gray-800">{latest.days}-day streak!</p>
+        <p className="text-sm text-gray-600">
+          Your streak started on {new Date(`${latest.streakStartedOn}T00:00:00`).toLocaleDateString()}. Keep it going!
+        </p>
+      </div>
+    </div>
+  );
+}
+
+// Every badge from /api/achievements; locked ones are greyed out
+function BadgesGallery({ refreshKey }: { refreshKey: string }) {
+  const [achievements, setAchievements] = useState<Achievement[]>([]);
+
+  useEffect(() => {
+    const loadAchievements = async () => {
+      try {
+        const response = await apiFetch('/api/achievements');
+        if (!response.ok) return;
+        const data: { achievements: Achievement[] } = await response.json();
+        setAchievements(data.achievements);
+      } catch (error) {
+        console.error('Error loading achievements:', error);
+      }
+    };
+    loadAchievements();
+  }, [refreshKey]);
+
+  const earnedCount = achievements.filter(badge => badge.earnedAt).length;
+
+  return (
+    <div className="bg-white/70 backdrop-blur-md rounded-3xl shadow-2xl p-8 border border-blue-200/50">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold text-gray-800">Badges</h3>
+        <span className="text-sm text-gray-500">{earnedCount}/{achievements.length} earned</span>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        {achievements.map(badge => (
+          <div
+            key={badge.id}
+            className={`text-center p-3 rounded-xl ${badge.earnedAt ? 'bg-amber-50/70' : 'bg-gray-50/50 opacity-50 grayscale'}`}
+            title={badge.earnedAt ? `Earned ${new Date(badge.earnedAt).toLocaleDateString()}` : 'Not earned yet'}
+          >
+            <div className="text-2xl">{badge.emoji}</div>
+            <div className="text-sm font-medium text-gray-700">{badge.title}</div>
+            <div className="text-xs text-gray-500">{badge.description}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface GoalCheckinPoint {
+  _id: string;
+  amount: number;
+  note?: string;
+  checkedInAt: string;
+  progress: number;
+}
+
+// Progress over one period (the current one by default) from /api/wellness-goals/checkins:
+// a step line of the running total against the target, with the notes below
+function GoalProgressChart({ goalId, period, refreshKey }: { goalId: string; period?: string; refreshKey: number }) {
+  const [history, setHistory] = useState<{ period: string; targetValue: number; checkins: GoalCheckinPoint[] } | null>(null);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        const response = await apiFetch(`/api/wellness-goals/checkins?goalId=${goalId}${period ? `&period=${period}` : ''}`);
+        if (!response.ok) return;
+        setHistory(await response.json());
+      } catch (error) {
+        console.error('Error loading goal check-ins:', error);
+      }
+    };
+    loadHistory();
+  }, [goalId, period, refreshKey]);
+
+  if (!history) return null;
+  if (history.checkins.length === 0) {
+    return <p className="text-sm text-gray-500 text-center py-4">No check-ins in {history.period}</p>;
+  }
+
+  const { targetValue, checkins } = history;
+  const times = checkins.map(checkin => new Date(checkin.checkedInAt).getTime());
+  const first = times[0];
+  const span = Math.max(1, times[times.length - 1] - first);
+  const top = Math.max(targetValue, ...checkins.map(checkin => checkin.progress));
+  const x = (time: number) => 4 + ((time - first) / span) * 292;
+  const y = (progress: number) => 96 - (progress / top) * 88;
+
+  let points = `${x(first)},${y(0)}`;
+  checkins.forEach((checkin, i) => {
+    const previous = i > 0 ? checkins[i - 1].progress : 0;
+    points += ` ${x(times[i])},${y(previous)} ${x(times[i])},${y(checkin.progress)}`;
+  });
+
+  return (
+    <div className="mt-4 p-4 bg-white/60 rounded-xl border border-green-100">
+      <svg viewBox="0 0 300 100" className="w-full h-32" preserveAspectRatio="none">
+        <line x1="0" x2="300" y1={y(targetValue)} y2={y(targetValue)} stroke="#10B981" strokeDasharray="4 4" strokeWidth="1" />
+        <polyline points={points} fill="none" stroke="#0D9488" strokeWidth="2" />
+      </svg>
+      <div className="flex justify-between text-[10px] text-gray-500">
+        <span>{new Date(first).toLocaleDateString()}</span>
+        <span>{history.period} · Target: {targetValue}</span>
+        <span>{new Date(times[times.length - 1]).toLocaleDateString()}</span>
+      </div>
+      <ul className="mt-3 space-y-1 max-h-40 overflow-y-auto">
+        {[...checkins].reverse().map(checkin => (
+          <li key={checkin._id} className="text-xs text-gray-600 flex justify-between">
+            <span>
+              <span className={checkin.amount < 0 ? 'text-red-500' : 'text-green-600'}>
+                {checkin.amount > 0 ? '+' : ''}{checkin.amount}
+              </span>
+              {checkin.note && <span className="ml-2">{checkin.note}</span>}
+            </span>
+            <span className="text-gray-400">{new Date(checkin.checkedInAt).toLocaleString()}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 import { useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { supabaseClient } from '../utils/supabase/server';
+import { authClient } from '../utils/auth';
 
 export default function Home() {
   const router = useRouter();
@@ -9,11 +9,15 @@ export default function Home() {
   useEffect(() => {
     const checkSession = async () => {
       console.log('Checking session on home page...'); // Debug log
-      const { data: { session }, error } = await supabaseClient.auth.getSession();
-      if (error) {
-        console.error('Session check error:', error.message);
+      let session;
+      try {
+        session = await authClient.getSession();
+      } catch (error: unknown) {
+        console.error('Session check error:', error instanceof Error ? error.message : error);
         router.push('/login');
-      } else if (session) {
+        return;
+      }
+      if (session) {
         console.log('Session found, redirecting to /moods');
         router.push('/moods');
       } else {
@@ -0,0 +1,125 @@
+// Account deletion: grace period, cascading erasure and signed receipts
+// File: lib/account-erasure.ts
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { Db } from 'mongodb';
+import { collectionsFor } from './mongodb';
+import { AccountDeletion, ErasureReceipt } from './mongodb-schemas';
+import { clearKeyCache } from './encryption';
+
+const DEFAULT_GRACE_DAYS = 14;
+const DEV_SECRET = 'local-development-secret';
+
+// ACCOUNT_DELETION_GRACE_DAYS=0 erases immediately
+export function getDeletionGraceDays(): number {
+  const days = Number(process.env.ACCOUNT_DELETION_GRACE_DAYS);
+  return process.env.ACCOUNT_DELETION_GRACE_DAYS !== undefined && Number.isFinite(days) && days >= 0
+    ? days
+    : DEFAULT_GRACE_DAYS;
+}
+
+function getReceiptSecret(): string {
+  const secret = process.env.ERASURE_RECEIPT_SECRET || (process.env.NODE_ENV === 'production' ? null : DEV_SECRET);
+  if (!secret) {
+    throw new Error('ERASURE_RECEIPT_SECRET must be set to sign erasure receipts');
+  }
+  return secret;
+}
+
+export function hashUserId(userId: string): string {
+  return createHash('sha256').update(userId).digest('hex');
+}
+
+// Fixed field order, so the signature does not depend on how the receipt was stored
+function signaturePayload(receipt: Omit<ErasureReceipt, '_id' | 'signature'>): string {
+  return JSON.stringify([
+    receipt.receiptId,
+    receipt.subject,
+    new Date(receipt.requestedAt).toISOString(),
+    new Date(receipt.erasedAt).toISOString(),
+    Object.entries(receipt.deletedCounts).sort(([a], [b]) => a.localeCompare(b)),
+    receipt.authAccountDeleted,
+  ]);
+}
+
+function sign(receipt: Omit<ErasureReceipt, '_id' | 'signature'>): string {
+  return createHmac('sha256', getReceiptSecret()).update(signaturePayload(receipt)).digest('hex');
+}
+
+export function verifyErasureReceipt(receipt: ErasureReceipt): boolean {
+  const expected = Buffer.from(sign(receipt), 'hex');
+  const actual = Buffer.from(receipt.signature || '', 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export function newDeletion(requestedAt = new Date()): AccountDeletion {
+  return {
+    requestedAt,
+    scheduledFor: new Date(requestedAt.getTime() + getDeletionGraceDays() * 24 * 60 * 60 * 1000),
+    receiptId: randomBytes(16).toString('hex'),
+  };
+}
+
+// Removes the Supabase Auth user too, when a service role key is available
+async function deleteAuthAccount(userId: string): Promise<boolean> {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (process.env.NEXT_PUBLIC_AUTH_PROVIDER === 'local' || !url || !serviceKey) return false;
+
+  try {
+    const response = await fetch(`${url}/auth/v1/admin/users/${encodeURIComponent(userId)}`, {
+      method: 'DELETE',
+      headers: { apikey: serviceKey, Authorization: `Bearer ${serviceKey}` },
+    });
+    return response.ok || response.status === 404;
+  } catch (error) {
+    console.error('Could not delete auth account:', error);
+    return false;
+  }
+}
+
+// Deletes everything stored for the user and records a signed receipt.
+// The user document goes last, so an interrupted run is picked up again by purgeDueDeletions.
+export async function eraseUser(db: Db, userId: string, deletion: AccountDeletion = newDeletion()): Promise<ErasureReceipt> {
+  const collections = collectionsFor(db);
+
+  const deletedCounts: Record<string, number> = {
+    moods: (await collections.moods.deleteMany({ userId })).deletedCount,
+    wellness_goals: (await collections.wellnessGoals.deleteMany({ userId })).deletedCount,
+    goal_checkins: (await collections.goalCheckins.deleteMany({ userId })).deletedCount,
+    goal_periods: (await collections.goalPeriods.deleteMany({ userId })).deletedCount,
+    user_stats: (await collections.userStats.deleteMany({ userId })).deletedCount,
+    mood_analysis: (await collections.moodAnalysis.deleteMany({ userId })).deletedCount,
+    mood_definitions: (await collections.moodDefinitions.deleteMany({ userId })).deletedCount,
+    user_achievements: (await collections.userAchievements.deleteMany({ userId })).deletedCount,
+    // Without its data keys, any copy of the user's ciphertext (e.g. in backups) is unreadable
+    data_keys: (await collections.dataKeys.deleteMany({ userId })).deletedCount,
+  };
+  clearKeyCache(userId);
+  deletedCounts.users = (await collections.users.deleteMany({ userId })).deletedCount;
+
+  const unsigned: Omit<ErasureReceipt, '_id' | 'signature'> = {
+    receiptId: deletion.receiptId,
+    subject: hashUserId(userId),
+    requestedAt: deletion.requestedAt,
+    erasedAt: new Date(),
+    deletedCounts,
+    authAccountDeleted: await deleteAuthAccount(userId),
+  };
+  const receipt: ErasureReceipt = { ...unsigned, signature: sign(unsigned) };
+
+  await collections.erasureReceipts.insertOne(receipt);
+  return receipt;
+}
+
+// Erases every account whose grace period has ended. Run from scripts/purge-deleted-accounts.ts.
+export async function purgeDueDeletions(db: Db, now = new Date()): Promise<ErasureReceipt[]> {
+  const due = await collectionsFor(db).users
+    .find({ 'deletion.scheduledFor': { $lte: now } }, { projection: { userId: 1, deletion: 1 } })
+    .toArray();
+
+  const receipts: ErasureReceipt[] = [];
+  for (const user of due) {
+    receipts.push(await eraseUser(db, user.userId, user.deletion || undefined));
+  }
+  return receipts;
+}
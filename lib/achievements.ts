@@ -0,0 +1,169 @@
+// Badges for mood and goal activity: the registry of definitions, and the evaluator that
+// awards them after mood and goal writes. Earned badges are kept in user_achievements.
+// File: lib/achievements.ts
+import { Db } from 'mongodb';
+import { collectionsFor } from './mongodb';
+import { NOT_DELETED } from './trash';
+import { decryptingMoods } from './encrypted-fields';
+import { addDays, isoWeekStartKey } from './timezone';
+
+// What just happened; definitions only run for the triggers they list. A mood trigger carries
+// the note just written, when there is one.
+export type AchievementTrigger = { type: 'mood'; moodText?: string } | { type: 'goal' };
+
+interface AchievementContext {
+  db: Db;
+  userId: string;
+  trigger?: AchievementTrigger;
+}
+
+export interface AchievementDefinition {
+  id: string;
+  title: string;
+  description: string;
+  emoji: string;
+  triggers: AchievementTrigger['type'][];
+  // Only asked while the badge is not yet earned
+  isEarned: (context: AchievementContext) => Promise<boolean>;
+}
+
+const WEEKS_IN_A_ROW = 4;
+const REFLECTION_WORDS = 50;
+
+const wordCount = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+// The note just written, or else every stored one, decrypted. Notes shorter than `words`
+// one-letter words can't qualify, and their ciphertext is longer still, so neither is read.
+async function hasNoteOfWords({ db, userId, trigger }: AchievementContext, words: number): Promise<boolean> {
+  if (trigger?.type === 'mood' && trigger.moodText !== undefined) return wordCount(trigger.moodText) >= words;
+
+  const moods = collectionsFor(db).moods
+    .find(
+      { userId, ...NOT_DELETED, $expr: { $gte: [{ $strLenCP: { $ifNull: ['$moodText', ''] } }, 2 * words - 1] } },
+      { projection: { moodText: 1 } }
+    );
+  for await (const mood of decryptingMoods(db, userId, moods)) {
+    if (wordCount(mood.moodText) >= words) return true;
+  }
+  return false;
+}
+
+const countMoods = ({ db, userId }: AchievementContext, limit: number) =>
+  collectionsFor(db).moods.countDocuments({ userId, ...NOT_DELETED }, { limit });
+
+// Goals recur, so every completed period counts (a daily goal done on 10 days is 10)
+const countCompletedGoals = ({ db, userId }: AchievementContext, filter: Record<string, unknown> = {}) =>
+  collectionsFor(db).goalPeriods.countDocuments({ userId, isCompleted: true, ...filter });
+
+// Uses the weekly rollups on user_stats, so moods must be rolled up before this runs
+async function hasConsecutiveWeeks({ db, userId }: AchievementContext, weeks: number): Promise<boolean> {
+  const stats = await collectionsFor(db).userStats.findOne({ userId }, { projection: { weeklyStats: 1 } });
+  const starts = (stats?.weeklyStats || [])
+    .filter(week => week.entriesCount > 0)
+    .map(week => isoWeekStartKey(week.week))
+    .sort();
+  let run = 0;
+  for (let i = 0; i < starts.length; i++) {
+    run = i > 0 && addDays(starts[i - 1], 7) === starts[i] ? run + 1 : 1;
+    if (run >= weeks) return true;
+  }
+  return false;
+}
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: 'first-entry',
+    title: 'First Step',
+    description: 'Log your first mood',
+    emoji: '🌱',
+    triggers: ['mood'],
+    isEarned: async (context) => await countMoods(context, 1) >= 1,
+  },
+  {
+    id: 'entries-100',
+    title: 'Centurion',
+    description: 'Log 100 moods',
+    emoji: '💯',
+    triggers: ['mood'],
+    isEarned: async (context) => await countMoods(context, 100) >= 100,
+  },
+  {
+    id: 'reflective-writer',
+    title: 'Reflective Writer',
+    description: `Write a mood note of ${REFLECTION_WORDS} words or more`,
+    emoji: '✍️',
+    triggers: ['mood'],
+    isEarned: (context) => hasNoteOfWords(context, REFLECTION_WORDS),
+  },
+  {
+    id: 'weekly-regular',
+    title: 'Regular',
+    description: `Log at least one mood every week for ${WEEKS_IN_A_ROW} weeks in a row`,
+    emoji: '📆',
+    triggers: ['mood'],
+    isEarned: (context) => hasConsecutiveWeeks(context, WEEKS_IN_A_ROW),
+  },
+  {
+    id: 'first-goal-completed',
+    title: 'Goal Getter',
+    description: 'Complete a wellness goal',
+    emoji: '🎯',
+    triggers: ['goal'],
+    isEarned: async (context) => await countCompletedGoals(context) >= 1,
+  },
+  {
+    id: 'daily-goals-10',
+    title: 'Daily Devotion',
+    description: 'Complete 10 daily goals',
+    emoji: '🏵️',
+    triggers: ['goal'],
+    isEarned: async (context) => await countCompletedGoals(context, { category: 'daily' }) >= 10,
+  },
+];
+
+// Awards every badge that is now earned and returns the new ones. Without a trigger all
+// definitions are checked (e.g. to catch up on history). Never throws, so a failed check
+// can't fail the write that triggered it.
+export async function evaluateAchievements(db: Db, userId: string, trigger?: AchievementTrigger): Promise<AchievementDefinition[]> {
+  try {
+    const { userAchievements } = collectionsFor(db);
+    const earned = new Set(await userAchievements.distinct('achievementId', { userId }));
+    const context: AchievementContext = { db, userId, trigger };
+    const awarded: AchievementDefinition[] = [];
+
+    for (const achievement of ACHIEVEMENTS) {
+      if (earned.has(achievement.id)) continue;
+      if (trigger && !achievement.triggers.includes(trigger.type)) continue;
+      if (!(await achievement.isEarned(context))) continue;
+
+      // The unique index keeps two concurrent writes from awarding a badge twice
+      const result = await userAchievements.updateOne(
+        { userId, achievementId: achievement.id },
+        { $setOnInsert: { userId, achievementId: achievement.id, earnedAt: new Date() } },
+        { upsert: true }
+      );
+      if (result.upsertedCount > 0) awarded.push(achievement);
+    }
+    return awarded;
+  } catch (error) {
+    console.error('Error evaluating achievements:', error);
+    return [];
+  }
+}
+
+// Every badge, with when it was earned (null while locked)
+export async function getAchievements(db: Db, userId: string) {
+  const earned = await collectionsFor(db).userAchievements.find({ userId }).toArray();
+  const earnedAt = new Map(earned.map(achievement => [achievement.achievementId, achievement.earnedAt]));
+  return ACHIEVEMENTS.map(({ id, title, description, emoji }) => ({
+    id,
+    title,
+    description,
+    emoji,
+    earnedAt: earnedAt.get(id) ?? null,
+  }));
+}
+
+// What the API returns for newly earned badges
+export const describeAchievements = (achievements: AchievementDefinition[]) =>
+  achievements.map(({ id, title, description, emoji }) => ({ id, title, description, emoji }));
@@ -0,0 +1,61 @@
+// Session verification for API routes
+// File: lib/auth/index.ts
+// Runs in the edge runtime (middleware.ts) as well as in route handlers, so
+// it and the providers must only use Web APIs.
+import { NextRequest, NextResponse } from 'next/server';
+import type { AccessTokenClaims } from './jwt';
+import localAuthProvider from './local';
+import supabaseAuthProvider from './supabase';
+
+// Set by middleware.ts from the verified token; any client-sent value is overwritten
+export const USER_ID_HEADER = 'x-user-id';
+export const USER_EMAIL_HEADER = 'x-user-email';
+
+export type { AccessTokenClaims } from './jwt';
+
+export type AuthProviderName = 'supabase' | 'local';
+
+// Where access tokens come from and how they are checked
+export interface AuthProvider {
+  name: AuthProviderName;
+  verifyAccessToken: (token: string) => Promise<AccessTokenClaims | null>;
+}
+
+// NEXT_PUBLIC_ so the browser (utils/auth) picks the same provider
+export function getAuthProviderName(): AuthProviderName {
+  return process.env.NEXT_PUBLIC_AUTH_PROVIDER === 'local' ? 'local' : 'supabase';
+}
+
+export function getAuthProvider(): AuthProvider {
+  return getAuthProviderName() === 'local' ? localAuthProvider : supabaseAuthProvider;
+}
+
+export async function verifyAccessToken(token: string): Promise<AccessTokenClaims | null> {
+  try {
+    return await getAuthProvider().verifyAccessToken(token);
+  } catch (error) {
+    console.error('Access token verification failed:', error);
+    return null;
+  }
+}
+
+export function getBearerToken(request: NextRequest): string | null {
+  return request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1] ?? null;
+}
+
+type AuthResult =
+  | { userId: string; response?: undefined }
+  | { userId?: undefined; response: NextResponse };
+
+// The signed-in user's id. A userId the client sent as well (body or query)
+// must match it; it is accepted only so existing clients keep working.
+export function requireUser(request: NextRequest, claimedUserId?: unknown): AuthResult {
+  const userId = request.headers.get(USER_ID_HEADER);
+  if (!userId) {
+    return { response: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) };
+  }
+  if (claimedUserId !== undefined && claimedUserId !== null && claimedUserId !== '' && claimedUserId !== userId) {
+    return { response: NextResponse.json({ error: 'userId does not match the signed-in user' }, { status: 403 }) };
+  }
+  return { userId };
+}
@@ -0,0 +1,53 @@
+// Offline auth for development and tests: HS256 tokens signed with LOCAL_AUTH_SECRET
+// File: lib/auth/local.ts
+import { AccessTokenClaims, signHs256, verifyHs256 } from './jwt';
+import type { AuthProvider } from './index';
+
+export const DEV_USER_EMAIL = 'dev@example.com';
+const DEV_SECRET = 'local-development-secret';
+const TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Outside production a built-in secret keeps `npm run dev` working with no setup
+function getSecret(): string | null {
+  return process.env.LOCAL_AUTH_SECRET || (process.env.NODE_ENV === 'production' ? null : DEV_SECRET);
+}
+
+// /api/auth/dev-token signs anyone in without a password, so production only serves it with
+// the server-only LOCAL_AUTH_ALLOW_DEV_TOKENS=true (NEXT_PUBLIC_AUTH_PROVIDER alone is not enough)
+export function devTokensAllowed(): boolean {
+  return process.env.NODE_ENV !== 'production' || process.env.LOCAL_AUTH_ALLOW_DEV_TOKENS === 'true';
+}
+
+// Stable id per email, so a dev user keeps their data across sign-ins
+export async function localUserId(email: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(email.trim().toLowerCase()));
+  const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  return `dev-${hex.slice(0, 24)}`;
+}
+
+export async function issueLocalAccessToken(email: string = DEV_USER_EMAIL): Promise<{ accessToken: string; claims: AccessTokenClaims }> {
+  const secret = getSecret();
+  if (!secret) {
+    throw new Error('LOCAL_AUTH_SECRET must be set to issue local tokens in production');
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const claims: AccessTokenClaims = {
+    sub: await localUserId(email),
+    email: email.trim().toLowerCase(),
+    role: 'authenticated',
+    iat: now,
+    exp: now + TOKEN_TTL_SECONDS,
+  };
+  return { accessToken: await signHs256(claims, secret), claims };
+}
+
+const provider: AuthProvider = {
+  name: 'local',
+  verifyAccessToken: async (token) => {
+    const secret = getSecret();
+    return secret ? verifyHs256(token, secret) : null;
+  },
+};
+
+export default provider;
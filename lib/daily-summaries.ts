@@ -0,0 +1,152 @@
+// Several check-ins a day, summarised per day by the daily_summaries view
+// File: lib/daily-summaries.ts
+import { Db, Document } from 'mongodb';
+import { CheckInSlot, DailySummary, MoodEntry } from './mongodb-schemas';
+import { DEFAULT_TIME_ZONE, getUserTimeZone } from './timezone';
+
+export const DAILY_SUMMARIES_VIEW = 'daily_summaries';
+
+// Morning until noon, midday until 5pm, evening after that (and through the night)
+export function checkInSlotFor(hour: number): CheckInSlot {
+  if (hour >= 4 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 17) return 'midday';
+  return 'evening';
+}
+
+// checkInSlotFor, on the hour of a mood's timestamp in the zone
+function checkInSlotExpression(timeZone: string): Document {
+  const hour = { $hour: { date: '$timestamp', timezone: timeZone } };
+  return {
+    $switch: {
+      branches: [
+        { case: { $and: [{ $gte: [hour, 4] }, { $lt: [hour, 12] }] }, then: 'morning' },
+        { case: { $and: [{ $gte: [hour, 12] }, { $lt: [hour, 17] }] }, then: 'midday' },
+      ],
+      default: 'evening',
+    },
+  };
+}
+
+// Moves the user's check-ins into the slots their times fall in under a new time zone.
+// Slots that don't match the old zone were picked by hand, and stay as they are.
+export async function reslotCheckIns(db: Db, userId: string, fromTimeZone: string, toTimeZone: string): Promise<void> {
+  if (fromTimeZone === toTimeZone) return;
+  await db.collection<MoodEntry>('moods').updateMany(
+    { userId, $expr: { $eq: ['$checkInSlot', checkInSlotExpression(fromTimeZone)] } },
+    [{ $set: { checkInSlot: checkInSlotExpression(toTimeZone) } }]
+  );
+}
+
+// The view has no single user, so it looks up each owner's profile.timezone
+const ownerTimeZoneStages: Document[] = [
+  {
+    $lookup: {
+      from: 'users',
+      let: { userId: '$userId' },
+      pipeline: [
+        { $match: { $expr: { $eq: ['$userId', '$$userId'] } } },
+        { $project: { _id: 0, timezone: '$profile.timezone' } },
+      ],
+      as: 'owner',
+    },
+  },
+  { $addFields: { timeZone: { $ifNull: [{ $arrayElemAt: ['$owner.timezone', 0] }, DEFAULT_TIME_ZONE] } } },
+];
+
+// Stages of the view over moods. Days are calendar days in the user's time zone, as in
+// user-stats: pass the zone when summarising one user's moods, leave it out for the view.
+// Moods are grouped per day and label first, so the most frequent label can be picked.
+export function dailySummaryPipeline(timeZone?: string): Document[] {
+  return [
+    { $match: { deletedAt: null } },
+    ...(timeZone ? [] : ownerTimeZoneStages),
+    {
+      $group: {
+        _id: {
+          userId: '$userId',
+          date: { $dateToString: { format: '%Y-%m-%d', date: '$timestamp', timezone: timeZone ?? '$timeZone' } },
+          moodState: '$moodState',
+        },
+        count: { $sum: 1 },
+        valenceSum: { $sum: '$valence' },
+        valenceCount: { $sum: { $cond: [{ $isNumber: '$valence' }, 1, 0] } },
+        minValence: { $min: '$valence' },
+        maxValence: { $max: '$valence' },
+        lastAt: { $max: '$timestamp' },
+        checkIns: {
+          $push: {
+            _id: '$_id',
+            timestamp: '$timestamp',
+            checkInSlot: '$checkInSlot',
+            moodState: '$moodState',
+            valence: '$valence',
+            intensity: '$intensity',
+          },
+        },
+      },
+    },
+    { $sort: { count: -1, lastAt: -1 } },
+    {
+      $group: {
+        _id: { userId: '$_id.userId', date: '$_id.date' },
+        dominantMood: { $first: '$_id.moodState' },
+        entries: { $sum: '$count' },
+        moods: { $push: { moodState: '$_id.moodState', count: '$count' } },
+        valenceSum: { $sum: '$valenceSum' },
+        valenceCount: { $sum: '$valenceCount' },
+        minValence: { $min: '$minValence' },
+        maxValence: { $max: '$maxValence' },
+        checkIns: { $push: '$checkIns' },
+      },
+    },
+    {
+      $project: {
+        _id: 0,
+        userId: '$_id.userId',
+        date: '$_id.date',
+        entries: 1,
+        dominantMood: 1,
+        moods: 1,
+        averageValence: {
+          $cond: [{ $gt: ['$valenceCount', 0] }, { $round: [{ $divide: ['$valenceSum', '$valenceCount'] }, 2] }, null],
+        },
+        minValence: { $ifNull: ['$minValence', null] },
+        maxValence: { $ifNull: ['$maxValence', null] },
+        valenceRange: { $round: [{ $subtract: ['$maxValence', '$minValence'] }, 2] },
+        checkIns: { $reduce: { input: '$checkIns', initialValue: [], in: { $concatArrays: ['$$value', '$$this'] } } },
+      },
+    },
+  ];
+}
+
+// Creates (or redefines) the view
+export async function createDailySummariesView(db: Db): Promise<void> {
+  const exists = await db.listCollections({ name: DAILY_SUMMARIES_VIEW }, { nameOnly: true }).hasNext();
+  if (exists) {
+    await db.command({ collMod: DAILY_SUMMARIES_VIEW, viewOn: 'moods', pipeline: dailySummaryPipeline() });
+  } else {
+    await db.createCollection(DAILY_SUMMARIES_VIEW, { viewOn: 'moods', pipeline: dailySummaryPipeline() });
+  }
+}
+
+// The user's days with moods logged from (inclusive) until (exclusive), oldest first, check-ins
+// in time order. Runs the view's pipeline on moods directly, so the user and date filter can
+// use the moods indexes.
+export async function getDailySummaries(db: Db, userId: string, from?: Date, until?: Date): Promise<DailySummary[]> {
+  const timestamp: Record<string, Date> = {};
+  if (from) timestamp.$gte = from;
+  if (until) timestamp.$lt = until;
+
+  const summaries = await db.collection<MoodEntry>('moods')
+    .aggregate<DailySummary>([
+      { $match: { userId, ...(from || until ? { timestamp } : {}) } },
+      ...dailySummaryPipeline(await getUserTimeZone(db, userId)),
+      { $sort: { date: 1 } },
+    ])
+    .toArray();
+
+  return summaries.map(summary => ({
+    ...summary,
+    checkIns: summary.checkIns.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()),
+  }));
+}
@@ -0,0 +1,224 @@
+// Personal data export: everything stored for a user as JSON, per-collection CSV or a printable HTML report.
+// Every format is produced as a stream of text chunks, so long mood histories never sit in memory at once.
+// File: lib/data-export.ts
+import { Db, Document } from 'mongodb';
+import { collectionsFor } from './mongodb';
+import { CsvColumn, toCsv } from './csv';
+import { decryptUser, decryptingMoods } from './encrypted-fields';
+import { MoodEntry, UserStats, WellnessGoal } from './mongodb-schemas';
+
+export const EXPORT_FORMATS = ['json', 'csv', 'html'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+type WeeklyStat = UserStats['weeklyStats'][number];
+
+const moodColumns: CsvColumn<MoodEntry>[] = [
+  { header: 'timestamp', value: mood => mood.timestamp },
+  { header: 'mood', value: mood => mood.moodState },
+  { header: 'text', value: mood => mood.moodText },
+  { header: 'intensity', value: mood => mood.intensity },
+  { header: 'sentiment', value: mood => mood.sentiment },
+  { header: 'emotions', value: mood => mood.emotions },
+  { header: 'tags', value: mood => mood.tags },
+  { header: 'activities', value: mood => mood.context?.activities },
+  { header: 'sleep_hours', value: mood => mood.context?.sleepHours },
+  { header: 'location', value: mood => mood.context?.location },
+  { header: 'people', value: mood => mood.context?.people },
+  { header: 'created_at', value: mood => mood.createdAt },
+  { header: 'updated_at', value: mood => mood.updatedAt },
+];
+
+const goalColumns: CsvColumn<WellnessGoal>[] = [
+  { header: 'title', value: goal => goal.title },
+  { header: 'description', value: goal => goal.description },
+  { header: 'category', value: goal => goal.category },
+  { header: 'target_value', value: goal => goal.targetValue },
+  { header: 'current_progress', value: goal => goal.currentProgress },
+  { header: 'is_completed', value: goal => goal.isCompleted },
+  { header: 'due_date', value: goal => goal.dueDate },
+  { header: 'completed_at', value: goal => goal.completedAt },
+  { header: 'archived_at', value: goal => goal.archivedAt },
+  { header: 'created_at', value: goal => goal.createdAt },
+];
+
+const weeklyStatColumns: CsvColumn<WeeklyStat>[] = [
+  { header: 'week', value: stat => stat.week },
+  { header: 'entries', value: stat => stat.entriesCount },
+  { header: 'dominant_mood', value: stat => stat.dominantMood },
+  { header: 'average_valence', value: stat => stat.averageValence },
+];
+
+// Analyses are free-form documents written by /api/analytics/mood-pattern
+const analysisColumns: CsvColumn<Document>[] = [
+  { header: 'generated_at', value: analysis => analysis.generatedAt },
+  { header: 'time_range_days', value: analysis => analysis.timeRange },
+  { header: 'dominant_mood', value: analysis => analysis.insights?.dominantMood },
+  { header: 'mood_stability', value: analysis => analysis.insights?.moodStability },
+  { header: 'risk_level', value: analysis => analysis.insights?.riskLevel },
+  { header: 'trend', value: analysis => analysis.insights?.trendDirection },
+  { header: 'recommendations', value: analysis => analysis.recommendations },
+];
+
+// ?collection= values for CSV exports
+export const CSV_EXPORTS = ['moods', 'wellness_goals', 'weekly_stats', 'mood_analysis'] as const;
+export type CsvExport = typeof CSV_EXPORTS[number];
+
+function userCursors(db: Db, userId: string) {
+  const collections = collectionsFor(db);
+  return {
+    moods: () => decryptingMoods(
+      db,
+      userId,
+      collections.moods.find({ userId }, { projection: { userId: 0 } }).sort({ timestamp: 1, _id: 1 })
+    ),
+    goals: () => collections.wellnessGoals.find({ userId }, { projection: { userId: 0 } }).sort({ createdAt: 1 }),
+    analyses: () => collections.moodAnalysis.find({ userId }, { projection: { userId: 0 } }).sort({ generatedAt: 1 }),
+    profile: async () => {
+      const user = await collections.users.findOne({ userId }, { projection: { _id: 0 } });
+      return user && decryptUser(db, user);
+    },
+    stats: () => collections.userStats.findOne({ userId }, { projection: { _id: 0, userId: 0 } }),
+    goalCheckins: () => collections.goalCheckins.find({ userId }, { projection: { _id: 0, userId: 0 } }).sort({ checkedInAt: 1 }),
+    goalPeriods: () => collections.goalPeriods.find({ userId }, { projection: { _id: 0, userId: 0 } }).sort({ goalId: 1, startsOn: 1 }),
+    achievements: () => collections.userAchievements.find({ userId }, { projection: { _id: 0, userId: 0 } }).sort({ earnedAt: 1 }),
+  };
+}
+
+async function* jsonArray(rows: AsyncIterable<unknown>): AsyncGenerator<string> {
+  let first = true;
+  yield '[';
+  for await (const row of rows) {
+    yield (first ? '\n    ' : ',\n    ') + JSON.stringify(row);
+    first = false;
+  }
+  yield first ? ']' : '\n  ]';
+}
+
+export async function* exportJson(db: Db, userId: string): AsyncGenerator<string> {
+  const cursors = userCursors(db, userId);
+
+  yield `{\n  "exportedAt": ${JSON.stringify(new Date())},\n`;
+  yield `  "profile": ${JSON.stringify(await cursors.profile())},\n`;
+  yield `  "userStats": ${JSON.stringify(await cursors.stats())},\n`;
+  yield '  "moods": ';
+  yield* jsonArray(cursors.moods());
+  yield ',\n  "wellnessGoals": ';
+  yield* jsonArray(cursors.goals());
+  yield ',\n  "goalCheckins": ';
+  yield* jsonArray(cursors.goalCheckins());
+  yield ',\n  "goalPeriods": ';
+  yield* jsonArray(cursors.goalPeriods());
+  yield ',\n  "moodAnalysis": ';
+  yield* jsonArray(cursors.analyses());
+  yield ',\n  "achievements": ';
+  yield* jsonArray(cursors.achievements());
+  yield '\n}\n';
+}
+
+export async function* exportCsv(db: Db, userId: string, collection: CsvExport): AsyncGenerator<string> {
+  const cursors = userCursors(db, userId);
+
+  switch (collection) {
+    case 'moods':
+      yield* toCsv(moodColumns, cursors.moods());
+      break;
+    case 'wellness_goals':
+      yield* toCsv(goalColumns, cursors.goals());
+      break;
+    case 'weekly_stats':
+      yield* toCsv(weeklyStatColumns, (await cursors.stats())?.weeklyStats || []);
+      break;
+    case 'mood_analysis':
+      yield* toCsv(analysisColumns, cursors.analyses());
+      break;
+  }
+}
+
+function escapeHtml(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  const text = value instanceof Date ? value.toLocaleString('en-GB', { timeZone: 'UTC' }) : Array.isArray(value) ? value.join(', ') : String(value);
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function htmlTable<T>(columns: CsvColumn<T>[], row: T): string {
+  return `<tr>${columns.map(column => `<td>${escapeHtml(column.value(row))}</td>`).join('')}</tr>\n`;
+}
+
+function htmlHead<T>(columns: CsvColumn<T>[]): string {
+  return `<table><thead><tr>${columns.map(column => `<th>${escapeHtml(column.header.replace(/_/g, ' '))}</th>`).join('')}</tr></thead><tbody>\n`;
+}
+
+const REPORT_STYLE = `
+  body { font-family: system-ui, sans-serif; color: #1f2937; margin: 2rem; }
+  h1 { color: #047857; } h2 { margin-top: 2rem; border-bottom: 1px solid #d1d5db; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.85rem; }
+  th, td { border: 1px solid #e5e7eb; padding: 0.3rem 0.5rem; text-align: left; vertical-align: top; }
+  th { background: #ecfdf5; text-transform: capitalize; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; }
+  dt { font-weight: 600; }
+  .print { float: right; }
+  @media print { .print { display: none; } body { margin: 0; } tr { break-inside: avoid; } }
+`;
+
+// Readable summary; the browser's print dialog turns it into a PDF
+export async function* exportHtml(db: Db, userId: string): AsyncGenerator<string> {
+  const cursors = userCursors(db, userId);
+  const [profile, stats] = await Promise.all([cursors.profile(), cursors.stats()]);
+  const name = [profile?.profile?.firstName, profile?.profile?.lastName].filter(Boolean).join(' ');
+
+  yield `<!DOCTYPE html>\n<html lang="en"><head><meta charset="utf-8"><title>Taskeen data export</title><style>${REPORT_STYLE}</style></head><body>\n`;
+  yield `<button class="print" onclick="window.print()">Print / Save as PDF</button>\n`;
+  yield `<h1>Taskeen data export</h1>\n<p>Generated ${escapeHtml(new Date())} (UTC)</p>\n`;
+
+  yield '<h2>Profile</h2>\n<dl>';
+  yield `<dt>Name</dt><dd>${escapeHtml(name)}</dd><dt>Email</dt><dd>${escapeHtml(profile?.email)}</dd>`;
+  yield `<dt>Location</dt><dd>${escapeHtml([profile?.profile?.location?.city, profile?.profile?.location?.country].filter(Boolean).join(', '))}</dd>`;
+  yield `<dt>Member since</dt><dd>${escapeHtml(profile?.createdAt)}</dd></dl>\n`;
+
+  yield '<h2>Statistics</h2>\n<dl>';
+  yield `<dt>Mood entries</dt><dd>${escapeHtml(stats?.totalMoodEntries ?? 0)}</dd>`;
+  yield `<dt>Current streak</dt><dd>${escapeHtml(stats?.currentStreak ?? 0)} days</dd>`;
+  yield `<dt>Longest streak</dt><dd>${escapeHtml(stats?.longestStreak ?? 0)} days</dd></dl>\n`;
+  if (stats?.weeklyStats?.length) {
+    yield htmlHead(weeklyStatColumns);
+    for (const week of stats.weeklyStats) yield htmlTable(weeklyStatColumns, week);
+    yield '</tbody></table>\n';
+  }
+
+  yield '<h2>Wellness goals</h2>\n';
+  yield htmlHead(goalColumns);
+  for await (const goal of cursors.goals()) yield htmlTable(goalColumns, goal);
+  yield '</tbody></table>\n';
+
+  yield '<h2>Mood entries</h2>\n';
+  yield htmlHead(moodColumns);
+  for await (const mood of cursors.moods()) yield htmlTable(moodColumns, mood);
+  yield '</tbody></table>\n';
+
+  yield '<h2>Mood analyses</h2>\n';
+  yield htmlHead(analysisColumns);
+  for await (const analysis of cursors.analyses()) yield htmlTable(analysisColumns, analysis);
+  yield '</tbody></table>\n</body></html>\n';
+}
+
+export function toReadableStream(chunks: AsyncGenerator<string>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(value));
+        }
+      } catch (error) {
+        console.error('Export stream error:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
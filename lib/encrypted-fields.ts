@@ -0,0 +1,195 @@
+// Which fields are stored encrypted, and the only place they are encrypted or decrypted.
+// Routes read and write plaintext through these helpers; see lib/encryption for the keys.
+// File: lib/encrypted-fields.ts
+import { Db } from 'mongodb';
+import { DataKey, MoodEntry, User } from './mongodb-schemas';
+import { UserKeyring, blindIndex, decryptValue, encryptValue, getUserKeyring, keyIdOf } from './encryption';
+
+type MoodFields = Partial<Pick<MoodEntry, 'moodText' | 'textIndex' | 'editHistory'>>;
+type ProfileFields = Partial<Pick<User['profile'], 'phoneNumber' | 'bio'>>;
+
+const PROFILE_FIELDS = ['phoneNumber', 'bio'] as const;
+
+// The data keys a mood's encrypted values are under
+const moodKeyIds = (mood: MoodFields) => [
+  mood.moodText,
+  ...(mood.editHistory ?? []).map(edit => edit.previous.moodText),
+].map(value => (typeof value === 'string' ? keyIdOf(value) : null));
+
+function encryptMoodWith<T extends MoodFields>(keyring: UserKeyring, userId: string, mood: T): T {
+  if (typeof mood.moodText !== 'string') return mood;
+  const plaintext = decryptValue(keyring, userId, mood.moodText);
+  return {
+    ...mood,
+    moodText: encryptValue(keyring, userId, plaintext),
+    textIndex: blindIndex(keyring, plaintext),
+  };
+}
+
+function decryptMoodWith<T extends MoodFields>(keyring: UserKeyring, userId: string, mood: T): T {
+  const decrypted = { ...mood };
+  delete decrypted.textIndex;
+  if (typeof mood.moodText === 'string') {
+    decrypted.moodText = decryptValue(keyring, userId, mood.moodText);
+  }
+  if (mood.editHistory) {
+    decrypted.editHistory = mood.editHistory.map(edit => typeof edit.previous.moodText === 'string'
+      ? { ...edit, previous: { ...edit.previous, moodText: decryptValue(keyring, userId, edit.previous.moodText) } }
+      : edit
+    );
+  }
+  return decrypted;
+}
+
+// Encrypts moodText (and fills textIndex) on a document or $set about to be written
+export async function encryptMood<T extends MoodFields>(db: Db, userId: string, mood: T): Promise<T> {
+  if (typeof mood.moodText !== 'string') return mood;
+  return encryptMoodWith(await getUserKeyring(db, userId, { keyIds: moodKeyIds(mood), writing: true }), userId, mood);
+}
+
+export async function encryptMoods<T extends MoodFields>(db: Db, userId: string, moods: T[]): Promise<T[]> {
+  if (moods.length === 0) return moods;
+  const keyring = await getUserKeyring(db, userId, { keyIds: moods.flatMap(moodKeyIds), writing: true });
+  return moods.map(mood => encryptMoodWith(keyring, userId, mood));
+}
+
+// Plaintext moodText, also in editHistory; textIndex is dropped since it means nothing to callers
+export async function decryptMood<T extends MoodFields>(db: Db, userId: string, mood: T): Promise<T> {
+  return decryptMoodWith(await getUserKeyring(db, userId, { keyIds: moodKeyIds(mood) }), userId, mood);
+}
+
+export async function decryptMoods<T extends MoodFields>(db: Db, userId: string, moods: T[]): Promise<T[]> {
+  if (moods.length === 0) return moods;
+  const keyring = await getUserKeyring(db, userId, { keyIds: moods.flatMap(moodKeyIds) });
+  return moods.map(mood => decryptMoodWith(keyring, userId, mood));
+}
+
+// Decrypts while iterating, for streams over long histories
+export async function* decryptingMoods<T extends MoodFields>(db: Db, userId: string, moods: AsyncIterable<T>): AsyncGenerator<T> {
+  let keyring = await getUserKeyring(db, userId);
+  for await (const mood of moods) {
+    const keyIds = moodKeyIds(mood);
+    if (keyIds.some(keyId => keyId && !keyring.byId.has(keyId))) {
+      keyring = await getUserKeyring(db, userId, { keyIds });
+    }
+    yield decryptMoodWith(keyring, userId, mood);
+  }
+}
+
+// Previous moodText values go into editHistory encrypted too
+export async function encryptEditPrevious<T extends { moodText?: string }>(db: Db, userId: string, previous: T): Promise<T> {
+  if (typeof previous.moodText !== 'string') return previous;
+  const keyring = await getUserKeyring(db, userId, { keyIds: [keyIdOf(previous.moodText)], writing: true });
+  return { ...previous, moodText: encryptValue(keyring, userId, decryptValue(keyring, userId, previous.moodText)) };
+}
+
+// Search terms hashed the way textIndex is, for { textIndex: { $all: tokens } }
+export async function searchTokens(db: Db, userId: string, query: string): Promise<string[]> {
+  return blindIndex(await getUserKeyring(db, userId), query);
+}
+
+async function transformProfile<T extends ProfileFields>(
+  db: Db,
+  userId: string,
+  profile: T,
+  transform: (keyring: UserKeyring, value: string) => string,
+  writing = false
+): Promise<T> {
+  if (!PROFILE_FIELDS.some(field => profile[field])) return profile;
+  const keyIds = PROFILE_FIELDS.map(field => keyIdOf(profile[field] ?? ''));
+  const keyring = await getUserKeyring(db, userId, { keyIds, writing });
+  const result = { ...profile };
+  for (const field of PROFILE_FIELDS) {
+    const value = profile[field];
+    if (value) result[field] = transform(keyring, value);
+  }
+  return result;
+}
+
+// Empty strings are left as they are
+export async function encryptProfile<T extends ProfileFields>(db: Db, userId: string, profile: T): Promise<T> {
+  return transformProfile(
+    db,
+    userId,
+    profile,
+    (keyring, value) => encryptValue(keyring, userId, decryptValue(keyring, userId, value)),
+    true
+  );
+}
+
+export async function decryptUser<T extends Partial<Pick<User, 'userId' | 'profile'>>>(db: Db, user: T): Promise<T> {
+  if (!user.userId || !user.profile) return user;
+  const profile = await transformProfile(db, user.userId, user.profile, (keyring, value) =>
+    decryptValue(keyring, user.userId as string, value)
+  );
+  return { ...user, profile };
+}
+
+const notUnderKey = (keyId: string) => ({ $exists: true, $not: new RegExp(`^enc:v1:${keyId}:`) });
+
+// Writes every encrypted field of the user's data under their current key: encrypts
+// plaintext left from before encryption, and re-encrypts values under retired keys.
+export async function reencryptUserData(db: Db, userId: string): Promise<{ moods: number; users: number }> {
+  const keyring = await getUserKeyring(db, userId);
+  const keyId = keyring.current.keyId;
+  const moods = db.collection<MoodEntry>('moods');
+  const users = db.collection<User>('users');
+  let moodCount = 0;
+  let userCount = 0;
+
+  const staleMoods = moods.find(
+    { userId, $or: [{ moodText: notUnderKey(keyId) }, { editHistory: { $elemMatch: { 'previous.moodText': notUnderKey(keyId) } } }] },
+    { projection: { moodText: 1, editHistory: 1 } }
+  );
+  for await (const mood of staleMoods) {
+    const plain = decryptMoodWith(keyring, userId, mood);
+    const encrypted = encryptMoodWith(keyring, userId, plain);
+    const editHistory = plain.editHistory?.map(edit => typeof edit.previous.moodText === 'string'
+      ? { ...edit, previous: { ...edit.previous, moodText: encryptValue(keyring, userId, edit.previous.moodText) } }
+      : edit
+    );
+    await moods.updateOne(
+      { _id: mood._id },
+      { $set: { moodText: encrypted.moodText, textIndex: encrypted.textIndex, ...(editHistory ? { editHistory } : {}) } }
+    );
+    moodCount++;
+  }
+
+  const user = await users.findOne({ userId }, { projection: { profile: 1 } });
+  const profileFields = PROFILE_FIELDS.filter(field => {
+    const value = user?.profile?.[field];
+    return value && keyIdOf(value) !== keyId;
+  });
+  if (user && profileFields.length > 0) {
+    const updates: Record<string, string> = {};
+    for (const field of profileFields) {
+      const value = user.profile[field] as string;
+      updates[`profile.${field}`] = encryptValue(keyring, userId, decryptValue(keyring, userId, value));
+    }
+    await users.updateOne({ userId }, { $set: updates });
+    userCount++;
+  }
+
+  return { moods: moodCount, users: userCount };
+}
+
+// Deletes retired data keys that no stored value refers to any more
+export async function pruneRetiredKeys(db: Db): Promise<number> {
+  const dataKeys = db.collection<DataKey>('data_keys');
+  let count = 0;
+  for await (const key of dataKeys.find({ active: false })) {
+    const underKey = { $regex: `^enc:v1:${key.keyId}:` };
+    const inUse = await db.collection('moods').countDocuments({
+      userId: key.userId,
+      $or: [{ moodText: underKey }, { 'editHistory.previous.moodText': underKey }],
+    }, { limit: 1 }) + await db.collection('users').countDocuments({
+      userId: key.userId,
+      $or: [{ 'profile.phoneNumber': underKey }, { 'profile.bio': underKey }],
+    }, { limit: 1 });
+    if (inUse === 0) {
+      await dataKeys.deleteOne({ _id: key._id });
+      count++;
+    }
+  }
+  return count;
+}
@@ -0,0 +1,233 @@
+// Envelope encryption for sensitive fields: per-user data keys, wrapped under a master key
+// File: lib/encryption.ts
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, randomUUID } from 'crypto';
+import { Db } from 'mongodb';
+import { DataKey } from './mongodb-schemas';
+
+// Stored values look like enc:v1:<keyId>:<base64url(iv | ciphertext | tag)>
+const CIPHERTEXT_PREFIX = 'enc:v1:';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_CACHE_MS = 60 * 1000;
+const DEV_MASTER_KEY = createHash('sha256').update('local-development-master-key').digest().toString('base64');
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+export interface UserKey {
+  keyId: string;
+  dataKey: Buffer;
+  indexKey: Buffer;
+}
+
+// The key new values are written with, and every key the user's data may still be under
+export interface UserKeyring {
+  current: UserKey;
+  byId: Map<string, UserKey>;
+}
+
+const globalForKeys = globalThis as unknown as {
+  _userKeyrings?: Map<string, { keyring: UserKeyring; expiresAt: number }>;
+};
+
+function parseMasterKey(encoded: string): MasterKey {
+  const key = Buffer.from(encoded.trim(), 'base64');
+  if (key.length !== 32) {
+    throw new Error('Encryption master keys must be 32 bytes, base64 encoded (openssl rand -base64 32)');
+  }
+  return { id: createHash('sha256').update(key).digest('hex').slice(0, 16), key };
+}
+
+// ENCRYPTION_MASTER_KEY wraps new data keys. Keys being rotated out stay readable
+// while listed in ENCRYPTION_PREVIOUS_MASTER_KEYS (comma separated).
+export function getMasterKeys(): { current: MasterKey; all: MasterKey[] } {
+  const encoded = process.env.ENCRYPTION_MASTER_KEY || (process.env.NODE_ENV === 'production' ? null : DEV_MASTER_KEY);
+  if (!encoded) {
+    throw new Error('ENCRYPTION_MASTER_KEY must be set to read or write encrypted fields');
+  }
+  const current = parseMasterKey(encoded);
+  const previous = (process.env.ENCRYPTION_PREVIOUS_MASTER_KEYS || '')
+    .split(',')
+    .filter(value => value.trim())
+    .map(parseMasterKey);
+  return { current, all: [current, ...previous] };
+}
+
+function seal(key: Buffer, plaintext: Buffer, context: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(context));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]).toString('base64url');
+}
+
+function open(key: Buffer, sealed: string, context: string): Buffer {
+  const data = Buffer.from(sealed, 'base64url');
+  const decipher = createDecipheriv('aes-256-gcm', key, data.subarray(0, IV_BYTES));
+  decipher.setAAD(Buffer.from(context));
+  decipher.setAuthTag(data.subarray(data.length - TAG_BYTES));
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES, data.length - TAG_BYTES)), decipher.final()]);
+}
+
+// Key material is bound to its owner and key id, so wrapped keys can't be swapped between users
+const wrapContext = (doc: Pick<DataKey, 'userId' | 'keyId'>, purpose: string) => `${doc.userId}:${doc.keyId}:${purpose}`;
+
+function unwrap(doc: DataKey): UserKey {
+  const masterKey = getMasterKeys().all.find(master => master.id === doc.masterKeyId);
+  if (!masterKey) {
+    throw new Error(`Master key ${doc.masterKeyId} for data key ${doc.keyId} is not configured`);
+  }
+  return {
+    keyId: doc.keyId,
+    dataKey: open(masterKey.key, doc.wrappedKey, wrapContext(doc, 'data')),
+    indexKey: open(masterKey.key, doc.wrappedIndexKey, wrapContext(doc, 'index')),
+  };
+}
+
+export function wrapDataKey(userId: string, keyId: string, dataKey: Buffer, indexKey: Buffer): DataKey {
+  const { current } = getMasterKeys();
+  return {
+    userId,
+    keyId,
+    wrappedKey: seal(current.key, dataKey, wrapContext({ userId, keyId }, 'data')),
+    wrappedIndexKey: seal(current.key, indexKey, wrapContext({ userId, keyId }, 'index')),
+    masterKeyId: current.id,
+    active: true,
+    createdAt: new Date(),
+  };
+}
+
+const dataKeysCollection = (db: Db) => db.collection<DataKey>('data_keys');
+
+async function insertDataKey(db: Db, userId: string, indexKey: Buffer): Promise<void> {
+  await dataKeysCollection(db).insertOne(wrapDataKey(userId, randomUUID(), randomBytes(32), indexKey)).catch((error) => {
+    if (error?.code !== 11000) throw error; // another request created it first
+  });
+}
+
+export function clearKeyCache(userId?: string) {
+  if (userId) {
+    globalForKeys._userKeyrings?.delete(userId);
+  } else {
+    globalForKeys._userKeyrings?.clear();
+  }
+}
+
+// What a caller is about to do with a keyring: decrypt values under these key ids, or write
+export interface KeyringUse {
+  keyIds?: (string | null)[];
+  writing?: boolean;
+}
+
+// Another process may have rotated the user's keys since the keyring was cached: values may
+// be under a key it doesn't have yet, and its current key may have been retired (and, once
+// nothing is under it, pruned), so nothing new is written with it
+async function keyringServes(db: Db, userId: string, keyring: UserKeyring, use: KeyringUse): Promise<boolean> {
+  if (use.keyIds?.some(keyId => keyId && !keyring.byId.has(keyId))) return false;
+  if (!use.writing) return true;
+  const active = await dataKeysCollection(db).findOne(
+    { userId, keyId: keyring.current.keyId, active: true },
+    { projection: { _id: 1 } }
+  );
+  return Boolean(active);
+}
+
+// Loads (and caches briefly) the user's keys, creating their first data key on demand. A cached
+// keyring that can't serve `use` is loaded again. The partial unique index on { userId } for
+// active keys makes concurrent creation safe.
+export async function getUserKeyring(db: Db, userId: string, use: KeyringUse = {}): Promise<UserKeyring> {
+  const cache = globalForKeys._userKeyrings ??= new Map();
+  const cached = cache.get(userId);
+  if (cached && cached.expiresAt > Date.now() && await keyringServes(db, userId, cached.keyring, use)) {
+    return cached.keyring;
+  }
+
+  const collection = dataKeysCollection(db);
+  let docs = await collection.find({ userId }).sort({ createdAt: 1 }).toArray();
+  if (!docs.some(doc => doc.active)) {
+    // Mid-rotation the index key carries over, so existing textIndex entries stay searchable
+    const indexKey = docs.length > 0 ? unwrap(docs[docs.length - 1]).indexKey : randomBytes(32);
+    await insertDataKey(db, userId, indexKey);
+    docs = await collection.find({ userId }).sort({ createdAt: 1 }).toArray();
+  }
+
+  const keys = docs.map(doc => ({ doc, key: unwrap(doc) }));
+  const current = keys.find(({ doc }) => doc.active);
+  if (!current) {
+    throw new Error(`No active data key for user ${userId}`);
+  }
+
+  const keyring: UserKeyring = { current: current.key, byId: new Map(keys.map(({ key }) => [key.keyId, key])) };
+  cache.set(userId, { keyring, expiresAt: Date.now() + KEY_CACHE_MS });
+  return keyring;
+}
+
+// Retires the user's active data key and makes a new one. Existing values stay
+// readable with the retired key until reencryptUserData moves them over.
+export async function rotateDataKey(db: Db, userId: string): Promise<string> {
+  clearKeyCache(userId);
+  const { current } = await getUserKeyring(db, userId);
+  await dataKeysCollection(db).updateOne(
+    { userId, keyId: current.keyId },
+    { $set: { active: false, retiredAt: new Date() } }
+  );
+  await insertDataKey(db, userId, current.indexKey);
+  clearKeyCache(userId);
+  return (await getUserKeyring(db, userId)).current.keyId;
+}
+
+// Re-wraps every data key still under an older master key with ENCRYPTION_MASTER_KEY.
+// Field values are untouched; afterwards the old master key can be dropped.
+export async function rewrapDataKeys(db: Db): Promise<number> {
+  const { current } = getMasterKeys();
+  const collection = dataKeysCollection(db);
+  let count = 0;
+  for await (const doc of collection.find({ masterKeyId: { $ne: current.id } })) {
+    const { dataKey, indexKey } = unwrap(doc);
+    const rewrapped = wrapDataKey(doc.userId, doc.keyId, dataKey, indexKey);
+    await collection.updateOne(
+      { _id: doc._id },
+      { $set: { wrappedKey: rewrapped.wrappedKey, wrappedIndexKey: rewrapped.wrappedIndexKey, masterKeyId: current.id } }
+    );
+    count++;
+  }
+  clearKeyCache();
+  return count;
+}
+
+export function isEncrypted(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(CIPHERTEXT_PREFIX);
+}
+
+export function keyIdOf(value: string): string | null {
+  return isEncrypted(value) ? value.slice(CIPHERTEXT_PREFIX.length).split(':')[0] : null;
+}
+
+export function encryptValue(keyring: UserKeyring, userId: string, plaintext: string): string {
+  const { keyId, dataKey } = keyring.current;
+  return `${CIPHERTEXT_PREFIX}${keyId}:${seal(dataKey, Buffer.from(plaintext, 'utf8'), `${userId}:${keyId}`)}`;
+}
+
+// Values written before encryption was enabled are returned as they are
+export function decryptValue(keyring: UserKeyring, userId: string, value: string): string {
+  if (!isEncrypted(value)) return value;
+  const [keyId, sealed] = value.slice(CIPHERTEXT_PREFIX.length).split(':');
+  const key = keyring.byId.get(keyId);
+  if (!key) {
+    throw new Error(`Data key ${keyId} is missing; the value cannot be decrypted`);
+  }
+  return open(key.dataKey, sealed, `${userId}:${keyId}`).toString('utf8');
+}
+
+// Words as the blind index sees them: lowercased, 2+ letters or digits
+export const normalizeWord = (word: string) => word.toLowerCase().normalize('NFKC');
+export const WORD_PATTERN = /[\p{L}\p{N}]{2,}/gu;
+
+// Keyed hashes of the distinct words in a text. Searching for a word means
+// hashing it the same way and matching on the hash, so only whole words match.
+export function blindIndex(keyring: UserKeyring, text: string): string[] {
+  const words = new Set(Array.from(text.matchAll(WORD_PATTERN), ([word]) => normalizeWord(word)));
+  return Array.from(words, word => createHmac('sha256', keyring.current.indexKey).update(word).digest('base64url').slice(0, 16));
+}
@@ -0,0 +1,201 @@
+// Goal progress as a history of check-ins: each one records an increment for the goal's current
+// period, and the period's instance in goal_periods (and the goal, for the current period)
+// follows from their sum. Migrations use this, so it takes collections from the Db directly.
+// File: lib/goal-checkins.ts
+import { Db, ObjectId } from 'mongodb';
+import { GOAL_CHECKIN_AMOUNT_MAX, GoalCheckin, GoalPeriod, WellnessGoal } from './mongodb-schemas';
+import { currentGoalPeriod, goalPeriodFor, goalPeriodRange, summarizeGoalPeriods } from './goal-periods';
+import { dateKeyInZone, getUserTimeZone } from './timezone';
+
+export type CheckinWithProgress = GoalCheckin & { progress: number };
+
+const roundProgress = (value: number) => Math.round(value * 100) / 100;
+
+const goalsOf = (db: Db) => db.collection<WellnessGoal>('wellness_goals');
+const checkinsOf = (db: Db) => db.collection<GoalCheckin>('goal_checkins');
+const periodsOf = (db: Db) => db.collection<GoalPeriod>('goal_periods');
+
+// Sums the check-ins of one period (the current one by default) into its instance. The period
+// is completed once the sum reaches its target (completedAt keeps the first time it did) and
+// reopened if a correction takes it back below. Past periods keep the target they had; the
+// current one follows the goal's, and is mirrored on the goal itself.
+export async function recomputeGoalProgress(db: Db, userId: string, goalId: string, period?: string): Promise<WellnessGoal | null> {
+  const goal = await goalsOf(db).findOne({ _id: new ObjectId(goalId), userId });
+  if (!goal) return null;
+
+  const current = currentGoalPeriod(goal.category, await getUserTimeZone(db, userId));
+  const range = period ? goalPeriodRange(goal.category, period) : current;
+  const isCurrent = range.period === current.period;
+
+  const [totals] = await checkinsOf(db)
+    .aggregate<{ progress: number }>([
+      { $match: { userId, goalId, period: range.period } },
+      { $group: { _id: null, progress: { $sum: '$amount' } } },
+    ])
+    .toArray();
+  const progress = Math.max(0, roundProgress(totals?.progress ?? 0));
+  const goalTarget = goal.targetValue ?? 1;
+
+  const instance = await periodsOf(db).findOneAndUpdate(
+    { userId, goalId, period: range.period },
+    [
+      {
+        $set: {
+          category: goal.category,
+          startsOn: range.startsOn,
+          endsOn: range.endsOn,
+          targetValue: isCurrent ? goalTarget : { $ifNull: ['$targetValue', goalTarget] },
+          progress,
+        },
+      },
+      {
+        $set: {
+          isCompleted: { $gte: ['$progress', '$targetValue'] },
+          completedAt: { $cond: [{ $gte: ['$progress', '$targetValue'] }, { $ifNull: ['$completedAt', '$$NOW'] }, '$$REMOVE'] },
+        },
+      },
+    ],
+    { upsert: true, returnDocument: 'after' }
+  );
+  if (!isCurrent || !instance) return goal;
+
+  return goalsOf(db).findOneAndUpdate(
+    { _id: goal._id, userId },
+    instance.isCompleted
+      ? {
+        $set: { currentPeriod: range.period, currentProgress: progress, isCompleted: true, completedAt: instance.completedAt, updatedAt: new Date() },
+      }
+      : {
+        $set: { currentPeriod: range.period, currentProgress: progress, isCompleted: false, updatedAt: new Date() },
+        $unset: { completedAt: '' },
+      },
+    { returnDocument: 'after' }
+  );
+}
+
+// Records one check-in for the goal's current period and returns the updated goal
+export async function recordGoalCheckin(
+  db: Db,
+  checkin: Omit<GoalCheckin, '_id' | 'period' | 'checkedInAt'>
+): Promise<{ checkin: GoalCheckin; goal: WellnessGoal | null }> {
+  const goal = await goalsOf(db).findOne({ _id: new ObjectId(checkin.goalId), userId: checkin.userId }, { projection: { category: 1 } });
+  if (!goal) return { checkin: { ...checkin, checkedInAt: new Date() }, goal: null };
+
+  const { period } = currentGoalPeriod(goal.category, await getUserTimeZone(db, checkin.userId));
+  const saved: GoalCheckin = { ...checkin, period, amount: roundProgress(checkin.amount), checkedInAt: new Date() };
+  const result = await checkinsOf(db).insertOne(saved);
+  const updated = await recomputeGoalProgress(db, checkin.userId, checkin.goalId, period);
+  return { checkin: { ...saved, _id: result.insertedId }, goal: updated };
+}
+
+// A check-in holds at most GOAL_CHECKIN_AMOUNT_MAX either way, so larger changes are recorded
+// as several check-ins with these amounts
+export function splitCheckinAmount(amount: number): number[] {
+  const steps: number[] = [];
+  for (let remaining = roundProgress(amount); remaining !== 0; ) {
+    const step = Math.sign(remaining) * Math.min(Math.abs(remaining), GOAL_CHECKIN_AMOUNT_MAX);
+    steps.push(step);
+    remaining = roundProgress(remaining - step);
+  }
+  return steps;
+}
+
+// Moves the goal's progress in the current period by `amount`, for progress set or ticked off
+// directly
+export async function recordGoalCorrection(
+  db: Db,
+  userId: string,
+  goalId: string,
+  amount: number,
+  note: string
+): Promise<WellnessGoal | null> {
+  const goal = await goalsOf(db).findOne({ _id: new ObjectId(goalId), userId }, { projection: { category: 1 } });
+  if (!goal) return null;
+
+  const { period } = currentGoalPeriod(goal.category, await getUserTimeZone(db, userId));
+  const checkedInAt = new Date();
+  const checkins: GoalCheckin[] = splitCheckinAmount(amount).map(step => ({ userId, goalId, period, amount: step, note, checkedInAt }));
+  if (checkins.length > 0) {
+    await checkinsOf(db).insertMany(checkins);
+  }
+  return recomputeGoalProgress(db, userId, goalId, period);
+}
+
+// Moves every live, unarchived goal whose period has ended on to the current one. Goals roll
+// over when they are next read, so nothing has to run at the boundary itself.
+export async function rollOverGoals(db: Db, userId: string): Promise<void> {
+  const timeZone = await getUserTimeZone(db, userId);
+  const goals = await goalsOf(db)
+    .find({ userId, deletedAt: null, archivedAt: null }, { projection: { category: 1, currentPeriod: 1 } })
+    .toArray();
+
+  for (const goal of goals) {
+    const { period } = currentGoalPeriod(goal.category, timeZone);
+    if (goal.currentPeriod !== period) {
+      await recomputeGoalProgress(db, userId, goal._id.toString(), period);
+    }
+  }
+}
+
+// Each goal with its current period, completion rate, streak and recent periods. Archived
+// goals are summarised up to the day they were archived.
+export async function withRecurrence<T extends WellnessGoal>(db: Db, userId: string, goals: T[]) {
+  const timeZone = await getUserTimeZone(db, userId);
+  const goalIds = goals.map(goal => String(goal._id));
+  const instances = await periodsOf(db).find({ userId, goalId: { $in: goalIds } }).toArray();
+
+  return goals.map((goal, i) => ({
+    ...goal,
+    recurrence: summarizeGoalPeriods(
+      goal,
+      instances.filter(instance => instance.goalId === goalIds[i]),
+      timeZone,
+      goal.archivedAt ?? undefined
+    ),
+  }));
+}
+
+// Re-files the check-ins of the user's goals (or just one) under the periods they fall in and
+// rebuilds the instances; for category and time zone changes, and backfills. Past periods take
+// the goal's current target.
+export async function rebuildGoalPeriods(db: Db, userId: string, goalId?: string): Promise<void> {
+  const timeZone = await getUserTimeZone(db, userId);
+  const goals = await goalsOf(db)
+    .find({ userId, ...(goalId ? { _id: new ObjectId(goalId) } : {}) }, { projection: { category: 1 } })
+    .toArray();
+
+  for (const goal of goals) {
+    const id = goal._id.toString();
+    const checkins = await checkinsOf(db).find({ userId, goalId: id }, { projection: { checkedInAt: 1 } }).toArray();
+    const periods = new Set([currentGoalPeriod(goal.category, timeZone).period]);
+
+    if (checkins.length > 0) {
+      await checkinsOf(db).bulkWrite(checkins.map(checkin => {
+        const { period } = goalPeriodFor(goal.category, dateKeyInZone(checkin.checkedInAt, timeZone));
+        periods.add(period);
+        return { updateOne: { filter: { _id: checkin._id }, update: { $set: { period } } } };
+      }));
+    }
+
+    await periodsOf(db).deleteMany({ userId, goalId: id });
+    for (const period of Array.from(periods)) {
+      await recomputeGoalProgress(db, userId, id, period);
+    }
+  }
+}
+
+// The check-ins of one period of the goal (all of them without a period), oldest first, each
+// with the period's running total after it
+export async function getGoalCheckins(db: Db, userId: string, goalId: string, period?: string): Promise<CheckinWithProgress[]> {
+  const checkins = await checkinsOf(db)
+    .find({ userId, goalId, ...(period ? { period } : {}) })
+    .sort({ checkedInAt: 1, _id: 1 })
+    .toArray();
+
+  const totals = new Map<string | undefined, number>();
+  return checkins.map(checkin => {
+    const total = (totals.get(checkin.period) || 0) + checkin.amount;
+    totals.set(checkin.period, total);
+    return { ...checkin, progress: Math.max(0, roundProgress(total)) };
+  });
+}
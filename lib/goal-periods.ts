@@ -0,0 +1,104 @@
+// Recurring goals: daily, weekly and monthly goals start over at the user's local day, ISO week
+// or month boundary. Each period is an instance in goal_periods; this is the period arithmetic
+// and the per-goal summary of those instances.
+// File: lib/goal-periods.ts
+import { GoalPeriod, WellnessGoal } from './mongodb-schemas';
+import { addDays, dateKeyInZone, isDateKey, isoWeekKey, isoWeekStartKey, startOfIsoWeekKey } from './timezone';
+
+export type GoalCategory = WellnessGoal['category'];
+
+export interface GoalPeriodRange {
+  period: string;
+  startsOn: string;
+  endsOn: string;
+}
+
+// How many past periods the goals list returns with each goal
+export const GOAL_HISTORY_PERIODS = 14;
+
+// The period a local day falls in: 2024-03-05, 2024-W10 or 2024-03
+export function goalPeriodFor(category: GoalCategory, dateKey: string): GoalPeriodRange {
+  if (category === 'daily') return { period: dateKey, startsOn: dateKey, endsOn: dateKey };
+  if (category === 'weekly') {
+    const monday = startOfIsoWeekKey(dateKey);
+    return { period: isoWeekKey(dateKey), startsOn: monday, endsOn: addDays(monday, 6) };
+  }
+  const first = `${dateKey.slice(0, 7)}-01`;
+  const nextMonth = addDays(first, 31).slice(0, 7);
+  return { period: dateKey.slice(0, 7), startsOn: first, endsOn: addDays(`${nextMonth}-01`, -1) };
+}
+
+export function currentGoalPeriod(category: GoalCategory, timeZone: string, now = new Date()): GoalPeriodRange {
+  return goalPeriodFor(category, dateKeyInZone(now, timeZone));
+}
+
+// A real period key for the category (2024-03-05, 2024-W10 or 2024-03)
+export function isGoalPeriod(category: GoalCategory, period: string): boolean {
+  if (category === 'daily') return isDateKey(period);
+  if (category === 'weekly') return /^\d{4}-W\d{2}$/.test(period) && isoWeekKey(isoWeekStartKey(period)) === period;
+  return /^\d{4}-\d{2}$/.test(period) && isDateKey(`${period}-01`);
+}
+
+// The range of a period key
+export function goalPeriodRange(category: GoalCategory, period: string): GoalPeriodRange {
+  const firstDay = category === 'daily' ? period : category === 'weekly' ? isoWeekStartKey(period) : `${period}-01`;
+  return goalPeriodFor(category, firstDay);
+}
+
+export interface GoalRecurrence extends GoalPeriodRange {
+  periodsElapsed: number; // past periods, plus the current one once it is completed
+  periodsCompleted: number;
+  completionRate: number | null; // 0-1, null before the first period is over
+  streak: { current: number; longest: number };
+  // Most recent first, missed periods included
+  history: Pick<GoalPeriod, 'period' | 'startsOn' | 'endsOn' | 'targetValue' | 'progress' | 'isCompleted'>[];
+}
+
+// Walks every period from the one the goal was created in to the current one. A period without
+// an instance was missed. The current period only counts once it is completed, so a goal that
+// is still in progress never breaks its streak or lowers its rate.
+export function summarizeGoalPeriods(
+  goal: Pick<WellnessGoal, 'category' | 'createdAt' | 'targetValue'>,
+  instances: GoalPeriod[],
+  timeZone: string,
+  now = new Date()
+): GoalRecurrence {
+  const current = currentGoalPeriod(goal.category, timeZone, now);
+  const byPeriod = new Map(instances.map(instance => [instance.period, instance]));
+  const firstDays = [dateKeyInZone(goal.createdAt, timeZone), ...instances.map(instance => instance.startsOn)].sort();
+
+  const summary: GoalRecurrence = {
+    ...current,
+    periodsElapsed: 0,
+    periodsCompleted: 0,
+    completionRate: null,
+    streak: { current: 0, longest: 0 },
+    history: [],
+  };
+
+  let run = 0;
+  for (let range = goalPeriodFor(goal.category, firstDays[0]); range.startsOn <= current.startsOn;
+    range = goalPeriodFor(goal.category, addDays(range.endsOn, 1))) {
+    const instance = byPeriod.get(range.period);
+    const completed = instance?.isCompleted === true;
+    summary.history.push({
+      ...range,
+      targetValue: instance?.targetValue ?? goal.targetValue ?? 1,
+      progress: instance?.progress ?? 0,
+      isCompleted: completed,
+    });
+    if (range.period === current.period && !completed) continue;
+
+    summary.periodsElapsed++;
+    if (completed) summary.periodsCompleted++;
+    run = completed ? run + 1 : 0;
+    summary.streak.longest = Math.max(summary.streak.longest, run);
+  }
+
+  summary.streak.current = run;
+  summary.completionRate = summary.periodsElapsed > 0
+    ? Math.round((summary.periodsCompleted / summary.periodsElapsed) * 100) / 100
+    : null;
+  summary.history = summary.history.slice(-GOAL_HISTORY_PERIODS).reverse();
+  return summary;
+}
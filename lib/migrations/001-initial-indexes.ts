@@ -0,0 +1,32 @@
+// Indexes previously defined (but never applied) by initializeCollections
+// File: lib/migrations/001-initial-indexes.ts
+import type { Migration } from './index';
+
+const migration: Migration = {
+  version: 1,
+  name: 'initial-indexes',
+  up: async (db) => {
+    await db.collection('users').createIndex({ userId: 1 }, { unique: true });
+    await db.collection('users').createIndex({ email: 1 }, { unique: true });
+
+    await db.collection('moods').createIndex({ userId: 1 });
+    await db.collection('moods').createIndex({ timestamp: -1 });
+    await db.collection('moods').createIndex({ userId: 1, timestamp: -1 });
+    await db.collection('moods').createIndex({ userId: 1, timestamp: -1, _id: -1 });
+    await db.collection('moods').createIndex({ userId: 1, tags: 1 });
+    await db.collection('moods').createIndex({ userId: 1, 'context.activities': 1 });
+
+    await db.collection('wellness_goals').createIndex({ userId: 1 });
+    await db.collection('wellness_goals').createIndex({ userId: 1, category: 1 });
+    await db.collection('wellness_goals').createIndex({ dueDate: 1 });
+
+    await db.collection('user_stats').createIndex({ userId: 1 }, { unique: true });
+
+    await db.collection('mood_definitions').createIndex({ userId: 1, label: 1 }, { unique: true });
+
+    // The analytics route lists a user's latest analyses
+    await db.collection('mood_analysis').createIndex({ userId: 1, generatedAt: -1 });
+  },
+};
+
+export default migration;
@@ -0,0 +1,37 @@
+// Normalise mood entries written before the current schema
+// File: lib/migrations/002-backfill-mood-fields.ts
+import type { Migration } from './index';
+
+const migration: Migration = {
+  version: 2,
+  name: 'backfill-mood-fields',
+  up: async (db) => {
+    const moods = db.collection('moods');
+
+    // Early entries stored ISO strings, which range queries on Dates skip
+    await moods.updateMany(
+      { timestamp: { $type: 'string' } },
+      [{ $set: { timestamp: { $toDate: '$timestamp' } } }]
+    );
+    await moods.updateMany(
+      { createdAt: { $type: 'string' } },
+      [{ $set: { createdAt: { $toDate: '$createdAt' } } }]
+    );
+    await moods.updateMany(
+      { createdAt: { $exists: false } },
+      [{ $set: { createdAt: '$timestamp' } }]
+    );
+
+    await moods.updateMany({ intensity: { $exists: false } }, { $set: { intensity: null } });
+    await moods.updateMany({ emotions: { $exists: false } }, { $set: { emotions: [] } });
+    await moods.updateMany({ tags: { $exists: false } }, { $set: { tags: [] } });
+    await moods.updateMany({ context: { $exists: false } }, { $set: { context: {} } });
+
+    await db.collection('user_stats').updateMany(
+      { weeklyStats: { $exists: false } },
+      { $set: { weeklyStats: [] } }
+    );
+  },
+};
+
+export default migration;
@@ -0,0 +1,93 @@
+// $jsonSchema validators for the core collections
+// File: lib/migrations/003-json-schema-validators.ts
+import { Document } from 'mongodb';
+import { MOOD_EMOTIONS, MOOD_INTENSITY_MAX, MOOD_INTENSITY_MIN } from '../mongodb-schemas';
+import { applyValidator } from './apply-validator';
+import type { Migration } from './index';
+
+const stringArray = { bsonType: 'array', items: { bsonType: 'string' } };
+
+const validators: Record<string, Document> = {
+  users: {
+    bsonType: 'object',
+    required: ['userId', 'email', 'createdAt'],
+    properties: {
+      userId: { bsonType: 'string', minLength: 1 },
+      email: { bsonType: 'string' },
+      profile: { bsonType: 'object' },
+      preferences: { bsonType: 'object' },
+      createdAt: { bsonType: 'date' },
+      updatedAt: { bsonType: 'date' },
+    },
+  },
+  moods: {
+    bsonType: 'object',
+    required: ['userId', 'moodText', 'moodState', 'timestamp'],
+    properties: {
+      userId: { bsonType: 'string', minLength: 1 },
+      moodText: { bsonType: 'string' },
+      moodState: { bsonType: 'string', minLength: 1 },
+      timestamp: { bsonType: 'date' },
+      sentiment: { bsonType: ['string', 'null'] },
+      intensity: { bsonType: ['number', 'null'], minimum: MOOD_INTENSITY_MIN, maximum: MOOD_INTENSITY_MAX },
+      emotions: { bsonType: 'array', items: { enum: [...MOOD_EMOTIONS] } },
+      tags: stringArray,
+      context: {
+        bsonType: 'object',
+        properties: {
+          activities: stringArray,
+          sleepHours: { bsonType: ['number', 'null'], minimum: 0, maximum: 24 },
+          location: { bsonType: ['string', 'null'] },
+          people: stringArray,
+        },
+      },
+      editHistory: { bsonType: 'array' },
+      createdAt: { bsonType: 'date' },
+      updatedAt: { bsonType: 'date' },
+    },
+  },
+  wellness_goals: {
+    bsonType: 'object',
+    required: ['userId', 'title', 'category', 'isCompleted'],
+    properties: {
+      userId: { bsonType: 'string', minLength: 1 },
+      title: { bsonType: 'string', minLength: 1 },
+      description: { bsonType: 'string' },
+      category: { enum: ['daily', 'weekly', 'monthly'] },
+      targetValue: { bsonType: 'number', minimum: 0 },
+      currentProgress: { bsonType: 'number', minimum: 0 },
+      isCompleted: { bsonType: 'bool' },
+      dueDate: { bsonType: ['date', 'null'] },
+      completedAt: { bsonType: 'date' },
+      createdAt: { bsonType: 'date' },
+      updatedAt: { bsonType: 'date' },
+    },
+  },
+  user_stats: {
+    bsonType: 'object',
+    required: ['userId'],
+    properties: {
+      userId: { bsonType: 'string', minLength: 1 },
+      currentStreak: { bsonType: 'number', minimum: 0 },
+      longestStreak: { bsonType: 'number', minimum: 0 },
+      totalMoodEntries: { bsonType: 'number', minimum: 0 },
+      thisWeekEntries: { bsonType: 'number', minimum: 0 },
+      lastEntryDate: { bsonType: 'date' },
+      streakStartDate: { bsonType: ['date', 'null'] },
+      weeklyStats: { bsonType: 'array' },
+      updatedAt: { bsonType: 'date' },
+    },
+  },
+};
+
+const migration: Migration = {
+  version: 3,
+  name: 'json-schema-validators',
+  up: async (db) => {
+    for (const [name, schema] of Object.entries(validators)) {
+      await applyValidator(db, name, schema);
+    }
+  },
+};
+
+export default migration;
@@ -0,0 +1,29 @@
+// Replaces the hand-written validators from 003 with ones generated from the
+// field schemas in lib/mongodb-schemas, so the API and the database agree.
+// File: lib/migrations/004-schema-derived-validators.ts
+import { ObjectField, toJsonSchema } from '../validation';
+import { moodDefinitionSchema, moodEntrySchema, userSchema, userStatsSchema, wellnessGoalSchema } from '../mongodb-schemas';
+import { applyValidator } from './apply-validator';
+import type { Migration } from './index';
+
+const schemas: Record<string, ObjectField> = {
+  users: userSchema,
+  moods: moodEntrySchema,
+  wellness_goals: wellnessGoalSchema,
+  user_stats: userStatsSchema,
+  mood_definitions: moodDefinitionSchema,
+};
+
+// The validators follow the schemas as they are when this runs. A later change
+// to a schema needs its own migration to reach databases that already ran this one.
+const migration: Migration = {
+  version: 4,
+  name: 'schema-derived-validators',
+  up: async (db) => {
+    for (const [name, schema] of Object.entries(schemas)) {
+      await applyValidator(db, name, toJsonSchema(schema));
+    }
+  },
+};
+
+export default migration;
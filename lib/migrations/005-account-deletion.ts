@@ -0,0 +1,19 @@
+// Indexes for scheduled account deletion and erasure receipts, and the users
+// validator again now that it has the `deletion` field
+// File: lib/migrations/005-account-deletion.ts
+import { toJsonSchema } from '../validation';
+import { userSchema } from '../mongodb-schemas';
+import { applyValidator } from './apply-validator';
+import type { Migration } from './index';
+
+const migration: Migration = {
+  version: 5,
+  name: 'account-deletion',
+  up: async (db) => {
+    await db.collection('users').createIndex({ 'deletion.scheduledFor': 1 }, { sparse: true });
+    await db.collection('erasure_receipts').createIndex({ receiptId: 1 }, { unique: true });
+    await applyValidator(db, 'users', toJsonSchema(userSchema));
+  },
+};
+
+export default migration;
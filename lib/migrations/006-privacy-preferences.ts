@@ -0,0 +1,16 @@
+// The users validator again, now that preferences has the privacy consents
+// File: lib/migrations/006-privacy-preferences.ts
+import { toJsonSchema } from '../validation';
+import { userSchema } from '../mongodb-schemas';
+import { applyValidator } from './apply-validator';
+import type { Migration } from './index';
+
+const migration: Migration = {
+  version: 6,
+  name: 'privacy-preferences',
+  up: async (db) => {
+    await applyValidator(db, 'users', toJsonSchema(userSchema));
+  },
+};
+
+export default migration;
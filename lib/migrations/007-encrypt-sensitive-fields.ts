@@ -0,0 +1,33 @@
+// Envelope encryption for moodText and profile phoneNumber / bio: key storage,
+// validators that accept ciphertext, and encryption of the existing plaintext
+// File: lib/migrations/007-encrypt-sensitive-fields.ts
+import { toJsonSchema } from '../validation';
+import { moodEntrySchema, userSchema } from '../mongodb-schemas';
+import { reencryptUserData } from '../encrypted-fields';
+import { applyValidator } from './apply-validator';
+import type { Migration } from './index';
+
+const migration: Migration = {
+  version: 7,
+  name: 'encrypt-sensitive-fields',
+  up: async (db) => {
+    const dataKeys = db.collection('data_keys');
+    await dataKeys.createIndex({ userId: 1, keyId: 1 }, { unique: true });
+    await dataKeys.createIndex({ userId: 1 }, { unique: true, partialFilterExpression: { active: true } });
+    await db.collection('moods').createIndex({ userId: 1, textIndex: 1 });
+
+    // Ciphertext is longer than the plaintext limits, so those only apply in the API now
+    await applyValidator(db, 'moods', toJsonSchema(moodEntrySchema));
+    await applyValidator(db, 'users', toJsonSchema(userSchema));
+
+    const userIds = new Set<string>([
+      ...await db.collection('moods').distinct('userId'),
+      ...await db.collection('users').distinct('userId'),
+    ]);
+    for (const userId of Array.from(userIds)) {
+      await reencryptUserData(db, userId);
+    }
+  },
+};
+
+export default migration;
@@ -0,0 +1,24 @@
+// Indexes for the trash (only trashed documents are indexed), and the moods and
+// wellness_goals validators again now that both have `deletedAt`
+// File: lib/migrations/008-soft-delete.ts
+import { toJsonSchema } from '../validation';
+import { moodEntrySchema, wellnessGoalSchema } from '../mongodb-schemas';
+import { applyValidator } from './apply-validator';
+import type { Migration } from './index';
+
+const migration: Migration = {
+  version: 8,
+  name: 'soft-delete',
+  up: async (db) => {
+    for (const name of ['moods', 'wellness_goals']) {
+      await db.collection(name).createIndex(
+        { userId: 1, deletedAt: -1 },
+        { partialFilterExpression: { deletedAt: { $type: 'date' } } }
+      );
+    }
+    await applyValidator(db, 'moods', toJsonSchema(moodEntrySchema));
+    await applyValidator(db, 'wellness_goals', toJsonSchema(wellnessGoalSchema));
+  },
+};
+
+export default migration;
@@ -0,0 +1,44 @@
+// Several check-ins a day: checkInSlot and valence on every mood entry, and the
+// daily_summaries view over them
+// File: lib/migrations/009-daily-summaries.ts
+import { toJsonSchema } from '../validation';
+import { moodEntrySchema } from '../mongodb-schemas';
+import { syncMoodValence } from '../mood-definitions';
+import { createDailySummariesView } from '../daily-summaries';
+import { applyValidator } from './apply-validator';
+import type { Migration } from './index';
+
+const migration: Migration = {
+  version: 9,
+  name: 'daily-summaries',
+  up: async (db) => {
+    const moods = db.collection('moods');
+
+    // Same boundaries as checkInSlotFor, on the UTC hour
+    await moods.updateMany(
+      { checkInSlot: { $exists: false } },
+      [{
+        $set: {
+          checkInSlot: {
+            $switch: {
+              branches: [
+                { case: { $and: [{ $gte: [{ $hour: '$timestamp' }, 4] }, { $lt: [{ $hour: '$timestamp' }, 12] }] }, then: 'morning' },
+                { case: { $and: [{ $gte: [{ $hour: '$timestamp' }, 12] }, { $lt: [{ $hour: '$timestamp' }, 17] }] }, then: 'midday' },
+              ],
+              default: 'evening',
+            },
+          },
+        },
+      }]
+    );
+
+    for (const userId of await moods.distinct('userId')) {
+      await syncMoodValence(db, userId);
+    }
+
+    await applyValidator(db, 'moods', toJsonSchema(moodEntrySchema));
+    await createDailySummariesView(db);
+  },
+};
+
+export default migration;
@@ -0,0 +1,33 @@
+// Days are bucketed in each user's profile.timezone: zones Intl (and so MongoDB) can't
+// resolve become UTC, check-in slots filled from the UTC hour (009) move to the local one,
+// and daily_summaries is redefined to group by the owner's zone
+// File: lib/migrations/010-user-time-zones.ts
+import { createDailySummariesView, reslotCheckIns } from '../daily-summaries';
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from '../timezone';
+import type { Migration } from './index';
+
+const migration: Migration = {
+  version: 10,
+  name: 'user-time-zones',
+  up: async (db) => {
+    const users = db.collection('users');
+    const timeZones: unknown[] = await users.distinct('profile.timezone');
+    const invalid = timeZones.filter(timeZone => !isValidTimeZone(timeZone));
+    await users.updateMany(
+      { $or: [{ 'profile.timezone': { $in: invalid } }, { 'profile.timezone': '' }] },
+      { $set: { 'profile.timezone': DEFAULT_TIME_ZONE } }
+    );
+
+    const zoned = users.find(
+      { 'profile.timezone': { $nin: [DEFAULT_TIME_ZONE, null] } },
+      { projection: { userId: 1, 'profile.timezone': 1 } }
+    );
+    for await (const user of zoned) {
+      await reslotCheckIns(db, user.userId, DEFAULT_TIME_ZONE, user.profile.timezone);
+    }
+
+    await createDailySummariesView(db);
+  },
+};
+
+export default migration;
@@ -0,0 +1,23 @@
+// Weekly, monthly and yearly rollups on user_stats (lib/stats-rollups): the validator
+// for their new shape, then every user's rollups built from their moods
+// File: lib/migrations/011-stats-rollups.ts
+import { toJsonSchema } from '../validation';
+import { userStatsSchema } from '../mongodb-schemas';
+import { rebuildStatsRollups } from '../stats-rollups';
+import { applyValidator } from './apply-validator';
+import type { Migration } from './index';
+
+const migration: Migration = {
+  version: 11,
+  name: 'stats-rollups',
+  up: async (db) => {
+    // weeklyStats has only ever been [], so nothing stored breaks the new item shape
+    await applyValidator(db, 'user_stats', toJsonSchema(userStatsSchema));
+
+    for (const userId of await db.collection('user_stats').distinct('userId')) {
+      await rebuildStatsRollups(db, userId);
+    }
+  },
+};
+
+export default migration;
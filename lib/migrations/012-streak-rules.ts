@@ -0,0 +1,19 @@
+// Streak rules in users.preferences.streaks, and freezes, bridged days, the weekly
+// streak and milestones on user_stats (lib/streaks)
+// File: lib/migrations/012-streak-rules.ts
+import { toJsonSchema } from '../validation';
+import { userSchema, userStatsSchema } from '../mongodb-schemas';
+import { applyValidator } from './apply-validator';
+import type { Migration } from './index';
+
+// Nothing to backfill: the fields fill in on each user's next stats read
+const migration: Migration = {
+  version: 12,
+  name: 'streak-rules',
+  up: async (db) => {
+    await applyValidator(db, 'users', toJsonSchema(userSchema));
+    await applyValidator(db, 'user_stats', toJsonSchema(userStatsSchema));
+  },
+};
+
+export default migration;
@@ -0,0 +1,18 @@
+// Earned badges (lib/achievements), one per user and achievement
+// File: lib/migrations/013-user-achievements.ts
+import { toJsonSchema } from '../validation';
+import { userAchievementSchema } from '../mongodb-schemas';
+import { applyValidator } from './apply-validator';
+import type { Migration } from './index';
+
+// Nothing to backfill: GET /api/achievements awards past badges on each user's next visit
+const migration: Migration = {
+  version: 13,
+  name: 'user-achievements',
+  up: async (db) => {
+    await db.collection('user_achievements').createIndex({ userId: 1, achievementId: 1 }, { unique: true });
+    await applyValidator(db, 'user_achievements', toJsonSchema(userAchievementSchema));
+  },
+};
+
+export default migration;
@@ -0,0 +1,38 @@
+// Goal progress as check-ins (lib/goal-checkins). Goals that already have progress get
+// check-ins for it, so the sum of check-ins matches currentProgress from the start.
+// File: lib/migrations/014-goal-checkins.ts
+import { toJsonSchema } from '../validation';
+import { GoalCheckin, WellnessGoal, goalCheckinSchema } from '../mongodb-schemas';
+import { splitCheckinAmount } from '../goal-checkins';
+import { applyValidator } from './apply-validator';
+import type { Migration } from './index';
+
+const migration: Migration = {
+  version: 14,
+  name: 'goal-checkins',
+  up: async (db) => {
+    const checkins = db.collection<GoalCheckin>('goal_checkins');
+    await checkins.createIndex({ userId: 1, goalId: 1, checkedInAt: 1 });
+    // The trash purge removes check-ins by goal alone
+    await checkins.createIndex({ goalId: 1 });
+    await applyValidator(db, 'goal_checkins', toJsonSchema(goalCheckinSchema));
+
+    const goals = db.collection<WellnessGoal>('wellness_goals').find(
+      { currentProgress: { $gt: 0 } },
+      { projection: { userId: 1, currentProgress: 1, createdAt: 1, updatedAt: 1 } }
+    );
+    for await (const goal of goals) {
+      const goalId = goal._id.toString();
+      if (await checkins.countDocuments({ goalId }, { limit: 1 })) continue;
+      await checkins.insertMany(splitCheckinAmount(goal.currentProgress as number).map(amount => ({
+        userId: goal.userId,
+        goalId,
+        amount,
+        note: 'Progress recorded before check-ins',
+        checkedInAt: goal.updatedAt ?? goal.createdAt,
+      })));
+    }
+  },
+};
+
+export default migration;
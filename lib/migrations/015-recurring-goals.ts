@@ -0,0 +1,48 @@
+// Recurring goals (lib/goal-periods): goal_periods with one instance per goal and period, and
+// check-ins filed under the period they fall in. Goals ticked off before check-ins existed get
+// check-ins for the rest of their target, so they stay completed in that period.
+// File: lib/migrations/015-recurring-goals.ts
+import { toJsonSchema } from '../validation';
+import { GoalCheckin, WellnessGoal, goalCheckinSchema, goalPeriodSchema, wellnessGoalSchema } from '../mongodb-schemas';
+import { rebuildGoalPeriods, splitCheckinAmount } from '../goal-checkins';
+import { applyValidator } from './apply-validator';
+import type { Migration } from './index';
+
+const migration: Migration = {
+  version: 15,
+  name: 'recurring-goals',
+  up: async (db) => {
+    await db.collection('goal_periods').createIndex({ userId: 1, goalId: 1, period: 1 }, { unique: true });
+    // The trash purge removes periods by goal alone
+    await db.collection('goal_periods').createIndex({ goalId: 1 });
+    await db.collection('goal_checkins').createIndex({ userId: 1, goalId: 1, period: 1 });
+
+    await applyValidator(db, 'goal_periods', toJsonSchema(goalPeriodSchema));
+    await applyValidator(db, 'goal_checkins', toJsonSchema(goalCheckinSchema));
+    await applyValidator(db, 'wellness_goals', toJsonSchema(wellnessGoalSchema));
+
+    const checkins = db.collection<GoalCheckin>('goal_checkins');
+    const completed = db.collection<WellnessGoal>('wellness_goals').find({ isCompleted: true });
+    for await (const goal of completed) {
+      const goalId = goal._id.toString();
+      const [totals] = await checkins
+        .aggregate<{ progress: number }>([{ $match: { goalId } }, { $group: { _id: null, progress: { $sum: '$amount' } } }])
+        .toArray();
+      const missing = (goal.targetValue ?? 1) - (totals?.progress ?? 0);
+      if (missing <= 0) continue;
+      await checkins.insertMany(splitCheckinAmount(missing).map(amount => ({
+        userId: goal.userId,
+        goalId,
+        amount,
+        note: 'Marked complete',
+        checkedInAt: goal.completedAt ?? goal.updatedAt ?? goal.createdAt,
+      })));
+    }
+
+    for (const userId of await db.collection('wellness_goals').distinct('userId')) {
+      await rebuildGoalPeriods(db, userId);
+    }
+  },
+};
+
+export default migration;
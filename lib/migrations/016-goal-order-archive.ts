@@ -0,0 +1,26 @@
+// Manual order and archiving for wellness goals: the validator for sortOrder and archivedAt,
+// and a sortOrder for every existing goal that keeps the order the list showed (newest first)
+// File: lib/migrations/016-goal-order-archive.ts
+import { toJsonSchema } from '../validation';
+import { WellnessGoal, wellnessGoalSchema } from '../mongodb-schemas';
+import { applyValidator } from './apply-validator';
+import type { Migration } from './index';
+
+const migration: Migration = {
+  version: 16,
+  name: 'goal-order-archive',
+  up: async (db) => {
+    const goals = db.collection<WellnessGoal>('wellness_goals');
+    await goals.createIndex({ userId: 1, sortOrder: 1 });
+    await applyValidator(db, 'wellness_goals', toJsonSchema(wellnessGoalSchema));
+
+    for (const userId of await goals.distinct('userId', { sortOrder: { $exists: false } })) {
+      const ordered = await goals.find({ userId }, { projection: { _id: 1 } }).sort({ sortOrder: 1, createdAt: -1 }).toArray();
+      await goals.bulkWrite(ordered.map((goal, sortOrder) => ({
+        updateOne: { filter: { _id: goal._id }, update: { $set: { sortOrder } } },
+      })));
+    }
+  },
+};
+
+export default migration;
@@ -0,0 +1,14 @@
+// Shared by the migrations that install $jsonSchema validators
+// File: lib/migrations/apply-validator.ts
+import { Db, Document } from 'mongodb';
+
+// `moderate` leaves already-invalid documents editable; new writes must pass
+export async function applyValidator(db: Db, name: string, schema: Document) {
+  const options = { validator: { $jsonSchema: schema }, validationLevel: 'moderate', validationAction: 'error' };
+  const exists = (await db.listCollections({ name }, { nameOnly: true }).toArray()).length > 0;
+  if (exists) {
+    await db.command({ collMod: name, ...options });
+  } else {
+    await db.createCollection(name, options as Parameters<Db['createCollection']>[1]);
+  }
+}
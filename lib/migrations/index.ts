@@ -0,0 +1,150 @@
+// Versioned schema migrations
+// File: lib/migrations/index.ts
+import { Db } from 'mongodb';
+import initialIndexes from './001-initial-indexes';
+import backfillMoodFields from './002-backfill-mood-fields';
+import jsonSchemaValidators from './003-json-schema-validators';
+import schemaDerivedValidators from './004-schema-derived-validators';
+import accountDeletion from './005-account-deletion';
+import privacyPreferences from './006-privacy-preferences';
+import encryptSensitiveFields from './007-encrypt-sensitive-fields';
+import softDelete from './008-soft-delete';
+import dailySummaries from './009-daily-summaries';
+import userTimeZones from './010-user-time-zones';
+import statsRollups from './011-stats-rollups';
+import streakRules from './012-streak-rules';
+import userAchievements from './013-user-achievements';
+import goalCheckins from './014-goal-checkins';
+import recurringGoals from './015-recurring-goals';
+import goalOrderArchive from './016-goal-order-archive';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Db) => Promise<void>;
+}
+
+// One record per migration that has started; `appliedAt` is set once it finishes
+export interface SchemaMigration {
+  version: number;
+  name: string;
+  startedAt: Date;
+  appliedAt?: Date;
+  durationMs?: number;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: Date | null;
+}
+
+// Append only. Never renumber or edit a migration that has shipped; add a new one instead.
+export const MIGRATIONS: Migration[] = [
+  initialIndexes,
+  backfillMoodFields,
+  jsonSchemaValidators,
+  schemaDerivedValidators,
+  accountDeletion,
+  privacyPreferences,
+  encryptSensitiveFields,
+  softDelete,
+  dailySummaries,
+  userTimeZones,
+  statsRollups,
+  streakRules,
+  userAchievements,
+  goalCheckins,
+  recurringGoals,
+  goalOrderArchive,
+];
+
+const migrationsCollection = (db: Db) => db.collection<SchemaMigration>('schema_migrations');
+
+export async function getMigrationStatus(db: Db): Promise<MigrationStatus[]> {
+  const records = await migrationsCollection(db).find().toArray();
+  return MIGRATIONS.map(migration => ({
+    version: migration.version,
+    name: migration.name,
+    appliedAt: records.find(record => record.version === migration.version)?.appliedAt || null,
+  }));
+}
+
+// A claim without `appliedAt` older than this is taken to be left by a crashed run and taken over
+const CLAIM_TIMEOUT_MS = Number(process.env.MONGODB_MIGRATION_TIMEOUT_MS) || 15 * 60 * 1000;
+const CLAIM_POLL_MS = 1000;
+
+// Claims a migration for this process and returns when it started, or null when another
+// process has already applied it. A claim held elsewhere is waited for, so no later
+// migration runs before this one has finished.
+async function claimMigration(db: Db, migration: Migration, log: (message: string) => void): Promise<Date | null> {
+  const collection = migrationsCollection(db);
+  let waiting = false;
+
+  for (;;) {
+    const startedAt = new Date();
+    try {
+      await collection.insertOne({ version: migration.version, name: migration.name, startedAt });
+      return startedAt;
+    } catch (error) {
+      if ((error as { code?: number }).code !== 11000) throw error;
+    }
+
+    const claim = await collection.findOne({ version: migration.version });
+    if (!claim) continue; // released after a failure; try again
+    if (claim.appliedAt) return null;
+
+    if (startedAt.getTime() - claim.startedAt.getTime() > CLAIM_TIMEOUT_MS) {
+      const taken = await collection.findOneAndUpdate(
+        { version: migration.version, startedAt: claim.startedAt, appliedAt: { $exists: false } },
+        { $set: { name: migration.name, startedAt } }
+      );
+      if (taken) {
+        log(`Taking over migration ${migration.version} (${migration.name}), claimed ${claim.startedAt.toISOString()} and never finished`);
+        return startedAt;
+      }
+      continue;
+    }
+
+    if (!waiting) {
+      log(`Waiting for migration ${migration.version} (${migration.name}) to finish in another process...`);
+      waiting = true;
+    }
+    await new Promise(resolve => setTimeout(resolve, CLAIM_POLL_MS));
+  }
+}
+
+// Applies pending migrations in version order and returns the ones it ran.
+// The unique index on `version` means only one process claims each migration.
+export async function runMigrations(db: Db, log: (message: string) => void = console.log): Promise<MigrationStatus[]> {
+  const collection = migrationsCollection(db);
+  await collection.createIndex({ version: 1 }, { unique: true });
+
+  const applied: MigrationStatus[] = [];
+  const sorted = [...MIGRATIONS].sort((a, b) => a.version - b.version);
+
+  for (const migration of sorted) {
+    const startedAt = await claimMigration(db, migration, log);
+    if (!startedAt) continue; // already applied
+
+    log(`Applying migration ${migration.version} (${migration.name})...`);
+    try {
+      await migration.up(db);
+    } catch (error) {
+      // Release the claim so the migration is retried next time
+      await collection.deleteOne({ version: migration.version, startedAt });
+      throw new Error(
+        `Migration ${migration.version} (${migration.name}) failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const appliedAt = new Date();
+    await collection.updateOne(
+      { version: migration.version },
+      { $set: { appliedAt, durationMs: appliedAt.getTime() - startedAt.getTime() } }
+    );
+    applied.push({ version: migration.version, name: migration.name, appliedAt });
+  }
+
+  return applied;
+}
@@ -1,14 +1,16 @@
 // MongoDB Collections Schema Setup
 // File: lib/mongodb-schemas.ts
-import { Db } from 'mongodb';
+import { ObjectId } from 'mongodb';
+import { Schema, objectField } from './validation';
+
 export interface User {
-  _id?: string;
+  _id?: ObjectId;
   email: string;
   userId: string; // From auth system
   profile: {
     firstName?: string;
     lastName?: string;
-    age?: number;
+    age?: number | null;
     phoneNumber?: string;
     bio?: string;
     avatar?: string;
@@ -22,72 +24,465 @@ export interface User {
     notifications: boolean;
     reminderTime?: string;
     theme?: 'light' | 'dark' | 'auto';
+    privacy?: PrivacyPreferences;
+    streaks?: StreakRules;
   };
+  deletion?: AccountDeletion | null; // set while a requested deletion is in its grace period
   createdAt: Date;
   updatedAt: Date;
 }
 
+// A user's data key, stored wrapped (AES-256-GCM) under a master key from the
+// environment. Encrypted fields name the keyId they were written with; see lib/encryption.
+export interface DataKey {
+  _id?: ObjectId;
+  userId: string;
+  keyId: string;
+  wrappedKey: string; // encrypts field values
+  wrappedIndexKey: string; // HMAC key for the blind search index; kept across rotations
+  masterKeyId: string;
+  active: boolean; // one active key per user; retired keys stay until nothing uses them
+  createdAt: Date;
+  retiredAt?: Date;
+}
+
+// How forgiving streaks are; see lib/streaks for the defaults
+export interface StreakRules {
+  graceDays?: number; // missed days per week that don't break the daily streak
+  weeklyTarget?: number; // days a week to log for the weekly streak, e.g. 5 of 7
+}
+
+// Outside services that can receive a user's data
+export const EXTERNAL_PROCESSORS = ['huggingface', 'gemini', 'n8n'] as const;
+export type ExternalProcessor = typeof EXTERNAL_PROCESSORS[number];
+
+// How free text (mood notes, typed text) reaches a processor
+export const TEXT_SHARING = ['none', 'redacted', 'full'] as const;
+export type TextSharing = typeof TEXT_SHARING[number];
+
+export interface ProcessorConsent {
+  enabled?: boolean; // may the processor be called at all
+  text?: TextSharing;
+}
+
+// Missing fields fall back to DEFAULT_PRIVACY in lib/privacy (everything off)
+export type PrivacyPreferences = Partial<Record<ExternalProcessor, ProcessorConsent>> & {
+  updatedAt?: Date; // when consent last changed
+};
+
+// A pending account deletion; it can be cancelled until scheduledFor
+export interface AccountDeletion {
+  requestedAt: Date;
+  scheduledFor: Date;
+  receiptId: string; // where the erasure receipt will be found once it runs
+}
+
+// Proof that a user's data was erased. Holds no personal data: the user is
+// identified only by a hash of their id, and the signature covers every field.
+export interface ErasureReceipt {
+  _id?: ObjectId;
+  receiptId: string;
+  subject: string; // SHA-256 of the erased userId
+  requestedAt: Date;
+  erasedAt: Date;
+  deletedCounts: Record<string, number>; // documents removed per collection
+  authAccountDeleted: boolean;
+  signature: string; // HMAC-SHA256, see lib/account-erasure
+}
+
+// Same labels the emotion model behind /api/emotions/analyze returns
+export const MOOD_EMOTIONS = ['joy', 'sadness', 'fear', 'anger', 'surprise', 'disgust'] as const;
+export type MoodEmotion = typeof MOOD_EMOTIONS[number];
+
+export const MOOD_INTENSITY_MIN = 1;
+export const MOOD_INTENSITY_MAX = 10;
+
+// Part of the day a check-in belongs to; several check-ins a day are normal
+export const CHECK_IN_SLOTS = ['morning', 'midday', 'evening'] as const;
+export type CheckInSlot = typeof CHECK_IN_SLOTS[number];
+
+// Suggested activities; users can also enter their own
+export const MOOD_ACTIVITIES = [
+  'work', 'study', 'exercise', 'socializing', 'family', 'hobbies',
+  'chores', 'outdoors', 'relaxing', 'screen time', 'travel'
+] as const;
+
+// What was going on around a mood entry
+export interface MoodContext {
+  activities?: string[]; // normalised to lowercase
+  sleepHours?: number | null; // sleep the night before
+  location?: string | null;
+  people?: string[]; // normalised to lowercase
+}
+
 export interface MoodEntry {
-  _id?: string;
+  _id?: ObjectId;
   moodText: string;
-  moodState: "Happy" | "Sad" | "Stressed";
+  moodState: string; // label of a MoodDefinition
   userId: string;
   timestamp: Date;
-  sentiment?: string;
+  sentiment?: string | null;
+  intensity?: number | null; // 1-10
+  emotions?: MoodEmotion[]; // secondary emotions
+  tags?: string[]; // user-defined, normalised to lowercase
+  context?: MoodContext;
+  checkInSlot?: CheckInSlot;
+  valence?: number | null; // the mood's valence, copied from its definition (see syncMoodValence)
+  textIndex?: string[]; // blind index of moodText's words, for search without decrypting
+  createdAt: Date;
+  updatedAt?: Date;
+  editHistory?: MoodEdit[];
+  deletedAt?: Date | null; // set while the entry is in the trash
+}
+
+// One audit record per PATCH, holding the values that were overwritten
+export interface MoodEdit {
+  editedAt: Date;
+  previous: Partial<Pick<MoodEntry, 'moodText' | 'moodState' | 'timestamp' | 'sentiment' | 'intensity' | 'emotions' | 'tags' | 'context' | 'checkInSlot'>>;
+}
+
+// Mood vocabulary. userId null marks a deployment-wide definition; a user
+// definition with the same label overrides it for that user.
+export interface MoodDefinition {
+  _id?: ObjectId;
+  userId: string | null;
+  label: string;
+  emoji: string;
+  color: string; // hex, e.g. #10B981
+  valence: number; // -1 (most negative) to 1 (most positive)
+  description?: string;
+  order?: number;
   createdAt: Date;
+  updatedAt: Date;
 }
 
+// Upper bounds for a goal's target and for the amount of one check-in. Progress set directly
+// (up to the target bound) is recorded in as many check-ins as it takes.
+export const GOAL_TARGET_MAX = 100000;
+export const GOAL_CHECKIN_AMOUNT_MAX = 1000;
+
 export interface WellnessGoal {
-  _id?: string;
+  _id?: ObjectId;
   userId: string;
   title: string;
   description?: string;
   category: 'daily' | 'weekly' | 'monthly';
   targetValue?: number;
+  // Progress and completion in the current period; goals start over every day, week or month
+  currentPeriod?: string;
   currentProgress?: number;
   isCompleted: boolean;
-  dueDate?: Date;
+  dueDate?: Date | null;
+  sortOrder?: number; // ascending; new goals go first
   createdAt: Date;
   updatedAt: Date;
   completedAt?: Date;
+  archivedAt?: Date | null; // set while the goal is archived: kept, but off the list and not rolling over
+  deletedAt?: Date | null; // set while the goal is in the trash
+}
+
+// One increment of a goal's progress (negative to correct a mistake); a period's progress
+// is the sum of its check-ins (lib/goal-checkins)
+export interface GoalCheckin {
+  _id?: ObjectId;
+  userId: string;
+  goalId: string; // the goal's _id as a hex string
+  period?: string; // the goal period checked in for, see GoalPeriod
+  amount: number;
+  note?: string;
+  checkedInAt: Date;
+}
+
+// One period of a recurring goal: a local day (2024-03-05), ISO week (2024-W10) or month (2024-03)
+export interface GoalPeriod {
+  _id?: ObjectId;
+  userId: string;
+  goalId: string;
+  category: WellnessGoal['category'];
+  period: string;
+  startsOn: string; // first and last local day, YYYY-MM-DD
+  endsOn: string;
+  targetValue: number;
+  progress: number;
+  isCompleted: boolean;
+  completedAt?: Date;
+}
+
+// A badge the user has earned; the badges themselves are defined in lib/achievements
+export interface UserAchievement {
+  _id?: ObjectId;
+  userId: string;
+  achievementId: string;
+  earnedAt: Date;
 }
 
 export interface UserStats {
-  _id?: string;
+  _id?: ObjectId;
   userId: string;
   currentStreak: number;
   longestStreak: number;
   totalMoodEntries: number;
   thisWeekEntries: number;
   lastEntryDate?: Date;
-  streakStartDate?: Date;
-  weeklyStats: {
-    week: string; // ISO week format: 2024-W01
-    entriesCount: number;
-    dominantMood: string;
-  }[];
+  streakStartDate?: Date | null;
+  streakFreezes?: number; // earned and not yet spent
+  bridgedDays?: { date: string; by: 'grace' | 'freeze' }[]; // missed days inside the current streak
+  weeklyStreak?: { current: number; longest: number; target: number; thisWeekDays: number };
+  streakMilestones?: StreakMilestone[];
+  weeklyStats: (StatsRollup & { week: string })[]; // ISO week format: 2024-W01
+  monthlyStats?: (StatsRollup & { month: string })[]; // 2024-01
+  yearlyStats?: (StatsRollup & { year: string })[]; // 2024
   updatedAt: Date;
 }
 
-// Database initialization script
-export const initializeCollections = async (db: Db) => {
-  try {
-    // Create indexes for better performance
-    await db.collection('users').createIndex({ userId: 1 }, { unique: true });
-    await db.collection('users').createIndex({ email: 1 }, { unique: true });
-    
-    await db.collection('moods').createIndex({ userId: 1 });
-    await db.collection('moods').createIndex({ timestamp: -1 });
-    await db.collection('moods').createIndex({ userId: 1, timestamp: -1 });
-    
-    await db.collection('wellness_goals').createIndex({ userId: 1 });
-    await db.collection('wellness_goals').createIndex({ userId: 1, category: 1 });
-    await db.collection('wellness_goals').createIndex({ dueDate: 1 });
-    
-    await db.collection('user_stats').createIndex({ userId: 1 }, { unique: true });
-    
-    console.log('MongoDB collections and indexes created successfully');
-  } catch (error) {
-    console.error('Error initializing collections:', error);
-  }
-};
\ No newline at end of file
+// A streak reaching 7, 30 or 100 days; kept even if the streak later breaks
+export interface StreakMilestone {
+  days: number;
+  reachedOn: string; // YYYY-MM-DD in the user's time zone
+  streakStartedOn: string;
+}
+
+// One week, month or year of a user's moods, kept up to date by lib/stats-rollups
+export interface StatsRollup {
+  entriesCount: number;
+  dominantMood: string; // most frequent mood; the latest one wins ties
+  averageValence: number | null;
+  moods: { moodState: string; count: number }[];
+}
+
+// One document of the daily_summaries view (lib/daily-summaries): a user's check-ins on one day
+export interface DailySummary {
+  userId: string;
+  date: string; // YYYY-MM-DD
+  entries: number;
+  dominantMood: string; // most frequent mood; the latest one wins ties
+  moods: { moodState: string; count: number }[];
+  averageValence: number | null;
+  minValence: number | null;
+  maxValence: number | null;
+  valenceRange: number | null; // max - min: how much the mood swung during the day
+  checkIns: Pick<MoodEntry, '_id' | 'timestamp' | 'checkInSlot' | 'moodState' | 'valence' | 'intensity'>[];
+}
+
+// Field schemas for the interfaces above. Routes validate request bodies with
+// them and lib/migrations turns them into the collections' $jsonSchema validators.
+
+const LABEL = { type: 'string', trim: true, lowercase: true, minLength: 1, maxLength: 30 } as const;
+const LABEL_LIST = { type: 'array', items: LABEL, maxItems: 10, unique: true, optional: true } as const;
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+// Every field optional, so a partial $set of one consent still passes the collection validator
+const processorConsentSchema = objectField<ProcessorConsent>({
+  enabled: { type: 'boolean', optional: true },
+  text: { type: 'string', enum: TEXT_SHARING, optional: true },
+}, { optional: true });
+
+export const userSchema = objectField<User>({
+  email: { type: 'string', trim: true, lowercase: true, maxLength: 254, pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/ },
+  userId: { type: 'string', trim: true, minLength: 1 },
+  profile: objectField<User['profile']>({
+    firstName: { type: 'string', trim: true, maxLength: 50, optional: true },
+    lastName: { type: 'string', trim: true, maxLength: 50, optional: true },
+    age: { type: 'number', integer: true, minimum: 13, maximum: 120, nullable: true, optional: true },
+    phoneNumber: { type: 'string', trim: true, maxLength: 30, pattern: /^[0-9+()\-. ]*$/, optional: true, encrypted: true },
+    bio: { type: 'string', maxLength: 500, optional: true, encrypted: true },
+    avatar: { type: 'string', trim: true, maxLength: 2048, optional: true },
+    timezone: { type: 'string', trim: true, maxLength: 64, optional: true },
+    location: objectField<NonNullable<User['profile']['location']>>({
+      city: { type: 'string', trim: true, maxLength: 100, optional: true },
+      country: { type: 'string', trim: true, maxLength: 100, optional: true },
+    }, { optional: true }),
+  }, { default: {} }),
+  preferences: objectField<User['preferences']>({
+    notifications: { type: 'boolean', default: true },
+    reminderTime: { type: 'string', pattern: /^([01]\d|2[0-3]):[0-5]\d$/, optional: true },
+    theme: { type: 'string', enum: ['light', 'dark', 'auto'], optional: true },
+    privacy: objectField<PrivacyPreferences>({
+      huggingface: processorConsentSchema,
+      gemini: processorConsentSchema,
+      n8n: processorConsentSchema,
+      updatedAt: { type: 'date', serverSet: true, optional: true },
+    }, { optional: true }),
+    streaks: objectField<StreakRules>({
+      graceDays: { type: 'number', integer: true, minimum: 0, maximum: 3, optional: true },
+      weeklyTarget: { type: 'number', integer: true, minimum: 1, maximum: 7, optional: true },
+    }, { optional: true }),
+  }, { default: { notifications: true, theme: 'auto' } }),
+  deletion: objectField<AccountDeletion>({
+    requestedAt: { type: 'date' },
+    scheduledFor: { type: 'date' },
+    receiptId: { type: 'string', minLength: 1 },
+  }, { serverSet: true, optional: true, nullable: true }),
+  createdAt: { type: 'date', serverSet: true },
+  updatedAt: { type: 'date', serverSet: true },
+});
+
+export const moodContextSchema = objectField<MoodContext>({
+  activities: LABEL_LIST,
+  sleepHours: { type: 'number', minimum: 0, maximum: 24, decimals: 1, nullable: true, optional: true },
+  location: { type: 'string', trim: true, maxLength: 60, nullable: true, optional: true },
+  people: LABEL_LIST,
+}, { optional: true, default: {} });
+
+export const moodEntrySchema = objectField<MoodEntry>({
+  moodText: { type: 'string', trim: true, minLength: 1, maxLength: 5000, encrypted: true },
+  moodState: { type: 'string', trim: true, minLength: 1, maxLength: 30 },
+  userId: { type: 'string', trim: true, minLength: 1 },
+  timestamp: { type: 'date' },
+  sentiment: { type: 'string', maxLength: 30, nullable: true, optional: true },
+  intensity: {
+    type: 'number', integer: true, minimum: MOOD_INTENSITY_MIN, maximum: MOOD_INTENSITY_MAX,
+    nullable: true, optional: true, default: null
+  },
+  emotions: { type: 'array', items: { type: 'string', enum: MOOD_EMOTIONS }, unique: true, optional: true, default: [] },
+  tags: { ...LABEL_LIST, default: [] },
+  context: moodContextSchema,
+  checkInSlot: { type: 'string', enum: CHECK_IN_SLOTS, optional: true },
+  valence: { type: 'number', minimum: -1, maximum: 1, nullable: true, serverSet: true, optional: true },
+  textIndex: { type: 'array', items: { type: 'string' }, serverSet: true, optional: true },
+  createdAt: { type: 'date', serverSet: true },
+  updatedAt: { type: 'date', serverSet: true, optional: true },
+  editHistory: {
+    type: 'array',
+    serverSet: true,
+    optional: true,
+    items: objectField<MoodEdit>({
+      editedAt: { type: 'date' },
+      previous: { type: 'object', properties: {} },
+    }),
+  },
+  deletedAt: { type: 'date', serverSet: true, optional: true, nullable: true },
+});
+
+// userId is null on deployment-wide definitions and always the caller's on requests
+export const moodDefinitionSchema = objectField<MoodDefinition>({
+  userId: { type: 'string', minLength: 1, nullable: true, serverSet: true },
+  label: { type: 'string', trim: true, minLength: 1, maxLength: 30 },
+  emoji: { type: 'string', trim: true, minLength: 1, maxLength: 8 },
+  color: { type: 'string', pattern: HEX_COLOR },
+  valence: { type: 'number', minimum: -1, maximum: 1 },
+  description: { type: 'string', trim: true, maxLength: 200, optional: true, default: '' },
+  order: { type: 'number', integer: true, optional: true },
+  createdAt: { type: 'date', serverSet: true },
+  updatedAt: { type: 'date', serverSet: true },
+});
+
+export const wellnessGoalSchema = objectField<WellnessGoal>({
+  userId: { type: 'string', trim: true, minLength: 1 },
+  title: { type: 'string', trim: true, minLength: 1, maxLength: 100 },
+  description: { type: 'string', trim: true, maxLength: 500, optional: true, default: '' },
+  category: { type: 'string', enum: ['daily', 'weekly', 'monthly'] },
+  targetValue: { type: 'number', minimum: 1, maximum: GOAL_TARGET_MAX, optional: true, default: 1 },
+  currentProgress: { type: 'number', minimum: 0, optional: true, default: 0 },
+  currentPeriod: { type: 'string', serverSet: true, optional: true },
+  isCompleted: { type: 'boolean', default: false },
+  dueDate: { type: 'date', nullable: true, optional: true, default: null },
+  sortOrder: { type: 'number', integer: true, serverSet: true, optional: true },
+  createdAt: { type: 'date', serverSet: true },
+  updatedAt: { type: 'date', serverSet: true },
+  completedAt: { type: 'date', serverSet: true, optional: true },
+  archivedAt: { type: 'date', serverSet: true, optional: true, nullable: true },
+  deletedAt: { type: 'date', serverSet: true, optional: true, nullable: true },
+});
+
+export const goalCheckinSchema = objectField<GoalCheckin>({
+  userId: { type: 'string', trim: true, minLength: 1 },
+  goalId: { type: 'string', pattern: /^[0-9a-f]{24}$/ },
+  period: { type: 'string', serverSet: true, optional: true },
+  amount: { type: 'number', minimum: -GOAL_CHECKIN_AMOUNT_MAX, maximum: GOAL_CHECKIN_AMOUNT_MAX, decimals: 2, optional: true, default: 1 },
+  note: { type: 'string', trim: true, maxLength: 280, optional: true, default: '' },
+  checkedInAt: { type: 'date', serverSet: true },
+});
+
+export const goalPeriodSchema = objectField<GoalPeriod>({
+  userId: { type: 'string', minLength: 1 },
+  goalId: { type: 'string', minLength: 1 },
+  category: { type: 'string', enum: ['daily', 'weekly', 'monthly'] },
+  period: { type: 'string', minLength: 1 },
+  startsOn: { type: 'string', pattern: DATE_KEY },
+  endsOn: { type: 'string', pattern: DATE_KEY },
+  targetValue: { type: 'number', minimum: 0 },
+  progress: { type: 'number', minimum: 0 },
+  isCompleted: { type: 'boolean' },
+  completedAt: { type: 'date', optional: true },
+});
+
+export const userAchievementSchema = objectField<UserAchievement>({
+  userId: { type: 'string', minLength: 1 },
+  achievementId: { type: 'string', minLength: 1 },
+  earnedAt: { type: 'date' },
+});
+
+const statsRollupProperties: Schema<StatsRollup> = {
+  entriesCount: { type: 'number', integer: true, minimum: 0 },
+  dominantMood: { type: 'string' },
+  averageValence: { type: 'number', minimum: -1, maximum: 1, nullable: true },
+  moods: {
+    type: 'array',
+    items: objectField<StatsRollup['moods'][number]>({
+      moodState: { type: 'string' },
+      count: { type: 'number', integer: true, minimum: 1 },
+    }),
+  },
+};
+
+export const userStatsSchema = objectField<UserStats>({
+  userId: { type: 'string', minLength: 1 },
+  currentStreak: { type: 'number', integer: true, minimum: 0 },
+  longestStreak: { type: 'number', integer: true, minimum: 0 },
+  totalMoodEntries: { type: 'number', integer: true, minimum: 0 },
+  thisWeekEntries: { type: 'number', integer: true, minimum: 0 },
+  lastEntryDate: { type: 'date', optional: true },
+  streakStartDate: { type: 'date', nullable: true, optional: true },
+  streakFreezes: { type: 'number', integer: true, minimum: 0, optional: true },
+  bridgedDays: {
+    type: 'array',
+    optional: true,
+    items: objectField<NonNullable<UserStats['bridgedDays']>[number]>({
+      date: { type: 'string', pattern: DATE_KEY },
+      by: { type: 'string', enum: ['grace', 'freeze'] },
+    }),
+  },
+  weeklyStreak: objectField<NonNullable<UserStats['weeklyStreak']>>({
+    current: { type: 'number', integer: true, minimum: 0 },
+    longest: { type: 'number', integer: true, minimum: 0 },
+    target: { type: 'number', integer: true, minimum: 1, maximum: 7 },
+    thisWeekDays: { type: 'number', integer: true, minimum: 0, maximum: 7 },
+  }, { optional: true }),
+  streakMilestones: {
+    type: 'array',
+    optional: true,
+    items: objectField<StreakMilestone>({
+      days: { type: 'number', integer: true, minimum: 1 },
+      reachedOn: { type: 'string', pattern: DATE_KEY },
+      streakStartedOn: { type: 'string', pattern: DATE_KEY },
+    }),
+  },
+  weeklyStats: {
+    type: 'array',
+    items: objectField<UserStats['weeklyStats'][number]>({
+      week: { type: 'string', pattern: /^\d{4}-W\d{2}$/ },
+      ...statsRollupProperties,
+    }),
+  },
+  monthlyStats: {
+    type: 'array',
+    optional: true,
+    items: objectField<NonNullable<UserStats['monthlyStats']>[number]>({
+      month: { type: 'string', pattern: /^\d{4}-\d{2}$/ },
+      ...statsRollupProperties,
+    }),
+  },
+  yearlyStats: {
+    type: 'array',
+    optional: true,
+    items: objectField<NonNullable<UserStats['yearlyStats']>[number]>({
+      year: { type: 'string', pattern: /^\d{4}$/ },
+      ...statsRollupProperties,
+    }),
+  },
+  updatedAt: { type: 'date' },
+});
+
+// Indexes and validators live in lib/migrations and are applied by runMigrations
@@ -0,0 +1,100 @@
+// Shared MongoDB connection and typed collections
+// File: lib/mongodb.ts
+import { Collection, Db, Document, MongoClient } from 'mongodb';
+import {
+  DataKey,
+  ErasureReceipt,
+  GoalCheckin,
+  GoalPeriod,
+  MoodDefinition,
+  MoodEntry,
+  User,
+  UserAchievement,
+  UserStats,
+  WellnessGoal,
+} from './mongodb-schemas';
+import { runMigrations } from './migrations';
+
+// One client (and pool) per server process. Kept on globalThis so dev-mode
+// hot reloads reuse it instead of opening a new pool every time.
+const globalForMongo = globalThis as unknown as {
+  _mongoClientPromise?: Promise<MongoClient>;
+  _mongoMigrationsPromise?: Promise<void>;
+};
+
+export function getDatabaseName(): string {
+  return process.env.MONGODB_DB || 'mental_health_tracker';
+}
+
+export function getMongoClient(): Promise<MongoClient> {
+  if (!globalForMongo._mongoClientPromise) {
+    const uri = process.env.MONGODB_URI || 'mongodb://localhost:27017';
+    const maxPoolSize = Number(process.env.MONGODB_MAX_POOL_SIZE) || 10;
+    const client = new MongoClient(uri, { maxPoolSize });
+    globalForMongo._mongoClientPromise = client.connect().catch((error) => {
+      // Let the next request retry instead of caching the failure
+      globalForMongo._mongoClientPromise = undefined;
+      throw error;
+    });
+  }
+  return globalForMongo._mongoClientPromise;
+}
+
+// Pending migrations run once per process, before the first query.
+// Set MONGODB_AUTO_MIGRATE=false to leave them to `npm run migrate`.
+function ensureMigrated(db: Db): Promise<void> {
+  if (!globalForMongo._mongoMigrationsPromise) {
+    globalForMongo._mongoMigrationsPromise = runMigrations(db)
+      .then(() => undefined)
+      .catch((error) => {
+        // Routes rely on the new schema, so fail this request and let the next one retry
+        globalForMongo._mongoMigrationsPromise = undefined;
+        console.error('Schema migrations failed:', error);
+        throw error;
+      });
+  }
+  return globalForMongo._mongoMigrationsPromise;
+}
+
+export async function getDb(): Promise<Db> {
+  const client = await getMongoClient();
+  const db = client.db(getDatabaseName());
+  if (process.env.MONGODB_AUTO_MIGRATE !== 'false') {
+    await ensureMigrated(db);
+  }
+  return db;
+}
+
+export interface Collections {
+  users: Collection<User>;
+  moods: Collection<MoodEntry>;
+  wellnessGoals: Collection<WellnessGoal>;
+  userStats: Collection<UserStats>;
+  moodDefinitions: Collection<MoodDefinition>;
+  moodAnalysis: Collection<Document>;
+  erasureReceipts: Collection<ErasureReceipt>;
+  dataKeys: Collection<DataKey>;
+  userAchievements: Collection<UserAchievement>;
+  goalCheckins: Collection<GoalCheckin>;
+  goalPeriods: Collection<GoalPeriod>;
+}
+
+export function collectionsFor(db: Db): Collections {
+  return {
+    users: db.collection<User>('users'),
+    moods: db.collection<MoodEntry>('moods'),
+    wellnessGoals: db.collection<WellnessGoal>('wellness_goals'),
+    userStats: db.collection<UserStats>('user_stats'),
+    moodDefinitions: db.collection<MoodDefinition>('mood_definitions'),
+    moodAnalysis: db.collection('mood_analysis'),
+    erasureReceipts: db.collection<ErasureReceipt>('erasure_receipts'),
+    dataKeys: db.collection<DataKey>('data_keys'),
+    userAchievements: db.collection<UserAchievement>('user_achievements'),
+    goalCheckins: db.collection<GoalCheckin>('goal_checkins'),
+    goalPeriods: db.collection<GoalPeriod>('goal_periods'),
+  };
+}
+
+export async function getCollections(): Promise<Collections> {
+  return collectionsFor(await getDb());
+}
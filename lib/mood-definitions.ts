@@ -0,0 +1,102 @@
+// Mood vocabulary lookup
+// File: lib/mood-definitions.ts
+import { Db } from 'mongodb';
+import { MoodDefinition, MoodEntry } from './mongodb-schemas';
+
+export type ValenceBand = 'positive' | 'mixed' | 'negative';
+
+export interface ResolvedMoodDefinition extends Omit<MoodDefinition, 'createdAt' | 'updatedAt'> {
+  source: 'user' | 'deployment' | 'builtin';
+}
+
+// Used when the deployment has not stored any definitions of its own
+export const DEFAULT_MOOD_DEFINITIONS: Omit<ResolvedMoodDefinition, 'userId' | 'source'>[] = [
+  { label: 'Happy', emoji: '😊', color: '#10B981', valence: 1, description: 'Feeling positive and upbeat', order: 0 },
+  { label: 'Sad', emoji: '😢', color: '#EF4444', valence: -1, description: 'Feeling down or melancholy', order: 1 },
+  { label: 'Stressed', emoji: '😰', color: '#F59E0B', valence: 0, description: 'Feeling overwhelmed or anxious', order: 2 },
+];
+
+const sameLabel = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+function resolve(doc: MoodDefinition, source: ResolvedMoodDefinition['source']): ResolvedMoodDefinition {
+  return {
+    _id: doc._id,
+    userId: doc.userId,
+    label: doc.label,
+    emoji: doc.emoji,
+    color: doc.color,
+    valence: doc.valence,
+    description: doc.description,
+    order: doc.order,
+    source
+  };
+}
+
+// Deployment definitions (or the built-in defaults) merged with the user's own,
+// user definitions winning on label clashes.
+export async function getMoodDefinitions(db: Db, userId?: string | null): Promise<ResolvedMoodDefinition[]> {
+  // Not through lib/mongodb, so migrations can use this too
+  const collection = db.collection<MoodDefinition>('mood_definitions');
+
+  const deploymentDocs = await collection.find({ userId: null }).toArray();
+  const base: ResolvedMoodDefinition[] = deploymentDocs.length > 0
+    ? deploymentDocs.map(doc => resolve(doc, 'deployment'))
+    : DEFAULT_MOOD_DEFINITIONS.map(def => ({ ...def, userId: null, source: 'builtin' as const }));
+
+  const userDocs = userId ? await collection.find({ userId }).toArray() : [];
+  const merged = base.filter(def => !userDocs.some(doc => sameLabel(doc.label, def.label)));
+  userDocs.forEach(doc => merged.push(resolve(doc, 'user')));
+
+  return merged.sort((a, b) =>
+    (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER) || b.valence - a.valence
+  );
+}
+
+export function findMoodDefinition<T extends { label: string }>(definitions: T[], label: unknown): T | undefined {
+  if (typeof label !== 'string') return undefined;
+  return definitions.find(def => sameLabel(def.label, label));
+}
+
+// Unknown labels (e.g. from a deleted definition) count as neutral
+export function getValence(definitions: { label: string; valence: number }[], label: string): number {
+  return findMoodDefinition(definitions, label)?.valence ?? 0;
+}
+
+// Entries carry their mood's valence so daily_summaries can aggregate it without a lookup.
+// Run after anything that changes which valence a label resolves to for the user.
+export async function syncMoodValence(db: Db, userId: string): Promise<void> {
+  const definitions = await getMoodDefinitions(db, userId);
+  const moods = db.collection<MoodEntry>('moods');
+  for (const def of definitions) {
+    await moods.updateMany(
+      { userId, moodState: def.label, valence: { $ne: def.valence } },
+      { $set: { valence: def.valence } }
+    );
+  }
+  await moods.updateMany(
+    { userId, moodState: { $nin: definitions.map(def => def.label) }, valence: { $ne: 0 } },
+    { $set: { valence: 0 } }
+  );
+}
+
+export function getValenceBand(valence: number): ValenceBand {
+  if (valence >= 0.5) return 'positive';
+  if (valence <= -0.5) return 'negative';
+  return 'mixed';
+}
+
+// The definition whose valence is closest to the given score
+export function moodForValence<T extends { valence: number }>(definitions: T[], valence: number): T | undefined {
+  return definitions.reduce<T | undefined>((closest, def) =>
+    !closest || Math.abs(def.valence - valence) < Math.abs(closest.valence - valence) ? def : closest
+  , undefined);
+}
+
+// Rough valence of the emotion model's labels (j-hartmann/emotion-english-distilroberta-base)
+export function valenceForEmotion(emotion: string): number {
+  if (emotion === 'joy') return 1;
+  if (emotion === 'sadness') return -1;
+  if (emotion === 'surprise') return 0.5;
+  if (emotion === 'neutral') return 0.25;
+  return 0;
+}
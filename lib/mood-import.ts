@@ -0,0 +1,266 @@
+// Importing mood history exported from this app or from other trackers (CSV or JSON)
+// File: lib/mood-import.ts
+import { Db } from 'mongodb';
+import { collectionsFor } from './mongodb';
+import { parseCsv } from './csv';
+import { decryptMoods, encryptMoods } from './encrypted-fields';
+import { NOT_DELETED } from './trash';
+import { MoodEntry, moodEntrySchema } from './mongodb-schemas';
+import { ResolvedMoodDefinition, findMoodDefinition, getValence, moodForValence } from './mood-definitions';
+import { checkInSlotFor } from './daily-summaries';
+import { getUserTimeZone, hourInZone, wallClockToInstant } from './timezone';
+import { FieldError, validate } from './validation';
+
+export const IMPORT_FORMATS = ['csv', 'json'] as const;
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+export const MAX_IMPORT_ROWS = 10000;
+
+// Source column for each field. `time` is for trackers that keep the time of day
+// in its own column (Daylio); it is appended to the timestamp column's value.
+export interface ImportColumnMapping {
+  moodText?: string | null;
+  moodState: string;
+  timestamp: string;
+  time?: string | null;
+  intensity?: string | null;
+  tags?: string | null;
+}
+
+export interface ImportMapping {
+  columns: ImportColumnMapping;
+  moodLabels: Record<string, string>; // foreign label (lowercase) -> our mood label
+}
+
+export interface ImportRowError extends FieldError {
+  row: number; // 1-based, as shown in a spreadsheet (header excluded)
+}
+
+export interface ForeignLabel {
+  label: string;
+  count: number;
+  mappedTo: string | null;
+}
+
+export interface ImportPlan {
+  columns: string[];
+  mapping: ImportMapping;
+  labels: ForeignLabel[];
+  entries: MoodEntry[]; // valid and not yet stored
+  duplicates: number;
+  errors: ImportRowError[];
+  total: number;
+}
+
+type ImportRow = Record<string, unknown>;
+
+const COLUMN_GUESSES: Record<keyof ImportColumnMapping, string[]> = {
+  moodText: ['moodtext', 'text', 'note', 'notes', 'entry', 'journal', 'description', 'comment'],
+  moodState: ['moodstate', 'mood', 'state', 'feeling', 'emotion'],
+  timestamp: ['timestamp', 'fulldate', 'datetime', 'date', 'createdat', 'time'],
+  time: ['time', 'timeofday'],
+  intensity: ['intensity', 'level', 'rating'],
+  tags: ['tags', 'activities', 'labels'],
+};
+
+// Labels used by other trackers, placed on our valence scale
+const KNOWN_LABEL_VALENCE: Record<string, number> = {
+  rad: 1, awesome: 1, great: 1, excellent: 1, amazing: 1,
+  good: 0.5, fine: 0.25, okay: 0, ok: 0, meh: 0, neutral: 0,
+  bad: -0.5, low: -0.5, awful: -1, terrible: -1, horrible: -1,
+};
+
+const normaliseHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+export function parseImportFile(format: ImportFormat, content: string): { columns: string[]; rows: ImportRow[] } {
+  if (format === 'csv') {
+    const [header = [], ...lines] = parseCsv(content);
+    const columns = header.map(column => column.trim());
+    const rows = lines.map(cells => Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? ''])));
+    return { columns, rows };
+  }
+
+  // A bare array, or a wrapper object such as this app's own JSON export ({ moods: [...] })
+  const parsed = JSON.parse(content);
+  const list = Array.isArray(parsed) ? parsed
+    : Array.isArray(parsed?.moods) ? parsed.moods
+    : Array.isArray(parsed?.entries) ? parsed.entries
+    : null;
+  if (!list) {
+    throw new Error('JSON must be an array of entries or an object with a "moods" or "entries" array');
+  }
+
+  const rows = list.filter((row: unknown): row is ImportRow => typeof row === 'object' && row !== null && !Array.isArray(row));
+  const columns = Array.from(new Set<string>(rows.slice(0, 100).flatMap((row: ImportRow) => Object.keys(row))));
+  return { columns, rows };
+}
+
+export function guessColumnMapping(columns: string[]): ImportColumnMapping {
+  const used = new Set<string>();
+  const find = (field: keyof ImportColumnMapping) => {
+    for (const guess of COLUMN_GUESSES[field]) {
+      const column = columns.find(name => normaliseHeader(name) === guess && !used.has(name));
+      if (column) {
+        used.add(column);
+        return column;
+      }
+    }
+    return null;
+  };
+
+  // Order matters: a "time" column is only the timestamp if nothing better exists
+  const timestamp = find('timestamp');
+  const moodState = find('moodState');
+  return {
+    timestamp: timestamp || '',
+    moodState: moodState || '',
+    moodText: find('moodText'),
+    time: find('time'),
+    intensity: find('intensity'),
+    tags: find('tags'),
+  };
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object' && '$date' in (value as object)) return String((value as { $date: unknown }).$date);
+  return String(value).trim();
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const HAS_ZONE = /:\d{2}(?:\.\d+)?\s*(?:Z|[+-]\d{2}:?\d{2})$|\b(?:UTC|GMT)\b/i;
+
+// Epoch numbers and times with an offset are instants already. Anything else is a time on the
+// user's clock: Date parses it in the server's zone (or a bare date as UTC midnight), so its
+// wall-clock reading is taken and placed in the user's zone instead.
+function parseTimestamp(date: string, time: string, timeZone: string): Date | string {
+  if (/^\d{10,13}$/.test(date)) {
+    const epoch = Number(date);
+    return new Date(epoch < 1e12 ? epoch * 1000 : epoch);
+  }
+  const text = time ? `${date} ${time}` : date;
+  if (DATE_ONLY.test(text)) return wallClockToInstant(Date.parse(`${text}T00:00:00Z`), timeZone);
+
+  const parsed = new Date(text);
+  if (isNaN(parsed.getTime()) || HAS_ZONE.test(text)) return text;
+  return wallClockToInstant(
+    Date.UTC(parsed.getFullYear(), parsed.getMonth(), parsed.getDate(),
+      parsed.getHours(), parsed.getMinutes(), parsed.getSeconds(), parsed.getMilliseconds()),
+    timeZone
+  );
+}
+
+// Counts the distinct foreign labels and maps each one: an explicit mapping wins,
+// then a label we already know, then a tracker label with a known valence.
+export function mapForeignLabels(
+  rows: ImportRow[],
+  column: string,
+  explicit: Record<string, string>,
+  definitions: ResolvedMoodDefinition[]
+): ForeignLabel[] {
+  const counts = new Map<string, number>();
+  rows.forEach(row => {
+    const label = cellText(row[column]).toLowerCase();
+    if (label) counts.set(label, (counts.get(label) || 0) + 1);
+  });
+
+  return Array.from(counts, ([label, count]) => {
+    const target = explicit[label] !== undefined ? findMoodDefinition(definitions, explicit[label])
+      : findMoodDefinition(definitions, label)
+      ?? (KNOWN_LABEL_VALENCE[label] !== undefined ? moodForValence(definitions, KNOWN_LABEL_VALENCE[label]) : undefined);
+    return { label, count, mappedTo: target?.label ?? null };
+  }).sort((a, b) => b.count - a.count);
+}
+
+const duplicateKey = (entry: Pick<MoodEntry, 'timestamp' | 'moodState' | 'moodText'>) =>
+  `${new Date(entry.timestamp).getTime()}|${entry.moodState.toLowerCase()}|${entry.moodText}`;
+
+// Turns rows into validated mood entries and drops those already stored (or repeated in the file).
+// Nothing is written; see commitImport.
+export async function planImport(
+  db: Db,
+  userId: string,
+  columns: string[],
+  rows: ImportRow[],
+  mapping: ImportMapping,
+  definitions: ResolvedMoodDefinition[]
+): Promise<ImportPlan> {
+  const { columns: columnMap } = mapping;
+  const labels = mapForeignLabels(rows, columnMap.moodState, mapping.moodLabels, definitions);
+  const labelTargets = new Map(labels.map(label => [label.label, label.mappedTo]));
+
+  const errors: ImportRowError[] = [];
+  const candidates: MoodEntry[] = [];
+  const timeZone = await getUserTimeZone(db, userId);
+
+  rows.forEach((row, index) => {
+    const foreignLabel = cellText(row[columnMap.moodState]).toLowerCase();
+    const moodState = labelTargets.get(foreignLabel);
+    if (foreignLabel && !moodState) {
+      errors.push({ row: index + 1, field: 'moodState', message: `"${foreignLabel}" is not mapped to a mood` });
+      return;
+    }
+
+    const text = columnMap.moodText ? cellText(row[columnMap.moodText]) : '';
+    const intensity = columnMap.intensity ? cellText(row[columnMap.intensity]) : '';
+    const tags = columnMap.tags ? row[columnMap.tags] : undefined;
+
+    const { value, errors: rowErrors } = validate<MoodEntry>(moodEntrySchema, {
+      userId,
+      moodState: moodState || '',
+      // Trackers often allow entries without a note; the mood itself stands in for it
+      moodText: text || moodState || '',
+      timestamp: parseTimestamp(cellText(row[columnMap.timestamp]), columnMap.time ? cellText(row[columnMap.time]) : '', timeZone),
+      intensity: intensity === '' ? null : intensity,
+      tags: Array.isArray(tags) ? tags : cellText(tags).split(/[;,|]/).map(tag => tag.trim()).filter(Boolean),
+    });
+
+    if (rowErrors.length > 0) {
+      rowErrors.forEach(error => errors.push({ row: index + 1, ...error }));
+      return;
+    }
+    const entry = value as MoodEntry;
+    candidates.push({
+      ...entry,
+      checkInSlot: checkInSlotFor(hourInZone(entry.timestamp, timeZone)),
+      valence: getValence(definitions, entry.moodState),
+      createdAt: new Date(),
+    });
+  });
+
+  // Compare against what is stored in the same time range
+  const seen = new Set<string>();
+  if (candidates.length > 0) {
+    const times = candidates.map(entry => entry.timestamp.getTime());
+    const existing = await decryptMoods(db, userId, await collectionsFor(db).moods
+      .find(
+        { userId, timestamp: { $gte: new Date(Math.min(...times)), $lte: new Date(Math.max(...times)) }, ...NOT_DELETED },
+        { projection: { timestamp: 1, moodState: 1, moodText: 1 } }
+      )
+      .toArray());
+    existing.forEach(entry => seen.add(duplicateKey(entry)));
+  }
+
+  const entries = candidates.filter(entry => {
+    const key = duplicateKey(entry);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return {
+    columns,
+    mapping,
+    labels,
+    entries,
+    duplicates: candidates.length - entries.length,
+    errors,
+    total: rows.length,
+  };
+}
+
+export async function commitImport(db: Db, userId: string, plan: ImportPlan): Promise<number> {
+  if (plan.entries.length === 0) return 0;
+  const result = await collectionsFor(db).moods.insertMany(await encryptMoods(db, userId, plan.entries), { ordered: false });
+  return result.insertedCount;
+}
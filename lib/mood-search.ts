@@ -0,0 +1,78 @@
+// Filters shared by the mood history and search endpoints, and match highlighting for search results
+// File: lib/mood-search.ts
+import { Filter } from 'mongodb';
+import { MoodEntry } from './mongodb-schemas';
+import { WORD_PATTERN, normalizeWord } from './encryption';
+
+const SNIPPET_LENGTH = 160;
+
+function parseDateParam(value: string | null): Date | null | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// from / to (any date string) and moodState, as ?moodState=Happy&moodState=Sad or ?moodState=Happy,Sad
+export function parseMoodFilters(
+  searchParams: URLSearchParams
+): { conditions: Filter<MoodEntry>[]; error?: undefined } | { conditions?: undefined; error: string } {
+  const from = parseDateParam(searchParams.get('from'));
+  const to = parseDateParam(searchParams.get('to'));
+  if (from === null || to === null) {
+    return { error: 'from and to must be valid dates' };
+  }
+
+  const moodStates = searchParams.getAll('moodState')
+    .flatMap(value => value.split(','))
+    .map(value => value.trim())
+    .filter(Boolean);
+
+  const conditions: Filter<MoodEntry>[] = [];
+  if (from || to) {
+    const range: Record<string, Date> = {};
+    if (from) range.$gte = from;
+    if (to) range.$lte = to;
+    conditions.push({ timestamp: range });
+  }
+  if (moodStates.length > 0) {
+    conditions.push({ moodState: { $in: moodStates } });
+  }
+  return { conditions };
+}
+
+export interface HighlightedSnippet {
+  snippet: string;
+  // [start, end) offsets into snippet of each matched word
+  highlights: [number, number][];
+}
+
+// Cuts a window of the text around the first matched word. Words match the way
+// the blind index matches them, so what is highlighted is what was found.
+export function highlightSnippet(text: string, query: string): HighlightedSnippet {
+  const queryWords = new Set(Array.from(query.matchAll(WORD_PATTERN), ([word]) => normalizeWord(word)));
+  const matches = Array.from(text.matchAll(WORD_PATTERN))
+    .filter(([word]) => queryWords.has(normalizeWord(word)))
+    .map(match => [match.index ?? 0, (match.index ?? 0) + match[0].length] as [number, number]);
+
+  if (text.length <= SNIPPET_LENGTH) {
+    return { snippet: text, highlights: matches };
+  }
+
+  const firstMatch = matches[0]?.[0] ?? 0;
+  let start = Math.max(0, firstMatch - SNIPPET_LENGTH / 4);
+  // Start on a word boundary
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space === -1 || space > firstMatch ? start : space + 1;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+
+  return {
+    snippet: `${prefix}${text.slice(start, end)}${suffix}`,
+    highlights: matches
+      .filter(([matchStart, matchEnd]) => matchStart >= start && matchEnd <= end)
+      .map(([matchStart, matchEnd]) => [matchStart - start + prefix.length, matchEnd - start + prefix.length]),
+  };
+}
@@ -0,0 +1,63 @@
+// Per-user consent for sending data to external processors, and redaction of free text
+// File: lib/privacy.ts
+import { Db } from 'mongodb';
+import { collectionsFor } from './mongodb';
+import { EXTERNAL_PROCESSORS, ExternalProcessor, ProcessorConsent, TextSharing } from './mongodb-schemas';
+
+export type ResolvedConsent = Required<ProcessorConsent>;
+
+// Nothing leaves the app until the user opts in
+export const DEFAULT_CONSENT: ResolvedConsent = { enabled: false, text: 'redacted' };
+
+export const PROCESSOR_DESCRIPTIONS: Record<ExternalProcessor, string> = {
+  huggingface: 'Hugging Face emotion analysis, predictions and recommendations',
+  gemini: 'Google Gemini writing suggestions',
+  n8n: 'n8n automations (reminders, support emails)',
+};
+
+export async function getPrivacyPreferences(db: Db, userId: string): Promise<Record<ExternalProcessor, ResolvedConsent>> {
+  const user = await collectionsFor(db).users.findOne({ userId }, { projection: { 'preferences.privacy': 1 } });
+  const privacy = user?.preferences?.privacy || {};
+  return Object.fromEntries(
+    EXTERNAL_PROCESSORS.map(processor => [processor, { ...DEFAULT_CONSENT, ...privacy[processor] }])
+  ) as Record<ExternalProcessor, ResolvedConsent>;
+}
+
+// Fails closed: if preferences can't be read, the processor is treated as not consented
+export async function getConsent(db: Db, userId: string, processor: ExternalProcessor): Promise<ResolvedConsent> {
+  try {
+    return (await getPrivacyPreferences(db, userId))[processor];
+  } catch (error) {
+    console.error('Could not load privacy preferences:', error);
+    return DEFAULT_CONSENT;
+  }
+}
+
+const REDACTIONS: [RegExp, string][] = [
+  [/[^\s@]+@[^\s@]+\.[A-Za-z]{2,}/g, '[email]'],
+  [/\b(?:https?:\/\/|www\.)\S+/gi, '[link]'],
+  [/\+?\d[\d\s().-]{6,}\d/g, '[number]'],
+  [/(^|\s)@\w+/g, '$1[handle]'],
+];
+
+// Capitalised words that are usually not names
+const COMMON_CAPITALISED = new Set([
+  'I', "I'm", "I've", "I'll", "I'd", 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday',
+  'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December',
+]);
+
+// Best effort: removes contact details and capitalised words in mid-sentence (likely names and places)
+export function redactText(text: string): string {
+  const masked = REDACTIONS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+  return masked.replace(/([a-z,;:)]\s+)([A-Z][\w'’-]*)/g, (match, before: string, word: string) =>
+    COMMON_CAPITALISED.has(word) ? match : `${before}[name]`
+  );
+}
+
+// The text as it may leave the app, or null when it must not be sent
+export function outgoingText(consent: Pick<ResolvedConsent, 'text'>, text: string | null | undefined): string | null {
+  if (!text) return text === '' ? '' : null;
+  const sharing: TextSharing = consent.text;
+  if (sharing === 'none') return null;
+  return sharing === 'redacted' ? redactText(text) : text;
+}
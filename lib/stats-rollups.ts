@@ -0,0 +1,142 @@
+// Weekly, monthly and yearly rollups of each user's moods on user_stats, so long-term
+// trends don't need a scan of every mood. Periods are in the user's time zone.
+// File: lib/stats-rollups.ts
+import { Db, Document } from 'mongodb';
+import { StatsRollup, UserStats } from './mongodb-schemas';
+import { addDays, dateKeyInZone, dayRangeInZone, getUserTimeZone, isoWeekKey, startOfIsoWeekKey } from './timezone';
+
+export const ROLLUP_PERIODS = ['week', 'month', 'year'] as const;
+export type RollupPeriod = typeof ROLLUP_PERIODS[number];
+
+const ROLLUPS = {
+  week: { field: 'weeklyStats', format: '%G-W%V' },
+  month: { field: 'monthlyStats', format: '%Y-%m' },
+  year: { field: 'yearlyStats', format: '%Y' },
+} as const;
+
+export type PeriodRollup = StatsRollup & { period: string };
+
+// The week (2024-W01), month (2024-01) or year (2024) a local day falls in
+export function periodKeyFor(period: RollupPeriod, dateKey: string): string {
+  if (period === 'week') return isoWeekKey(dateKey);
+  return period === 'month' ? dateKey.slice(0, 7) : dateKey.slice(0, 4);
+}
+
+// First and last day of the period containing dateKey
+function periodDays(period: RollupPeriod, dateKey: string): { from: string; to: string } {
+  if (period === 'week') {
+    const monday = startOfIsoWeekKey(dateKey);
+    return { from: monday, to: addDays(monday, 6) };
+  }
+  if (period === 'month') {
+    const first = `${dateKey.slice(0, 7)}-01`;
+    const nextMonth = addDays(first, 31).slice(0, 7);
+    return { from: first, to: addDays(`${nextMonth}-01`, -1) };
+  }
+  return { from: `${dateKey.slice(0, 4)}-01-01`, to: `${dateKey.slice(0, 4)}-12-31` };
+}
+
+// Same grouping as daily_summaries, one level up: per period and label, then per period
+function rollupPipeline(match: Document, period: RollupPeriod, timeZone: string): Document[] {
+  const key = ROLLUPS[period].format;
+  return [
+    { $match: { ...match, deletedAt: null } },
+    {
+      $group: {
+        _id: {
+          period: { $dateToString: { format: key, date: '$timestamp', timezone: timeZone } },
+          moodState: '$moodState',
+        },
+        count: { $sum: 1 },
+        valenceSum: { $sum: '$valence' },
+        valenceCount: { $sum: { $cond: [{ $isNumber: '$valence' }, 1, 0] } },
+        lastAt: { $max: '$timestamp' },
+      },
+    },
+    { $sort: { count: -1, lastAt: -1 } },
+    {
+      $group: {
+        _id: '$_id.period',
+        dominantMood: { $first: '$_id.moodState' },
+        entriesCount: { $sum: '$count' },
+        moods: { $push: { moodState: '$_id.moodState', count: '$count' } },
+        valenceSum: { $sum: '$valenceSum' },
+        valenceCount: { $sum: '$valenceCount' },
+      },
+    },
+    {
+      $project: {
+        _id: 0,
+        period: '$_id',
+        entriesCount: 1,
+        dominantMood: 1,
+        moods: 1,
+        averageValence: {
+          $cond: [{ $gt: ['$valenceCount', 0] }, { $round: [{ $divide: ['$valenceSum', '$valenceCount'] }, 2] }, null],
+        },
+      },
+    },
+    { $sort: { period: 1 } },
+  ];
+}
+
+const toStored = (period: RollupPeriod, { period: key, ...rollup }: PeriodRollup) => ({ [period]: key, ...rollup });
+
+// Recomputes only the periods the given mood timestamps fall in. Pass the old and the new
+// timestamp after an edit; call after every mood write.
+export async function updateStatsRollups(db: Db, userId: string, timestamps: Date[]): Promise<void> {
+  const timeZone = await getUserTimeZone(db, userId);
+  const dateKeys = Array.from(new Set(timestamps.map(timestamp => dateKeyInZone(timestamp, timeZone))));
+  const moods = db.collection('moods');
+  const stats = db.collection<UserStats>('user_stats');
+
+  for (const period of ROLLUP_PERIODS) {
+    const { field } = ROLLUPS[period];
+    const keys = new Map(dateKeys.map(dateKey => [periodKeyFor(period, dateKey), dateKey]));
+
+    for (const [key, dateKey] of Array.from(keys)) {
+      const { from, to } = periodDays(period, dateKey);
+      const { start, end } = dayRangeInZone(from, to, timeZone);
+      const [rollup] = await moods
+        .aggregate<PeriodRollup>(rollupPipeline({ userId, timestamp: { $gte: start, $lt: end } }, period, timeZone))
+        .toArray();
+
+      // Swaps the period's entry in one update, so concurrent writes to other periods aren't lost
+      await stats.updateOne({ userId }, [{
+        $set: {
+          [field]: {
+            $concatArrays: [
+              { $filter: { input: { $ifNull: [`$${field}`, []] }, cond: { $ne: [`$$this.${period}`, key] } } },
+              rollup ? [{ $literal: toStored(period, rollup) }] : [],
+            ],
+          },
+        },
+      }]);
+    }
+  }
+}
+
+// Rebuilds every rollup from the user's moods; for imports, time zone changes and backfills
+export async function rebuildStatsRollups(db: Db, userId: string): Promise<void> {
+  const timeZone = await getUserTimeZone(db, userId);
+  const moods = db.collection('moods');
+  const updates: Record<string, Document[]> = {};
+
+  for (const period of ROLLUP_PERIODS) {
+    const rollups = await moods.aggregate<PeriodRollup>(rollupPipeline({ userId }, period, timeZone)).toArray();
+    updates[ROLLUPS[period].field] = rollups.map(rollup => toStored(period, rollup));
+  }
+
+  await db.collection('user_stats').updateOne({ userId }, { $set: updates });
+}
+
+// The stored rollups of one kind from the period containing from to the one containing to, oldest first
+export function rollupsBetween(stats: Partial<UserStats> | null, period: RollupPeriod, from: string, to: string): PeriodRollup[] {
+  const fromKey = periodKeyFor(period, from);
+  const toKey = periodKeyFor(period, to);
+  const stored = (stats?.[ROLLUPS[period].field] || []) as (StatsRollup & Record<RollupPeriod, string>)[];
+  return stored
+    .map(({ [period]: key, ...rollup }) => ({ period: key, ...rollup }) as PeriodRollup)
+    .filter(rollup => rollup.period >= fromKey && rollup.period <= toKey)
+    .sort((a, b) => a.period.localeCompare(b.period));
+}
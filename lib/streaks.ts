@@ -0,0 +1,104 @@
+// Streak rules: grace days, earned streak freezes, weekly-goal streaks and milestones.
+// Everything is replayed from the days the user logged, so edits and deletions are reflected.
+// File: lib/streaks.ts
+import { StreakMilestone, StreakRules, UserStats } from './mongodb-schemas';
+import { addDays, startOfIsoWeekKey } from './timezone';
+
+export const DEFAULT_STREAK_RULES: Required<StreakRules> = { graceDays: 1, weeklyTarget: 5 };
+export const STREAK_MILESTONES = [7, 30, 100];
+
+// A freeze is earned for every FREEZE_EARN_DAYS days logged in a streak, up to MAX_STREAK_FREEZES banked
+export const FREEZE_EARN_DAYS = 7;
+export const MAX_STREAK_FREEZES = 2;
+
+export function resolveStreakRules(rules?: StreakRules | null): Required<StreakRules> {
+  return { ...DEFAULT_STREAK_RULES, ...rules };
+}
+
+export interface StreakReplay {
+  current: number; // logged days in the current streak; bridged days don't count
+  longest: number;
+  startKey: string | null;
+  freezes: number;
+  bridgedDays: NonNullable<UserStats['bridgedDays']>;
+  weekly: NonNullable<UserStats['weeklyStreak']>;
+  milestones: StreakMilestone[];
+}
+
+// Walks every day from the first one logged up to today. A missed day is covered by the
+// week's grace days first, then by a freeze; with neither left the streak ends. Today only
+// counts once it is logged, so an unlogged today never breaks anything.
+export function replayStreaks(loggedDays: Set<string>, today: string, rules: Required<StreakRules>): StreakReplay {
+  const days = Array.from(loggedDays).filter(day => day <= today).sort();
+  const replay: StreakReplay = {
+    current: 0,
+    longest: 0,
+    startKey: null,
+    freezes: 0,
+    bridgedDays: [],
+    weekly: { current: 0, longest: 0, target: rules.weeklyTarget, thisWeekDays: 0 },
+    milestones: [],
+  };
+  if (days.length === 0) return replay;
+
+  const graceUsed = new Map<string, number>();
+  const weekDays = new Map<string, number>();
+  let sinceLastFreeze = 0;
+
+  for (let day = days[0]; day <= today; day = addDays(day, 1)) {
+    const week = startOfIsoWeekKey(day);
+
+    if (loggedDays.has(day)) {
+      weekDays.set(week, (weekDays.get(week) || 0) + 1);
+      replay.current++;
+      replay.startKey = replay.startKey ?? day;
+      replay.longest = Math.max(replay.longest, replay.current);
+      if (STREAK_MILESTONES.includes(replay.current)) {
+        replay.milestones.push({ days: replay.current, reachedOn: day, streakStartedOn: replay.startKey });
+      }
+      if (++sinceLastFreeze >= FREEZE_EARN_DAYS) {
+        replay.freezes = Math.min(MAX_STREAK_FREEZES, replay.freezes + 1);
+        sinceLastFreeze = 0;
+      }
+      continue;
+    }
+    if (day === today || replay.current === 0) continue;
+
+    if ((graceUsed.get(week) || 0) < rules.graceDays) {
+      graceUsed.set(week, (graceUsed.get(week) || 0) + 1);
+      replay.bridgedDays.push({ date: day, by: 'grace' });
+    } else if (replay.freezes > 0) {
+      replay.freezes--;
+      replay.bridgedDays.push({ date: day, by: 'freeze' });
+    } else {
+      // Freezes already earned stay banked for the next streak
+      replay.current = 0;
+      replay.startKey = null;
+      replay.bridgedDays = [];
+      sinceLastFreeze = 0;
+    }
+  }
+
+  // Weeks in a row reaching the target; the current week only counts once it has
+  const thisWeek = startOfIsoWeekKey(today);
+  replay.weekly.thisWeekDays = weekDays.get(thisWeek) || 0;
+  let run = 0;
+  for (let week = startOfIsoWeekKey(days[0]); week <= thisWeek; week = addDays(week, 7)) {
+    const met = (weekDays.get(week) || 0) >= rules.weeklyTarget;
+    if (week === thisWeek && !met) break;
+    run = met ? run + 1 : 0;
+    replay.weekly.longest = Math.max(replay.weekly.longest, run);
+  }
+  replay.weekly.current = run;
+
+  return replay;
+}
+
+// Saved milestones stay as they were first recorded. A replayed one is only new if no saved
+// milestone of the same length overlaps its streak: a back-dated entry, edit or deletion
+// moves the streak's start, not the milestone it already reached.
+export function mergeStreakMilestones(saved: StreakMilestone[], replayed: StreakMilestone[]): StreakMilestone[] {
+  const isSaved = (milestone: StreakMilestone) => saved.some(event =>
+    event.days === milestone.days && event.streakStartedOn <= milestone.reachedOn && milestone.streakStartedOn <= event.reachedOn);
+  return [...saved, ...replayed.filter(milestone => !isSaved(milestone))];
+}
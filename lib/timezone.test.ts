@@ -0,0 +1,94 @@
+// File: lib/timezone.test.ts
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { dateKeyInZone, dayRangeInZone, hourInZone, isoWeekKey, startOfDayInZone, wallClockToInstant } from './timezone';
+
+const HOUR_MS = 60 * 60 * 1000;
+const hoursIn = (dateKey: string, timeZone: string) => {
+  const { start, end } = dayRangeInZone(dateKey, dateKey, timeZone);
+  return (end.getTime() - start.getTime()) / HOUR_MS;
+};
+
+describe('startOfDayInZone', () => {
+  test('starts the day at local midnight on both sides of UTC', () => {
+    assert.equal(startOfDayInZone('2024-01-15', 'America/New_York').toISOString(), '2024-01-15T05:00:00.000Z');
+    assert.equal(startOfDayInZone('2024-01-15', 'Asia/Tokyo').toISOString(), '2024-01-14T15:00:00.000Z');
+    assert.equal(startOfDayInZone('2024-01-15', 'UTC').toISOString(), '2024-01-15T00:00:00.000Z');
+  });
+
+  test('makes the day clocks spring forward 23 hours long', () => {
+    assert.equal(startOfDayInZone('2024-03-10', 'America/New_York').toISOString(), '2024-03-10T05:00:00.000Z');
+    assert.equal(startOfDayInZone('2024-03-11', 'America/New_York').toISOString(), '2024-03-11T04:00:00.000Z');
+    assert.equal(hoursIn('2024-03-10', 'America/New_York'), 23);
+    assert.equal(hoursIn('2024-03-31', 'Europe/Berlin'), 23);
+  });
+
+  test('makes the day clocks fall back 25 hours long', () => {
+    assert.equal(startOfDayInZone('2024-11-03', 'America/New_York').toISOString(), '2024-11-03T04:00:00.000Z');
+    assert.equal(startOfDayInZone('2024-11-04', 'America/New_York').toISOString(), '2024-11-04T05:00:00.000Z');
+    assert.equal(hoursIn('2024-11-03', 'America/New_York'), 25);
+    assert.equal(hoursIn('2024-10-27', 'Europe/Berlin'), 25);
+  });
+
+  test('starts a day whose midnight is skipped at the first hour that exists', () => {
+    // Chile moves its clocks from 24:00 to 01:00
+    const start = startOfDayInZone('2024-09-08', 'America/Santiago');
+    assert.equal(start.toISOString(), '2024-09-08T04:00:00.000Z');
+    assert.equal(dateKeyInZone(start, 'America/Santiago'), '2024-09-08');
+    assert.equal(hourInZone(start, 'America/Santiago'), 1);
+    assert.equal(hoursIn('2024-09-08', 'America/Santiago'), 23);
+  });
+});
+
+describe('dateKeyInZone', () => {
+  test('changes day at the zone\'s midnight, not at UTC midnight', () => {
+    const midnight = startOfDayInZone('2024-03-10', 'America/New_York');
+    assert.equal(dateKeyInZone(midnight, 'America/New_York'), '2024-03-10');
+    assert.equal(dateKeyInZone(new Date(midnight.getTime() - 1), 'America/New_York'), '2024-03-09');
+    assert.equal(dateKeyInZone(new Date('2024-03-10T02:00:00Z'), 'America/New_York'), '2024-03-09');
+    assert.equal(dateKeyInZone(new Date('2024-03-09T23:00:00Z'), 'Asia/Tokyo'), '2024-03-10');
+  });
+
+  test('keeps both repeated hours of a fall-back night on the same day', () => {
+    assert.equal(dateKeyInZone(new Date('2024-11-03T05:30:00Z'), 'America/New_York'), '2024-11-03');
+    assert.equal(dateKeyInZone(new Date('2024-11-03T06:30:00Z'), 'America/New_York'), '2024-11-03');
+    assert.equal(hourInZone(new Date('2024-11-03T05:30:00Z'), 'America/New_York'), 1);
+    assert.equal(hourInZone(new Date('2024-11-03T06:30:00Z'), 'America/New_York'), 1);
+  });
+
+  test('ends the fall-back day 25 hours after it began', () => {
+    const { start, end } = dayRangeInZone('2024-11-03', '2024-11-03', 'America/New_York');
+    assert.equal(dateKeyInZone(new Date(end.getTime() - 1), 'America/New_York'), '2024-11-03');
+    assert.equal(dateKeyInZone(end, 'America/New_York'), '2024-11-04');
+    assert.equal(dateKeyInZone(start, 'America/New_York'), '2024-11-03');
+  });
+});
+
+describe('wallClockToInstant', () => {
+  const at = (wallClock: string, timeZone: string) => wallClockToInstant(Date.parse(`${wallClock}Z`), timeZone).toISOString();
+
+  test('reads a wall-clock time on the zone\'s clock', () => {
+    assert.equal(at('2024-03-05T00:00:00', 'America/Los_Angeles'), '2024-03-05T08:00:00.000Z');
+    assert.equal(at('2024-03-05T00:00:00', 'Asia/Kolkata'), '2024-03-04T18:30:00.000Z');
+    assert.equal(at('2024-03-05T12:34:56.789', 'Europe/Berlin'), '2024-03-05T11:34:56.789Z');
+  });
+
+  test('moves a time skipped by spring-forward on by the gap', () => {
+    assert.equal(at('2024-03-10T01:30:00', 'America/New_York'), '2024-03-10T06:30:00.000Z');
+    assert.equal(at('2024-03-10T02:30:00', 'America/New_York'), '2024-03-10T07:30:00.000Z');
+    assert.equal(at('2024-03-10T03:30:00', 'America/New_York'), '2024-03-10T07:30:00.000Z');
+  });
+
+  test('takes a time repeated by fall-back the first time', () => {
+    assert.equal(at('2024-11-03T01:30:00', 'America/New_York'), '2024-11-03T05:30:00.000Z');
+    assert.equal(at('2024-11-03T02:30:00', 'America/New_York'), '2024-11-03T07:30:00.000Z');
+  });
+});
+
+describe('isoWeekKey', () => {
+  test('files the days around a year boundary under the week their Thursday is in', () => {
+    assert.equal(isoWeekKey('2024-12-30'), '2025-W01');
+    assert.equal(isoWeekKey('2021-01-03'), '2020-W53');
+    assert.equal(isoWeekKey('2024-03-10'), '2024-W10');
+  });
+});
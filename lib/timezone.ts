@@ -0,0 +1,143 @@
+// Calendar days in the user's time zone (profile.timezone, an IANA name such as Europe/Berlin).
+// Days are handled as 'YYYY-MM-DD' keys; instants only where a query needs a range.
+// File: lib/timezone.ts
+import { Db } from 'mongodb';
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || !timeZone) return false;
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Missing or unknown zones count as UTC
+export function resolveTimeZone(timeZone?: string | null): string {
+  return isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+}
+
+export async function getUserTimeZone(db: Db, userId: string): Promise<string> {
+  const user = await db.collection('users').findOne({ userId }, { projection: { 'profile.timezone': 1 } });
+  return resolveTimeZone(user?.profile?.timezone);
+}
+
+function wallClock(date: Date, timeZone: string) {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of formatterFor(timeZone).formatToParts(date)) {
+    if (type !== 'literal') parts[type] = parseInt(value);
+  }
+  return parts as { year: number; month: number; day: number; hour: number; minute: number; second: number };
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// The local calendar day of an instant, as YYYY-MM-DD
+export function dateKeyInZone(date: Date, timeZone: string): string {
+  const { year, month, day } = wallClock(date, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+// 0-23
+export function hourInZone(date: Date, timeZone: string): number {
+  return wallClock(date, timeZone).hour;
+}
+
+// A real YYYY-MM-DD day (not 2024-02-30)
+export function isDateKey(value: unknown): value is string {
+  return typeof value === 'string' && DATE_KEY.test(value)
+    && !Number.isNaN(Date.parse(`${value}T00:00:00Z`)) && addDays(value, 0) === value;
+}
+
+// 0 = Sunday, like Date.getDay
+export function weekdayOf(dateKey: string): number {
+  return new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+}
+
+export function weekdayInZone(date: Date, timeZone: string): number {
+  return weekdayOf(dateKeyInZone(date, timeZone));
+}
+
+export function addDays(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+}
+
+// How far the zone's wall clock is ahead of UTC at that instant
+function offsetAt(instant: number, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = wallClock(new Date(instant), timeZone);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(instant / 1000) * 1000;
+}
+
+// The instant the local day begins. Days are 23 or 25 hours long across DST changes,
+// and where the clocks skip midnight the day begins at the first hour that exists.
+export function startOfDayInZone(dateKey: string, timeZone: string): Date {
+  const midnight = Date.parse(`${dateKey}T00:00:00Z`);
+  let instant = midnight - offsetAt(midnight, timeZone);
+  instant = midnight - offsetAt(instant, timeZone);
+  while (dateKeyInZone(new Date(instant), timeZone) < dateKey) {
+    instant += HOUR_MS;
+  }
+  return new Date(instant);
+}
+
+// The instant the zone's clocks show a wall-clock time, given as if it were UTC (Date.UTC(...)).
+// A time skipped when the clocks spring forward moves on by the gap; a time the clocks show
+// twice when they fall back is taken the first time.
+export function wallClockToInstant(wallClock: number, timeZone: string): Date {
+  const first = wallClock - offsetAt(wallClock, timeZone);
+  const second = wallClock - offsetAt(first, timeZone);
+  if (second + offsetAt(second, timeZone) === wallClock) return new Date(second);
+  return new Date(Math.max(first, second));
+}
+
+// Instants from the start of the first day up to (not including) the start of the day after the last
+export function dayRangeInZone(fromKey: string, toKey: string, timeZone: string): { start: Date; end: Date } {
+  return { start: startOfDayInZone(fromKey, timeZone), end: startOfDayInZone(addDays(toKey, 1), timeZone) };
+}
+
+// Weeks start on Sunday
+export function startOfWeekKey(dateKey: string): string {
+  return addDays(dateKey, -weekdayOf(dateKey));
+}
+
+// ISO weeks start on Monday and belong to the year their Thursday is in
+export function startOfIsoWeekKey(dateKey: string): string {
+  return addDays(dateKey, -((weekdayOf(dateKey) + 6) % 7));
+}
+
+// e.g. 2024-W01, the same as MongoDB's %G-W%V
+export function isoWeekKey(dateKey: string): string {
+  const thursday = addDays(startOfIsoWeekKey(dateKey), 3);
+  const year = thursday.slice(0, 4);
+  const dayOfYear = (Date.parse(`${thursday}T00:00:00Z`) - Date.parse(`${year}-01-01T00:00:00Z`)) / (24 * HOUR_MS);
+  return `${year}-W${pad(Math.floor(dayOfYear / 7) + 1)}`;
+}
+
+// The Monday an ISO week key (2024-W01) starts on; week 1 is the one with January 4th in it
+export function isoWeekStartKey(weekKey: string): string {
+  const [year, week] = weekKey.split('-W');
+  return addDays(startOfIsoWeekKey(`${year}-01-04`), (Number(week) - 1) * 7);
+}
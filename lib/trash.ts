@@ -0,0 +1,51 @@
+// Soft delete for moods and wellness goals: deleting sets deletedAt, and trashed
+// records can be restored until the purge job removes them
+// File: lib/trash.ts
+import { Db } from 'mongodb';
+import { collectionsFor } from './mongodb';
+
+const DEFAULT_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TRASH_TYPES = ['mood', 'goal'] as const;
+export type TrashType = typeof TRASH_TYPES[number];
+
+// Every query over live data adds this; it matches documents without deletedAt too
+export const NOT_DELETED = { deletedAt: null };
+
+// How long trashed records can be restored (TRASH_RETENTION_DAYS, default 30)
+export function getTrashRetentionDays(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+// Records trashed before this date are past restoring
+export function trashCutoff(now = new Date()): Date {
+  return new Date(now.getTime() - getTrashRetentionDays() * DAY_MS);
+}
+
+export function restorableUntil(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + getTrashRetentionDays() * DAY_MS);
+}
+
+// Trashed and still restorable
+export const inTrash = (now = new Date()) => ({ deletedAt: { $gt: trashCutoff(now) } });
+
+// Permanently deletes records trashed longer than the retention period, and the check-ins
+// and periods of purged goals. Run from scripts/purge-trash.ts.
+export async function purgeTrash(db: Db, now = new Date()): Promise<{
+  moods: number;
+  wellness_goals: number;
+  goal_checkins: number;
+  goal_periods: number;
+}> {
+  const { moods, wellnessGoals, goalCheckins, goalPeriods } = collectionsFor(db);
+  const expired = { deletedAt: { $lte: trashCutoff(now) } };
+  const goalIds = (await wellnessGoals.find(expired, { projection: { _id: 1 } }).toArray()).map(goal => goal._id.toString());
+  return {
+    moods: (await moods.deleteMany(expired)).deletedCount,
+    wellness_goals: (await wellnessGoals.deleteMany(expired)).deletedCount,
+    goal_checkins: goalIds.length > 0 ? (await goalCheckins.deleteMany({ goalId: { $in: goalIds } })).deletedCount : 0,
+    goal_periods: goalIds.length > 0 ? (await goalPeriods.deleteMany({ goalId: { $in: goalIds } })).deletedCount : 0,
+  };
+}
@@ -0,0 +1,116 @@
+// File: lib/user-stats.test.ts
+import { afterEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Db, Document } from 'mongodb';
+import { calculateStreak, recomputeUserStats } from './user-stats';
+import { DEFAULT_STREAK_RULES } from './streaks';
+
+const TIME_ZONE = 'America/New_York';
+
+// Just enough of a Db for the queries user-stats makes: equality, null and $gte/$lt filters,
+// and $set upserts
+function fakeDb(collections: Record<string, Document[]>): Db {
+  const matches = (doc: Document, filter: Document) => Object.entries(filter).every(([key, condition]) => {
+    const value = doc[key];
+    if (condition === null) return value === null || value === undefined;
+    if (condition instanceof Date || typeof condition !== 'object') return value === condition;
+    return (condition.$gte === undefined || value >= condition.$gte) && (condition.$lt === undefined || value < condition.$lt);
+  });
+  const collection = (name: string) => {
+    const docs = collections[name] ?? (collections[name] = []);
+    return {
+      find: (filter: Document) => ({ toArray: async () => docs.filter(doc => matches(doc, filter)) }),
+      findOne: async (filter: Document) => docs.find(doc => matches(doc, filter)) ?? null,
+      countDocuments: async (filter: Document) => docs.filter(doc => matches(doc, filter)).length,
+      updateOne: async (filter: Document, update: Document) => {
+        const doc = docs.find(doc => matches(doc, filter));
+        if (doc) Object.assign(doc, update.$set);
+        else docs.push({ ...update.$setOnInsert, ...update.$set });
+      },
+    };
+  };
+  return { collection } as unknown as Db;
+}
+
+const moodsAt = (...instants: string[]) =>
+  instants.map(instant => ({ userId: 'u1', timestamp: new Date(instant), deletedAt: null }));
+
+const usersIn = (timeZone: string) => [{ userId: 'u1', profile: { timezone: timeZone } }];
+
+afterEach(() => mock.timers.reset());
+
+describe('calculateStreak', () => {
+  test('counts late-evening entries across spring-forward as consecutive local days', async () => {
+    // 23:30 local on March 9, 10 and 11; the last two are already the next day in UTC
+    const db = fakeDb({ moods: moodsAt('2024-03-10T04:30:00Z', '2024-03-11T03:30:00Z', '2024-03-12T03:30:00Z') });
+    mock.timers.enable({ apis: ['Date'], now: new Date('2024-03-12T03:45:00Z') });
+
+    const streak = await calculateStreak(db, 'u1', TIME_ZONE, DEFAULT_STREAK_RULES);
+    assert.equal(streak.current, 3);
+    assert.equal(streak.startDate?.toISOString(), '2024-03-09T05:00:00.000Z');
+    // Monday March 11 starts a new ISO week locally; in UTC it would already hold two days
+    assert.equal(streak.weekly.thisWeekDays, 1);
+  });
+
+  test('keeps a streak going through the 25-hour fall-back day', async () => {
+    // 00:30 local on November 2 and 3, 23:30 on November 3 (after the repeated hour) and 00:30 on November 4
+    const db = fakeDb({ moods: moodsAt('2024-11-02T04:30:00Z', '2024-11-03T04:30:00Z', '2024-11-04T04:30:00Z', '2024-11-04T05:30:00Z') });
+    mock.timers.enable({ apis: ['Date'], now: new Date('2024-11-04T12:00:00Z') });
+
+    const streak = await calculateStreak(db, 'u1', TIME_ZONE, DEFAULT_STREAK_RULES);
+    assert.equal(streak.current, 3);
+    assert.equal(streak.startDate?.toISOString(), '2024-11-02T04:00:00.000Z');
+  });
+});
+
+describe('recomputeUserStats', () => {
+  test('counts this week from local Sunday midnight across spring-forward', async () => {
+    // The week of Sunday March 10 runs from 05:00 UTC that day to 04:00 UTC on the 17th
+    const db = fakeDb({
+      users: usersIn(TIME_ZONE),
+      moods: moodsAt('2024-03-10T04:59:00Z', '2024-03-10T05:00:00Z', '2024-03-17T03:59:00Z', '2024-03-17T04:00:00Z'),
+    });
+    mock.timers.enable({ apis: ['Date'], now: new Date('2024-03-13T12:00:00Z') });
+
+    const stats = await recomputeUserStats(db, 'u1');
+    assert.equal(stats.thisWeekEntries, 2);
+    assert.equal(stats.totalMoodEntries, 4);
+  });
+
+  test('counts this week from local Sunday midnight across fall-back', async () => {
+    // The week of Sunday November 3 runs from 04:00 UTC that day to 05:00 UTC on the 10th
+    const db = fakeDb({
+      users: usersIn(TIME_ZONE),
+      moods: moodsAt('2024-11-03T03:59:00Z', '2024-11-03T04:00:00Z', '2024-11-10T04:59:00Z', '2024-11-10T05:00:00Z'),
+    });
+    mock.timers.enable({ apis: ['Date'], now: new Date('2024-11-09T12:00:00Z') });
+
+    const stats = await recomputeUserStats(db, 'u1');
+    assert.equal(stats.thisWeekEntries, 2);
+  });
+
+  test('uses UTC weeks for users without a time zone', async () => {
+    const db = fakeDb({
+      users: [{ userId: 'u1' }],
+      moods: moodsAt('2024-03-09T23:59:00Z', '2024-03-10T00:00:00Z', '2024-03-16T23:59:00Z', '2024-03-17T00:00:00Z'),
+    });
+    mock.timers.enable({ apis: ['Date'], now: new Date('2024-03-13T12:00:00Z') });
+
+    const stats = await recomputeUserStats(db, 'u1');
+    assert.equal(stats.thisWeekEntries, 2);
+  });
+
+  test('keeps a saved milestone when a back-dated entry moves its streak start', async () => {
+    const reached = { days: 7, reachedOn: '2024-03-08', streakStartedOn: '2024-03-02' };
+    const db = fakeDb({
+      users: usersIn(TIME_ZONE),
+      user_stats: [{ userId: 'u1', streakMilestones: [reached] }],
+      // Noon local from March 1 to 8; March 1 was logged after the milestone
+      moods: moodsAt(...Array.from({ length: 8 }, (_, i) => `2024-03-0${i + 1}T17:00:00Z`)),
+    });
+    mock.timers.enable({ apis: ['Date'], now: new Date('2024-03-08T20:00:00Z') });
+
+    const stats = await recomputeUserStats(db, 'u1');
+    assert.deepEqual(stats.streakMilestones, [reached]);
+  });
+});
@@ -0,0 +1,91 @@
+// Shared user_stats computation
+// File: lib/user-stats.ts
+import { Db } from 'mongodb';
+import { collectionsFor } from './mongodb';
+import { NOT_DELETED } from './trash';
+import { StreakRules } from './mongodb-schemas';
+import { StreakReplay, mergeStreakMilestones, replayStreaks, resolveStreakRules } from './streaks';
+import { addDays, dateKeyInZone, dayRangeInZone, resolveTimeZone, startOfDayInZone, startOfWeekKey } from './timezone';
+
+export interface StreakResult extends Omit<StreakReplay, 'startKey'> {
+  startDate: Date | null;
+}
+
+// Days are calendar days in the user's time zone; see lib/streaks for the rules
+export async function calculateStreak(
+  db: Db,
+  userId: string,
+  timeZone: string,
+  rules: Required<StreakRules>
+): Promise<StreakResult> {
+  try {
+    const entries = await collectionsFor(db).moods
+      .find({ userId, ...NOT_DELETED }, { projection: { timestamp: 1 } })
+      .toArray();
+
+    const days = new Set(entries.map(entry => dateKeyInZone(new Date(entry.timestamp), timeZone)));
+    const { startKey, ...replay } = replayStreaks(days, dateKeyInZone(new Date(), timeZone), rules);
+
+    return { ...replay, startDate: startKey ? startOfDayInZone(startKey, timeZone) : null };
+  } catch (error) {
+    console.error('Error calculating streak:', error);
+    return {
+      current: 0,
+      longest: 0,
+      startDate: null,
+      freezes: 0,
+      bridgedDays: [],
+      weekly: { current: 0, longest: 0, target: rules.weeklyTarget, thisWeekDays: 0 },
+      milestones: [],
+    };
+  }
+}
+
+// Recalculate the derived counters on user_stats from the moods collection.
+// Called on every stats read and after any mood is edited or removed.
+export async function recomputeUserStats(db: Db, userId: string) {
+  const { userStats: statsCollection, moods: moodsCollection, users } = collectionsFor(db);
+
+  const user = await users.findOne({ userId }, { projection: { 'profile.timezone': 1, 'preferences.streaks': 1 } });
+  const timeZone = resolveTimeZone(user?.profile?.timezone);
+  const rules = resolveStreakRules(user?.preferences?.streaks);
+  const weekStart = startOfWeekKey(dateKeyInZone(new Date(), timeZone));
+  const week = dayRangeInZone(weekStart, addDays(weekStart, 6), timeZone);
+
+  const thisWeekEntries = await moodsCollection.countDocuments({
+    userId,
+    timestamp: { $gte: week.start, $lt: week.end },
+    ...NOT_DELETED,
+  });
+
+  const totalMoodEntries = await moodsCollection.countDocuments({ userId, ...NOT_DELETED });
+  const streak = await calculateStreak(db, userId, timeZone, rules);
+
+  const stats = {
+    thisWeekEntries,
+    totalMoodEntries,
+    currentStreak: streak.current,
+    longestStreak: streak.longest,
+    streakStartDate: streak.startDate,
+    streakFreezes: streak.freezes,
+    bridgedDays: streak.bridgedDays,
+    weeklyStreak: streak.weekly,
+    updatedAt: new Date(),
+  };
+
+  // Milestones are events: once reached they stay, even if the entries behind them go
+  const saved = await statsCollection.findOne({ userId }, { projection: { streakMilestones: 1 } });
+  const streakMilestones = mergeStreakMilestones(saved?.streakMilestones || [], streak.milestones)
+    .sort((a, b) => a.reachedOn.localeCompare(b.reachedOn) || a.days - b.days);
+
+  await statsCollection.updateOne(
+    { userId },
+    {
+      $set: { ...stats, streakMilestones },
+      $setOnInsert: { userId, weeklyStats: [] },
+    },
+    { upsert: true }
+  );
+
+  return { ...stats, streakMilestones, streakRules: rules };
+}
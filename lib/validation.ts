@@ -0,0 +1,248 @@
+// Field schemas shared by API request validation and MongoDB $jsonSchema validators
+// File: lib/validation.ts
+import { Document } from 'mongodb';
+import { NextResponse } from 'next/server';
+
+interface BaseField {
+  optional?: boolean; // may be left out
+  nullable?: boolean; // may be null
+  serverSet?: boolean; // written by the server only; ignored in requests
+  default?: unknown; // used on create when the request leaves the field out
+}
+
+export interface StringField extends BaseField {
+  type: 'string';
+  minLength?: number;
+  maxLength?: number;
+  enum?: readonly string[];
+  pattern?: RegExp;
+  trim?: boolean;
+  lowercase?: boolean;
+  encrypted?: boolean; // stored as ciphertext (lib/encryption), so the collection validator only checks the type
+}
+
+export interface NumberField extends BaseField {
+  type: 'number';
+  minimum?: number;
+  maximum?: number;
+  integer?: boolean;
+  decimals?: number; // round to this many decimal places
+}
+
+export interface BooleanField extends BaseField {
+  type: 'boolean';
+}
+
+export interface DateField extends BaseField {
+  type: 'date';
+}
+
+export interface ArrayField extends BaseField {
+  type: 'array';
+  items: Field;
+  maxItems?: number;
+  unique?: boolean; // drop duplicates instead of rejecting them
+}
+
+export interface ObjectField extends BaseField {
+  type: 'object';
+  properties: Record<string, Field>;
+}
+
+export type Field = StringField | NumberField | BooleanField | DateField | ArrayField | ObjectField;
+
+// One entry per field of T (except _id), so a schema can't drift from its interface
+export type Schema<T> = { [K in keyof Required<Omit<NonNullable<T>, '_id'>>]: Field };
+
+export function objectField<T>(properties: Schema<T>, options: BaseField = {}): ObjectField {
+  return { type: 'object', properties, ...options };
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export interface ValidationResult<T> {
+  value: Partial<T>;
+  errors: FieldError[];
+}
+
+interface ValidateOptions {
+  // Only check fields that are present (PATCH-style updates); no defaults are applied
+  partial?: boolean;
+}
+
+const INVALID = Symbol('invalid');
+
+function checkValue(field: Field, input: unknown, path: string, options: ValidateOptions, errors: FieldError[]): unknown {
+  const fail = (message: string) => {
+    errors.push({ field: path, message });
+    return INVALID;
+  };
+
+  // An emptied form field clears a nullable value
+  if (input === null || (input === '' && field.nullable)) {
+    return field.nullable ? null : fail('must not be null');
+  }
+
+  switch (field.type) {
+    case 'string': {
+      if (typeof input !== 'string') return fail('must be a string');
+      let value = field.trim ? input.trim() : input;
+      if (field.lowercase) value = value.toLowerCase();
+      if (field.minLength !== undefined && value.length < field.minLength) {
+        return fail(field.minLength === 1 ? 'must not be empty' : `must be at least ${field.minLength} characters`);
+      }
+      if (field.maxLength !== undefined && value.length > field.maxLength) {
+        return fail(`must be at most ${field.maxLength} characters`);
+      }
+      if (field.enum && !field.enum.includes(value)) return fail(`must be one of: ${field.enum.join(', ')}`);
+      if (field.pattern && !field.pattern.test(value)) return fail('has an invalid format');
+      return value;
+    }
+    case 'number': {
+      // Form fields arrive as strings, so numeric strings are accepted
+      const value = typeof input === 'string' && input.trim() !== '' ? Number(input) : input;
+      if (typeof value !== 'number' || !Number.isFinite(value)) return fail('must be a number');
+      if (field.integer && !Number.isInteger(value)) return fail('must be a whole number');
+      if (field.minimum !== undefined && value < field.minimum) return fail(`must be at least ${field.minimum}`);
+      if (field.maximum !== undefined && value > field.maximum) return fail(`must be at most ${field.maximum}`);
+      if (field.decimals !== undefined) {
+        const factor = 10 ** field.decimals;
+        return Math.round(value * factor) / factor;
+      }
+      return value;
+    }
+    case 'boolean':
+      return typeof input === 'boolean' ? input : fail('must be true or false');
+    case 'date': {
+      const value = input instanceof Date ? input
+        : typeof input === 'string' || typeof input === 'number' ? new Date(input)
+        : null;
+      if (!value || isNaN(value.getTime())) return fail('must be a valid date');
+      return value;
+    }
+    case 'array': {
+      if (!Array.isArray(input)) return fail('must be an array');
+      let items = input.map((item, i) => checkValue(field.items, item, `${path}[${i}]`, { ...options, partial: false }, errors));
+      if (items.includes(INVALID)) return INVALID;
+      if (field.unique) items = Array.from(new Set(items));
+      if (field.maxItems !== undefined && items.length > field.maxItems) return fail(`must have at most ${field.maxItems} items`);
+      return items;
+    }
+    case 'object': {
+      if (typeof input !== 'object' || Array.isArray(input) || input instanceof Date) return fail('must be an object');
+      const value = checkObject(field, input as Record<string, unknown>, path, options, errors);
+      return value === null ? INVALID : value;
+    }
+  }
+}
+
+function checkObject(
+  schema: ObjectField,
+  input: Record<string, unknown>,
+  prefix: string,
+  options: ValidateOptions,
+  errors: FieldError[]
+): Record<string, unknown> | null {
+  const errorCount = errors.length;
+  const value: Record<string, unknown> = {};
+
+  for (const [name, field] of Object.entries(schema.properties)) {
+    if (field.serverSet) continue;
+    const path = prefix ? `${prefix}.${name}` : name;
+    const raw = input[name];
+
+    if (raw === undefined) {
+      if (options.partial) continue;
+      if (field.default !== undefined) {
+        value[name] = structuredClone(field.default);
+      } else if (!field.optional) {
+        errors.push({ field: path, message: 'is required' });
+      }
+      continue;
+    }
+
+    const checked = checkValue(field, raw, path, options, errors);
+    if (checked !== INVALID) value[name] = checked;
+  }
+
+  return errors.length === errorCount ? value : null;
+}
+
+// Validates and normalises a request body against a schema. Unknown and
+// server-set fields are dropped, so the result is safe to write as-is.
+export function validate<T>(schema: ObjectField, input: unknown, options: ValidateOptions = {}): ValidationResult<T> {
+  const errors: FieldError[] = [];
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { value: {}, errors: [{ field: '', message: 'Request body must be a JSON object' }] };
+  }
+  const value = checkObject(schema, input as Record<string, unknown>, '', options, errors);
+  return { value: (value || {}) as Partial<T>, errors };
+}
+
+// { profile: { bio: 'x' } } -> { 'profile.bio': 'x' }, so a $set only touches the fields that were sent
+export function toUpdatePaths(value: Record<string, unknown>, prefix = ''): Record<string, unknown> {
+  return Object.entries(value).reduce((acc, [key, item]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (item && typeof item === 'object' && !Array.isArray(item) && !(item instanceof Date)) {
+      Object.assign(acc, toUpdatePaths(item as Record<string, unknown>, path));
+    } else {
+      acc[path] = item;
+    }
+    return acc;
+  }, {} as Record<string, unknown>);
+}
+
+function withNull(bsonType: string, field: Field): string | string[] {
+  return field.nullable ? [bsonType, 'null'] : bsonType;
+}
+
+// MongoDB $jsonSchema for the same field definitions
+export function toJsonSchema(field: Field): Document {
+  switch (field.type) {
+    case 'string': {
+      const schema: Document = { bsonType: withNull('string', field) };
+      if (field.encrypted) return schema;
+      if (field.minLength !== undefined) schema.minLength = field.minLength;
+      if (field.maxLength !== undefined) schema.maxLength = field.maxLength;
+      if (field.enum) schema.enum = field.nullable ? [...field.enum, null] : [...field.enum];
+      if (field.pattern) schema.pattern = field.pattern.source;
+      return schema;
+    }
+    case 'number': {
+      const schema: Document = { bsonType: withNull('number', field) };
+      if (field.minimum !== undefined) schema.minimum = field.minimum;
+      if (field.maximum !== undefined) schema.maximum = field.maximum;
+      if (field.integer) schema.multipleOf = 1;
+      return schema;
+    }
+    case 'boolean':
+      return { bsonType: withNull('bool', field) };
+    case 'date':
+      return { bsonType: withNull('date', field) };
+    case 'array': {
+      const schema: Document = { bsonType: withNull('array', field), items: toJsonSchema(field.items) };
+      if (field.maxItems !== undefined) schema.maxItems = field.maxItems;
+      return schema;
+    }
+    case 'object': {
+      const properties = Object.fromEntries(
+        Object.entries(field.properties).map(([name, child]) => [name, toJsonSchema(child)])
+      );
+      const required = Object.entries(field.properties)
+        .filter(([, child]) => !child.optional)
+        .map(([name]) => name);
+      return {
+        bsonType: withNull('object', field),
+        ...(required.length > 0 ? { required } : {}),
+        properties,
+      };
+    }
+  }
+}
+
+export function validationErrorResponse(errors: FieldError[]) {
+  return NextResponse.json({ error: 'Validation failed', fields: errors }, { status: 422 });
+}
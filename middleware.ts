@@ -0,0 +1,48 @@
+// Authenticates every API request with the caller's access token (see lib/auth)
+// File: middleware.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { USER_EMAIL_HEADER, USER_ID_HEADER, getBearerToken, verifyAccessToken } from '@/lib/auth';
+
+// Reachable without a session; entries ending in '/' match every route below them
+const PUBLIC_API_ROUTES = ['/api/auth/dev-token', '/api/erasure-receipts/'];
+
+function isPublicRoute(pathname: string): boolean {
+  return PUBLIC_API_ROUTES.some(route => route.endsWith('/') ? pathname.startsWith(route) : pathname === route);
+}
+
+export async function middleware(request: NextRequest) {
+  const headers = new Headers(request.headers);
+  headers.delete(USER_ID_HEADER);
+  headers.delete(USER_EMAIL_HEADER);
+
+  if (isPublicRoute(request.nextUrl.pathname)) {
+    return NextResponse.next({ request: { headers } });
+  }
+
+  const token = getBearerToken(request);
+  if (!token) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const claims = await verifyAccessToken(token);
+  if (!claims) {
+    return NextResponse.json({ error: 'Invalid or expired session' }, { status: 401 });
+  }
+
+  // Body userIds are checked by the routes themselves (requireUser)
+  const claimedUserId = request.nextUrl.searchParams.get('userId');
+  if (claimedUserId && claimedUserId !== claims.sub) {
+    return NextResponse.json({ error: 'userId does not match the signed-in user' }, { status: 403 });
+  }
+
+  headers.set(USER_ID_HEADER, claims.sub);
+  if (claims.email) {
+    headers.set(USER_EMAIL_HEADER, claims.email);
+  }
+
+  return NextResponse.next({ request: { headers } });
+}
+
+export const config = {
+  matcher: '/api/:path*',
+};
@@ -0,0 +1,20 @@
+// File: scripts/dev-token.ts
+// Run this with: npm run dev-token [-- someone@example.com]
+// Prints a local-auth access token for curl or scripts/test-n8n-integration.js
+// (NEXT_PUBLIC_AUTH_PROVIDER=local; signed with LOCAL_AUTH_SECRET).
+import { loadEnvConfig } from '@next/env';
+import { DEV_USER_EMAIL, issueLocalAccessToken } from '../lib/auth/local';
+
+async function main() {
+  loadEnvConfig(process.cwd());
+  const email = process.argv[2] || DEV_USER_EMAIL;
+
+  const { accessToken, claims } = await issueLocalAccessToken(email);
+  console.error(`👤 ${claims.email} (userId ${claims.sub}), valid until ${new Date((claims.exp || 0) * 1000).toISOString()}`);
+  console.log(accessToken);
+}
+
+main().catch((error) => {
+  console.error('❌ Could not issue token:', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,40 @@
+// File: scripts/migrate.ts
+// Run this with: npm run migrate            (apply pending migrations)
+//                npm run migrate -- status  (list applied and pending migrations)
+import { loadEnvConfig } from '@next/env';
+import { getDatabaseName, getMongoClient } from '../lib/mongodb';
+import { getMigrationStatus, runMigrations } from '../lib/migrations';
+
+async function main() {
+  loadEnvConfig(process.cwd());
+  const command = process.argv[2] || 'up';
+
+  const client = await getMongoClient();
+  const db = client.db(getDatabaseName());
+  console.log(`📦 Database: ${db.databaseName}\n`);
+
+  try {
+    if (command === 'status') {
+      const status = await getMigrationStatus(db);
+      status.forEach(migration => {
+        const state = migration.appliedAt ? `✅ applied ${migration.appliedAt.toISOString()}` : '⏳ pending';
+        console.log(`${String(migration.version).padStart(3, '0')} ${migration.name.padEnd(28)} ${state}`);
+      });
+    } else if (command === 'up') {
+      const applied = await runMigrations(db);
+      console.log(applied.length > 0
+        ? `\n✅ Applied ${applied.length} migration(s)`
+        : '✅ Database is up to date');
+    } else {
+      console.error(`Unknown command "${command}". Use "up" or "status".`);
+      process.exitCode = 1;
+    }
+  } finally {
+    await client.close();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Migration failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
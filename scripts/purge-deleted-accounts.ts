@@ -0,0 +1,27 @@
+// File: scripts/purge-deleted-accounts.ts
+// Run this with: npm run purge-deleted-accounts
+// Erases every account whose deletion grace period has ended (schedule it daily, e.g. from cron).
+import { loadEnvConfig } from '@next/env';
+import { getDb, getMongoClient } from '../lib/mongodb';
+import { purgeDueDeletions } from '../lib/account-erasure';
+
+async function main() {
+  loadEnvConfig(process.cwd());
+
+  const client = await getMongoClient();
+  try {
+    const receipts = await purgeDueDeletions(await getDb());
+    receipts.forEach(receipt => {
+      const total = Object.values(receipt.deletedCounts).reduce((sum, count) => sum + count, 0);
+      console.log(`🗑️  ${receipt.receiptId}: ${total} document(s) erased`);
+    });
+    console.log(`✅ Erased ${receipts.length} account(s)`);
+  } finally {
+    await client.close();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Purge failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,25 @@
+// File: scripts/purge-trash.ts
+// Run this with: npm run purge-trash
+// Permanently deletes moods and goals that have been in the trash longer than TRASH_RETENTION_DAYS (run it daily).
+import { loadEnvConfig } from '@next/env';
+import { getDb, getMongoClient } from '../lib/mongodb';
+import { getTrashRetentionDays, purgeTrash } from '../lib/trash';
+
+async function main() {
+  loadEnvConfig(process.cwd());
+
+  const client = await getMongoClient();
+  try {
+    const counts = await purgeTrash(await getDb());
+    console.log(`🗑️  ${counts.moods} mood(s) and ${counts.wellness_goals} goal(s) trashed over ${getTrashRetentionDays()} days ago`);
+    console.log(`🗑️  ${counts.goal_checkins} check-in(s) and ${counts.goal_periods} period(s) of purged goals`);
+    console.log('✅ Trash purged');
+  } finally {
+    await client.close();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Purge failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,50 @@
+// File: scripts/rotate-keys.ts
+// Run this with: npm run rotate-keys [master | data [userId ...] | prune]
+//   master  re-wraps every data key with ENCRYPTION_MASTER_KEY (default)
+//   data    gives the users (all of them if none are listed) a new data key and re-encrypts their fields
+//   prune   deletes retired data keys nothing is encrypted under any more
+import { loadEnvConfig } from '@next/env';
+import { getDb, getMongoClient } from '../lib/mongodb';
+import { rewrapDataKeys, rotateDataKey } from '../lib/encryption';
+import { pruneRetiredKeys, reencryptUserData } from '../lib/encrypted-fields';
+
+async function main() {
+  loadEnvConfig(process.cwd());
+  const [command = 'master', ...userIds] = process.argv.slice(2);
+
+  const client = await getMongoClient();
+  try {
+    const db = await getDb();
+    switch (command) {
+      case 'master': {
+        const count = await rewrapDataKeys(db);
+        console.log(`✅ Re-wrapped ${count} data key(s); keys in ENCRYPTION_PREVIOUS_MASTER_KEYS can now be removed`);
+        break;
+      }
+      case 'data': {
+        const users = userIds.length > 0 ? userIds : await db.collection('data_keys').distinct('userId', { active: true });
+        for (const userId of users) {
+          const keyId = await rotateDataKey(db, userId);
+          const { moods, users: profiles } = await reencryptUserData(db, userId);
+          console.log(`🔑 ${userId}: key ${keyId}, ${moods} mood(s) and ${profiles} profile(s) re-encrypted`);
+        }
+        console.log(`✅ Rotated data keys for ${users.length} user(s); run "npm run rotate-keys prune" to drop the old keys`);
+        break;
+      }
+      case 'prune': {
+        const count = await pruneRetiredKeys(db);
+        console.log(`✅ Deleted ${count} retired data key(s)`);
+        break;
+      }
+      default:
+        throw new Error(`Unknown command "${command}" (expected master, data or prune)`);
+    }
+  } finally {
+    await client.close();
+  }
+}
+
+main().catch(error => {
+  console.error('❌ Key rotation failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
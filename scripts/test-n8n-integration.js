@@ -1,14 +1,19 @@
 // File: scripts/test-n8n-integration.js
-// Run this with: node scripts/test-n8n-integration.js
+// Run this with: TEST_ACCESS_TOKEN=<Supabase access token> node scripts/test-n8n-integration.js
+// The API routes need a signed-in user; the token's user owns the test entries.
+// With NEXT_PUBLIC_AUTH_PROVIDER=local, `npm run dev-token` prints one.
 
 const fetch = require('node-fetch');
 
+const authHeaders = process.env.TEST_ACCESS_TOKEN
+  ? { Authorization: `Bearer ${process.env.TEST_ACCESS_TOKEN}` }
+  : {};
+
 async function testFullFlow() {
   console.log('🧪 Testing Mental Health Tracker n8n Integration\n');
 
   // Test data
   const testMoodData = {
-    userId: 'test-user-12345',
     moodText: 'I am feeling really stressed about work today. Everything seems overwhelming.',
     moodState: 'Stressed',
     sentiment: 'Negative (85%)',
@@ -25,7 +30,7 @@ async function testFullFlow() {
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify(testMoodData),
+      body: JSON.stringify({ userId: 'test-user-12345', ...testMoodData }),
     });
 
     if (directResponse.ok) {
@@ -52,6 +57,7 @@ async function testFullFlow() {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...authHeaders,
       },
       body: JSON.stringify(testMoodData),
     });
@@ -80,6 +86,7 @@ async function testFullFlow() {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...authHeaders,
       },
       body: JSON.stringify(testMoodData),
     });
@@ -140,7 +147,7 @@ async function testFullFlow() {
     // 5. Check n8n status
     console.log('5️⃣ Checking n8n status...');
     
-    const statusResponse = await fetch('http://localhost:3000/api/n8n/trigger?test=true');
+    const statusResponse = await fetch('http://localhost:3000/api/n8n/trigger?test=true', { headers: authHeaders });
     
     if (statusResponse.ok) {
       const result = await statusResponse.json();
@@ -0,0 +1,12 @@
+// fetch() for our own API routes, sending the signed-in user's access token
+// File: utils/api-fetch.ts
+import { authClient } from './auth';
+
+export async function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const session = await authClient.getSession();
+  const headers = new Headers(init.headers);
+  if (session) {
+    headers.set('Authorization', `Bearer ${session.accessToken}`);
+  }
+  return fetch(input, { ...init, headers });
+}
@@ -0,0 +1,21 @@
+// Browser-side sign-in, picked by NEXT_PUBLIC_AUTH_PROVIDER to match lib/auth
+// File: utils/auth/index.ts
+import localAuthClient from './local';
+import supabaseAuthClient from './supabase';
+
+export interface AuthSession {
+  accessToken: string;
+  user: { id: string; email?: string };
+}
+
+export interface AuthClient {
+  getSession: () => Promise<AuthSession | null>;
+  // Called right away with the current session, then on every change. Returns an unsubscribe function.
+  onSessionChange: (callback: (session: AuthSession | null) => void) => () => void;
+  // 'link-sent' when the user still has to follow an emailed link
+  signIn: (email: string) => Promise<'signed-in' | 'link-sent'>;
+  signOut: () => Promise<void>;
+}
+
+export const authClient: AuthClient =
+  process.env.NEXT_PUBLIC_AUTH_PROVIDER === 'local' ? localAuthClient : supabaseAuthClient;
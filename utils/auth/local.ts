@@ -0,0 +1,57 @@
+// Development sessions from /api/auth/dev-token, kept in localStorage
+// File: utils/auth/local.ts
+import { decodeClaims } from '../../lib/auth/jwt';
+import type { AuthClient, AuthSession } from './index';
+
+const STORAGE_KEY = 'local-auth-session';
+const listeners = new Set<(session: AuthSession | null) => void>();
+
+function readSession(): AuthSession | null {
+  const stored = typeof window !== 'undefined' ? window.localStorage.getItem(STORAGE_KEY) : null;
+  if (!stored) return null;
+  try {
+    const session: AuthSession = JSON.parse(stored);
+    const claims = decodeClaims(session.accessToken);
+    return claims && (!claims.exp || claims.exp * 1000 > Date.now()) ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeSession(session: AuthSession | null) {
+  if (session) {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } else {
+    window.localStorage.removeItem(STORAGE_KEY);
+  }
+  listeners.forEach(listener => listener(session));
+}
+
+const client: AuthClient = {
+  getSession: async () => readSession(),
+  onSessionChange: (callback) => {
+    listeners.add(callback);
+    callback(readSession());
+    return () => {
+      listeners.delete(callback);
+    };
+  },
+  signIn: async (email) => {
+    const response = await fetch('/api/auth/dev-token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email }),
+    });
+    if (!response.ok) {
+      throw new Error(`Local sign-in failed (${response.status})`);
+    }
+    const { accessToken, user } = await response.json();
+    writeSession({ accessToken, user });
+    return 'signed-in';
+  },
+  signOut: async () => {
+    writeSession(null);
+  },
+};
+
+export default client;
@@ -0,0 +1,33 @@
+// Supabase magic-link sessions
+// File: utils/auth/supabase.ts
+import type { Session } from '@supabase/supabase-js';
+import { getSupabaseClient } from '../supabase/server';
+import type { AuthClient, AuthSession } from './index';
+
+const toAuthSession = (session: Session | null): AuthSession | null =>
+  session ? { accessToken: session.access_token, user: { id: session.user.id, email: session.user.email } } : null;
+
+const client: AuthClient = {
+  // getSession refreshes an expired access token before returning it
+  getSession: async () => {
+    const { data: { session }, error } = await getSupabaseClient().auth.getSession();
+    if (error) throw error;
+    return toAuthSession(session);
+  },
+  onSessionChange: (callback) => {
+    const { data: { subscription } } = getSupabaseClient().auth.onAuthStateChange((_event, session) => {
+      callback(toAuthSession(session));
+    });
+    return () => subscription.unsubscribe();
+  },
+  signIn: async (email) => {
+    const { error } = await getSupabaseClient().auth.signInWithOtp({ email });
+    if (error) throw error;
+    return 'link-sent';
+  },
+  signOut: async () => {
+    await getSupabaseClient().auth.signOut();
+  },
+};
+
+export default client;